@@ -12,6 +12,8 @@ CREATE TABLE users (
     name VARCHAR(100) NOT NULL,
     phone VARCHAR(20) NOT NULL,
     wallet_balance DECIMAL(10,2) DEFAULT 0.00,
+    rider_rating DECIMAL(3,2) DEFAULT 5.00,
+    rider_rating_count INT DEFAULT 0,
     created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
     updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
     INDEX idx_email (email),
@@ -31,6 +33,7 @@ CREATE TABLE drivers (
     vehicle_type VARCHAR(50) NOT NULL,
     license_plate VARCHAR(20) NOT NULL,
     rating DECIMAL(3,2) DEFAULT 5.00,
+    rating_count INT DEFAULT 0,
     status ENUM('online', 'offline', 'busy') DEFAULT 'offline',
     created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
     updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
@@ -49,6 +52,17 @@ CREATE TABLE driver_locations (
     INDEX idx_updated_at (updated_at)
 );
 
+-- Shared rides carried together by one driver; route is the remaining pickup/dropoff order
+CREATE TABLE ride_pools (
+    id VARCHAR(50) PRIMARY KEY,
+    driver_id VARCHAR(50) NOT NULL,
+    route JSON NOT NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+    FOREIGN KEY (driver_id) REFERENCES drivers(id) ON DELETE CASCADE,
+    INDEX idx_driver_id (driver_id)
+);
+
 -- Rides table
 CREATE TABLE rides (
     id VARCHAR(50) PRIMARY KEY,
@@ -61,31 +75,153 @@ CREATE TABLE rides (
     dropoff_lng DECIMAL(11, 8) NOT NULL,
     dropoff_address TEXT NULL,
     ride_type ENUM('standard', 'premium', 'shared') NOT NULL,
-    status ENUM('requested', 'accepted', 'in_progress', 'completed', 'cancelled') DEFAULT 'requested',
+    status ENUM('scheduled', 'requested', 'accepted', 'in_progress', 'completed', 'cancelled') DEFAULT 'requested',
     fare DECIMAL(10,2) DEFAULT 0.00,
+    base_fare DECIMAL(10,2) NULL,
+    distance_fare DECIMAL(10,2) NULL,
+    stops_fare DECIMAL(10,2) DEFAULT 0.00,
+    promo_code_id VARCHAR(50) NULL,
+    discount_amount DECIMAL(10,2) DEFAULT 0.00,
+    cancellation_fee DECIMAL(10,2) DEFAULT 0.00,
+    pool_id VARCHAR(50) NULL,
+    seats TINYINT NOT NULL DEFAULT 1,
+    pool_discount DECIMAL(10,2) DEFAULT 0.00,
     surge_multiplier DECIMAL(3,2) DEFAULT 1.00,
     distance_km DECIMAL(8,2) DEFAULT 0.00,
     duration_minutes INT DEFAULT 0,
     rating TINYINT NULL CHECK (rating BETWEEN 1 AND 5),
     created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    scheduled_for TIMESTAMP NULL,
+    reminder_sent_at TIMESTAMP NULL,
+    released_at TIMESTAMP NULL,
     accepted_at TIMESTAMP NULL,
+    arrived_at TIMESTAMP NULL,
     started_at TIMESTAMP NULL,
     completed_at TIMESTAMP NULL,
+    cancelled_at TIMESTAMP NULL,
     FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
     FOREIGN KEY (driver_id) REFERENCES drivers(id) ON DELETE SET NULL,
+    FOREIGN KEY (pool_id) REFERENCES ride_pools(id) ON DELETE SET NULL,
     INDEX idx_user_id (user_id),
+    INDEX idx_user_history (user_id, created_at, id),
     INDEX idx_driver_id (driver_id),
     INDEX idx_status (status),
+    INDEX idx_scheduled (status, scheduled_for),
+    INDEX idx_pool (ride_type, status),
     INDEX idx_created_at (created_at),
     INDEX idx_surge_multiplier (surge_multiplier)
 );
 
+-- Intermediate stops between pickup and dropoff, in visiting order
+CREATE TABLE ride_stops (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    ride_id VARCHAR(50) NOT NULL,
+    stop_order TINYINT NOT NULL,
+    lat DECIMAL(10, 8) NOT NULL,
+    lng DECIMAL(11, 8) NOT NULL,
+    address TEXT NULL,
+    arrived_at TIMESTAMP NULL,
+    FOREIGN KEY (ride_id) REFERENCES rides(id) ON DELETE CASCADE,
+    UNIQUE KEY uniq_ride_stop (ride_id, stop_order)
+);
+
+-- Ride status history (audit row per state machine transition)
+CREATE TABLE ride_status_history (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    ride_id VARCHAR(50) NOT NULL,
+    action ENUM('release', 'accept', 'arrive', 'start', 'complete', 'cancel') NOT NULL,
+    from_status ENUM('scheduled', 'requested', 'accepted', 'in_progress', 'completed', 'cancelled') NOT NULL,
+    to_status ENUM('scheduled', 'requested', 'accepted', 'in_progress', 'completed', 'cancelled') NOT NULL,
+    actor_id VARCHAR(50) NULL,
+    actor_role ENUM('rider', 'driver', 'system') NOT NULL,
+    details JSON NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (ride_id) REFERENCES rides(id) ON DELETE CASCADE,
+    INDEX idx_ride_id (ride_id),
+    INDEX idx_created_at (created_at)
+);
+
+-- Post-trip ratings, one per ride in each direction (rides.rating mirrors the rider's stars)
+CREATE TABLE ride_ratings (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    ride_id VARCHAR(50) NOT NULL,
+    rater_role ENUM('rider', 'driver') NOT NULL,
+    rater_id VARCHAR(50) NOT NULL,
+    ratee_id VARCHAR(50) NOT NULL,
+    rating TINYINT NOT NULL CHECK (rating BETWEEN 1 AND 5),
+    tags JSON NULL,
+    comment VARCHAR(500) NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (ride_id) REFERENCES rides(id) ON DELETE CASCADE,
+    UNIQUE KEY uniq_ride_rater (ride_id, rater_role),
+    INDEX idx_ratee (ratee_id, created_at)
+);
+
+-- Ride offers table (every dispatch offer and the driver's response, kept for analysis)
+CREATE TABLE ride_offers (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    ride_id VARCHAR(50) NOT NULL,
+    driver_id VARCHAR(50) NOT NULL,
+    status ENUM('pending', 'accepted', 'declined', 'expired', 'withdrawn') DEFAULT 'pending',
+    distance_km DECIMAL(8,2) NULL,
+    eta_minutes SMALLINT NULL,
+    search_radius_km DECIMAL(6,2) NULL,
+    dispatch_round TINYINT NULL,
+    rank_score DECIMAL(6,4) NULL,
+    offered_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    expires_at TIMESTAMP NOT NULL,
+    responded_at TIMESTAMP NULL,
+    FOREIGN KEY (ride_id) REFERENCES rides(id) ON DELETE CASCADE,
+    FOREIGN KEY (driver_id) REFERENCES drivers(id) ON DELETE CASCADE,
+    INDEX idx_ride_id (ride_id),
+    INDEX idx_driver_status (driver_id, status),
+    INDEX idx_expires_at (expires_at)
+);
+
+-- Pricing rules (NULL zone/ride type/hours/days means "all"; NULL rates fall through to less specific rules)
+CREATE TABLE pricing_rules (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    name VARCHAR(100) NOT NULL,
+    zone_geohash VARCHAR(12) NULL,
+    ride_type ENUM('standard', 'premium', 'shared') NULL,
+    start_hour TINYINT NULL,
+    end_hour TINYINT NULL,
+    days_of_week VARCHAR(20) NULL,
+    base_fare DECIMAL(8,2) NULL,
+    per_km_rate DECIMAL(8,2) NULL,
+    avg_speed_kmh DECIMAL(5,2) NULL,
+    per_stop_fee DECIMAL(8,2) NULL,
+    surge_multiplier DECIMAL(3,2) NULL,
+    priority INT DEFAULT 0,
+    is_active BOOLEAN DEFAULT TRUE,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+    INDEX idx_active (is_active),
+    INDEX idx_zone (zone_geohash)
+);
+
+-- Default pricing (hours are [start_hour, end_hour); days use 0 = Sunday)
+INSERT INTO pricing_rules (name, ride_type, base_fare, per_km_rate, avg_speed_kmh, per_stop_fee) VALUES
+('Standard base rates', 'standard', 25.00, 12.00, 25.00, 20.00),
+('Premium base rates', 'premium', 40.00, 18.00, 25.00, 30.00),
+('Shared base rates', 'shared', 18.00, 8.00, 25.00, 15.00);
+
+INSERT INTO pricing_rules (name, start_hour, end_hour, days_of_week, surge_multiplier) VALUES
+('Morning peak', 7, 11, NULL, 1.50),
+('Evening peak', 17, 22, NULL, 1.50),
+('Late night', 23, 6, NULL, 1.30),
+('Weekend', NULL, NULL, '0,6', 1.20);
+
 -- User payment methods table
 CREATE TABLE user_payment_methods (
     id VARCHAR(50) PRIMARY KEY,
     user_id VARCHAR(50) NOT NULL,
     payment_type ENUM('card', 'wallet', 'upi') NOT NULL,
     card_last_four VARCHAR(4) NULL,
+    card_brand VARCHAR(20) NULL,
+    upi_handle VARCHAR(100) NULL,
+    label VARCHAR(50) NULL,
+    is_default BOOLEAN DEFAULT FALSE,
     is_active BOOLEAN DEFAULT TRUE,
     created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
     FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
@@ -109,6 +245,38 @@ CREATE TABLE promo_codes (
     INDEX idx_active_expires (is_active, expires_at)
 );
 
+-- Promo redemptions (one per rider per code; released if the ride is cancelled)
+CREATE TABLE promo_redemptions (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    promo_code_id VARCHAR(50) NOT NULL,
+    user_id VARCHAR(50) NOT NULL,
+    ride_id VARCHAR(50) NOT NULL,
+    discount_amount DECIMAL(10,2) NOT NULL,
+    redeemed_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (promo_code_id) REFERENCES promo_codes(id) ON DELETE CASCADE,
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+    FOREIGN KEY (ride_id) REFERENCES rides(id) ON DELETE CASCADE,
+    UNIQUE KEY uniq_promo_user (promo_code_id, user_id),
+    INDEX idx_ride_id (ride_id)
+);
+
+-- Wallet ledger (amount is signed: credits positive, debits negative)
+CREATE TABLE wallet_transactions (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    user_id VARCHAR(50) NOT NULL,
+    type ENUM('topup', 'ride_payment', 'refund', 'adjustment') NOT NULL,
+    amount DECIMAL(10,2) NOT NULL,
+    balance_after DECIMAL(10,2) NOT NULL,
+    ride_id VARCHAR(50) NULL,
+    description VARCHAR(255) NULL,
+    reference VARCHAR(100) NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+    FOREIGN KEY (ride_id) REFERENCES rides(id) ON DELETE SET NULL,
+    UNIQUE KEY uniq_ride_type (ride_id, type),
+    INDEX idx_user_id (user_id, id)
+);
+
 -- Ride logs table (for logging ride requests - used in performance demo)
 CREATE TABLE ride_logs (
     id INT AUTO_INCREMENT PRIMARY KEY,
@@ -121,17 +289,23 @@ CREATE TABLE ride_logs (
     INDEX idx_created_at (created_at)
 );
 
--- Payments table
+-- Payments table (pending → authorized at booking → completed on trip completion; voided/refunded on cancel)
 CREATE TABLE payments (
     id VARCHAR(50) PRIMARY KEY,
     ride_id VARCHAR(50) NOT NULL,
     user_id VARCHAR(50) NOT NULL,
     amount DECIMAL(10,2) NOT NULL,
     payment_method_id VARCHAR(50) NOT NULL,
-    status ENUM('pending', 'completed', 'failed', 'refunded') DEFAULT 'pending',
+    provider VARCHAR(30) NOT NULL DEFAULT 'wallet',
+    status ENUM('pending', 'authorized', 'completed', 'failed', 'voided', 'refunded') DEFAULT 'pending',
+    authorization_id VARCHAR(100) NULL,
     transaction_id VARCHAR(100) NULL,
+    refund_id VARCHAR(100) NULL,
+    failure_reason VARCHAR(255) NULL,
     created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    authorized_at TIMESTAMP NULL,
     completed_at TIMESTAMP NULL,
+    refunded_at TIMESTAMP NULL,
     FOREIGN KEY (ride_id) REFERENCES rides(id) ON DELETE CASCADE,
     FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
     FOREIGN KEY (payment_method_id) REFERENCES user_payment_methods(id),
@@ -0,0 +1,26 @@
+const { createClient } = require('redis');
+require('dotenv').config();
+
+// Commands fail fast while Redis is unreachable instead of queueing behind the reconnect loop
+const client = createClient({
+  url: process.env.REDIS_URL || 'redis://localhost:6379',
+  disableOfflineQueue: true,
+  socket: {
+    reconnectStrategy: (retries) => Math.min(retries * 200, 5000)
+  }
+});
+
+client.on('error', (error) => {
+  console.error('❌ Redis error:', error.message);
+});
+
+let connecting = null;
+
+async function connectRedis() {
+  if (!connecting) {
+    connecting = client.connect().then(() => console.log('✅ Redis connected successfully'));
+  }
+  return connecting;
+}
+
+module.exports = { redis: client, connectRedis };
@@ -11,17 +11,24 @@ const auth = async (req, res, next) => {
     
     const decoded = jwt.verify(token, process.env.JWT_SECRET || 'rideshare-secret-key');
     
-    // Get user from database
-    const [users] = await db.execute(
-      'SELECT id, email, name, phone, wallet_balance FROM users WHERE id = ?',
-      [decoded.id]
-    );
+    const role = decoded.role === 'driver' ? 'driver' : 'rider';
+    
+    // Get user from database (drivers live in their own table)
+    const [users] = role === 'driver'
+      ? await db.execute(
+          'SELECT id, email, name, phone, vehicle_type, license_plate, rating, status FROM drivers WHERE id = ?',
+          [decoded.id]
+        )
+      : await db.execute(
+          'SELECT id, email, name, phone, wallet_balance FROM users WHERE id = ?',
+          [decoded.id]
+        );
     
     if (users.length === 0) {
       return res.status(401).json({ message: 'Invalid token.' });
     }
     
-    req.user = users[0];
+    req.user = { ...users[0], role };
     next();
   } catch (error) {
     console.error('Auth error:', error);
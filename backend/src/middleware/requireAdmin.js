@@ -0,0 +1,21 @@
+const crypto = require('crypto');
+
+// Operator-only endpoints authenticate with the shared ADMIN_API_KEY sent as X-Admin-Key
+const requireAdmin = (req, res, next) => {
+  const adminKey = process.env.ADMIN_API_KEY;
+  const provided = req.header('X-Admin-Key');
+
+  const expected = Buffer.from(adminKey || '');
+  const actual = Buffer.from(provided || '');
+
+  const isValid = expected.length > 0 &&
+    actual.length === expected.length &&
+    crypto.timingSafeEqual(actual, expected);
+
+  if (!isValid) {
+    return res.status(403).json({ message: 'Admin access required.' });
+  }
+  next();
+};
+
+module.exports = requireAdmin;
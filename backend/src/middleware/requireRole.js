@@ -0,0 +1,9 @@
+// Restrict a route to authenticated users with one of the given roles (use after `auth`)
+const requireRole = (...roles) => (req, res, next) => {
+  if (!req.user || !roles.includes(req.user.role)) {
+    return res.status(403).json({ message: 'Access denied for this account type.' });
+  }
+  next();
+};
+
+module.exports = requireRole;
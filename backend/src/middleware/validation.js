@@ -1,4 +1,5 @@
 const Joi = require('joi');
+const { DRIVER_RATING_TAGS, RIDER_RATING_TAGS } = require('../utils/ratingTags');
 
 // Validation schemas
 const signupSchema = Joi.object({
@@ -27,6 +28,73 @@ const rideRequestSchema = Joi.object({
   ride_type: Joi.string().valid('standard', 'premium', 'shared').required()
 });
 
+// A null scope field (zone, ride type, hours, days) means the rule applies to all of them
+const pricingRuleSchema = Joi.object({
+  name: Joi.string().min(2).max(100).required(),
+  zone_geohash: Joi.string().pattern(/^[0-9b-hjkmnp-z]{1,12}$/).allow(null).optional(),
+  ride_type: Joi.string().valid('standard', 'premium', 'shared').allow(null).optional(),
+  start_hour: Joi.number().integer().min(0).max(23).allow(null).optional(),
+  end_hour: Joi.number().integer().min(0).max(23).invalid(Joi.ref('start_hour')).allow(null).optional(),
+  days_of_week: Joi.array().items(Joi.number().integer().min(0).max(6)).min(1).unique().allow(null).optional(),
+  base_fare: Joi.number().min(0).allow(null).optional(),
+  per_km_rate: Joi.number().min(0).allow(null).optional(),
+  avg_speed_kmh: Joi.number().greater(0).max(150).allow(null).optional(),
+  per_stop_fee: Joi.number().min(0).allow(null).optional(),
+  surge_multiplier: Joi.number().min(1).max(5).allow(null).optional(),
+  priority: Joi.number().integer().min(0).max(1000).optional(),
+  is_active: Joi.boolean().optional()
+})
+  .and('start_hour', 'end_hour')
+  .or('base_fare', 'per_km_rate', 'avg_speed_kmh', 'per_stop_fee', 'surge_multiplier');
+
+// Only the last four digits of a card are ever sent or stored
+const paymentMethodSchema = Joi.object({
+  payment_type: Joi.string().valid('card', 'upi', 'wallet').required(),
+  card_last_four: Joi.when('payment_type', {
+    is: 'card',
+    then: Joi.string().pattern(/^\d{4}$/).required(),
+    otherwise: Joi.forbidden()
+  }),
+  card_brand: Joi.when('payment_type', {
+    is: 'card',
+    then: Joi.string().valid('visa', 'mastercard', 'rupay', 'amex', 'other').default('other'),
+    otherwise: Joi.forbidden()
+  }),
+  upi_handle: Joi.when('payment_type', {
+    is: 'upi',
+    then: Joi.string().pattern(/^[\w.-]{2,64}@[a-zA-Z]{2,32}$/).required(),
+    otherwise: Joi.forbidden()
+  }),
+  label: Joi.string().max(50).allow('', null).optional(),
+  is_default: Joi.boolean().optional()
+});
+
+const tripHistoryQuerySchema = Joi.object({
+  limit: Joi.number().integer().min(1).max(50).default(20),
+  before: Joi.string().max(50).optional(),
+  status: Joi.string().valid('scheduled', 'requested', 'accepted', 'in_progress', 'completed', 'cancelled').optional(),
+  ride_type: Joi.string().valid('standard', 'premium', 'shared').optional(),
+  from: Joi.date().iso().raw().optional(),
+  to: Joi.date().iso().min(Joi.ref('from')).raw().optional()
+});
+
+const rideExportQuerySchema = Joi.object({
+  format: Joi.string().valid('csv').default('csv'),
+  status: Joi.string().valid('scheduled', 'requested', 'accepted', 'in_progress', 'completed', 'cancelled').optional(),
+  from: Joi.date().iso().raw().optional(),
+  to: Joi.date().iso().min(Joi.ref('from')).raw().optional()
+});
+
+// Post-trip rating; each side has its own set of tags
+const ratingSchema = (tags) => Joi.object({
+  rating: Joi.number().integer().min(1).max(5).required(),
+  tags: Joi.array().items(Joi.string().valid(...tags)).unique().max(5).default([]),
+  comment: Joi.string().trim().max(500).allow('').optional()
+});
+
+const driverRatingSchema = ratingSchema(DRIVER_RATING_TAGS);
+const riderRatingSchema = ratingSchema(RIDER_RATING_TAGS);
+
 // Validation middleware functions
 const validateSignup = (req, res, next) => {
   const { error } = signupSchema.validate(req.body);
@@ -61,8 +129,85 @@ const validateRideRequest = (req, res, next) => {
   next();
 };
 
+const validatePricingRule = (req, res, next) => {
+  const { error } = pricingRuleSchema.validate(req.body);
+  if (error) {
+    return res.status(400).json({ 
+      message: 'Validation error', 
+      details: error.details[0].message 
+    });
+  }
+  next();
+};
+
+const validatePaymentMethod = (req, res, next) => {
+  const { error, value } = paymentMethodSchema.validate(req.body);
+  if (error) {
+    return res.status(400).json({ 
+      message: 'Validation error', 
+      details: error.details[0].message 
+    });
+  }
+  req.body = value;
+  next();
+};
+
+const validateTripHistoryQuery = (req, res, next) => {
+  const { error, value } = tripHistoryQuerySchema.validate(req.query);
+  if (error) {
+    return res.status(400).json({ 
+      message: 'Validation error', 
+      details: error.details[0].message 
+    });
+  }
+  req.query = value;
+  next();
+};
+
+const validateRideExportQuery = (req, res, next) => {
+  const { error, value } = rideExportQuerySchema.validate(req.query);
+  if (error) {
+    return res.status(400).json({ 
+      message: 'Validation error', 
+      details: error.details[0].message 
+    });
+  }
+  req.query = value;
+  next();
+};
+
+const validateDriverRating = (req, res, next) => {
+  const { error, value } = driverRatingSchema.validate(req.body);
+  if (error) {
+    return res.status(400).json({ 
+      message: 'Validation error', 
+      details: error.details[0].message 
+    });
+  }
+  req.body = value;
+  next();
+};
+
+const validateRiderRating = (req, res, next) => {
+  const { error, value } = riderRatingSchema.validate(req.body);
+  if (error) {
+    return res.status(400).json({ 
+      message: 'Validation error', 
+      details: error.details[0].message 
+    });
+  }
+  req.body = value;
+  next();
+};
+
 module.exports = {
   validateSignup,
   validateLogin,
-  validateRideRequest
+  validateRideRequest,
+  validatePricingRule,
+  validatePaymentMethod,
+  validateTripHistoryQuery,
+  validateRideExportQuery,
+  validateDriverRating,
+  validateRiderRating
 };
\ No newline at end of file
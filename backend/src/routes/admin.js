@@ -0,0 +1,97 @@
+const express = require('express');
+const router = express.Router();
+const db = require('../config/database');
+const requireAdmin = require('../middleware/requireAdmin');
+const { validatePricingRule } = require('../middleware/validation');
+const { formatPricingRule, invalidatePricingRules } = require('../services/pricing');
+
+router.use(requireAdmin);
+
+const RULE_COLUMNS = [
+  'name', 'zone_geohash', 'ride_type', 'start_hour', 'end_hour', 'days_of_week',
+  'base_fare', 'per_km_rate', 'avg_speed_kmh', 'per_stop_fee', 'surge_multiplier', 'priority', 'is_active'
+];
+
+// Map a validated request body onto pricing_rules column values (in RULE_COLUMNS order)
+const toRuleValues = (body) => {
+  const rule = {
+    priority: 0,
+    is_active: true,
+    ...body,
+    days_of_week: body.days_of_week ? [...body.days_of_week].sort().join(',') : null
+  };
+  return RULE_COLUMNS.map(column => (rule[column] === undefined ? null : rule[column]));
+};
+
+const getRule = async (ruleId) => {
+  const [rows] = await db.execute('SELECT * FROM pricing_rules WHERE id = ?', [ruleId]);
+  return rows.length > 0 ? formatPricingRule(rows[0]) : null;
+};
+
+// List pricing rules (inactive ones included)
+router.get('/pricing-rules', async (req, res) => {
+  try {
+    const [rows] = await db.execute('SELECT * FROM pricing_rules ORDER BY priority DESC, id ASC');
+    res.json({ rules: rows.map(formatPricingRule) });
+  } catch (error) {
+    console.error('List pricing rules error:', error);
+    res.status(500).json({ message: 'Failed to load pricing rules' });
+  }
+});
+
+// Create a pricing rule
+router.post('/pricing-rules', validatePricingRule, async (req, res) => {
+  try {
+    const [result] = await db.execute(
+      `INSERT INTO pricing_rules (${RULE_COLUMNS.join(', ')})
+       VALUES (${RULE_COLUMNS.map(() => '?').join(', ')})`,
+      toRuleValues(req.body)
+    );
+    invalidatePricingRules();
+
+    res.status(201).json({ rule: await getRule(result.insertId) });
+  } catch (error) {
+    console.error('Create pricing rule error:', error);
+    res.status(500).json({ message: 'Failed to create pricing rule' });
+  }
+});
+
+// Replace a pricing rule
+router.put('/pricing-rules/:ruleId', validatePricingRule, async (req, res) => {
+  try {
+    const [result] = await db.execute(
+      `UPDATE pricing_rules SET ${RULE_COLUMNS.map(column => `${column} = ?`).join(', ')}
+       WHERE id = ?`,
+      [...toRuleValues(req.body), req.params.ruleId]
+    );
+
+    if (result.affectedRows === 0) {
+      return res.status(404).json({ message: 'Pricing rule not found' });
+    }
+    invalidatePricingRules();
+
+    res.json({ rule: await getRule(req.params.ruleId) });
+  } catch (error) {
+    console.error('Update pricing rule error:', error);
+    res.status(500).json({ message: 'Failed to update pricing rule' });
+  }
+});
+
+// Delete a pricing rule
+router.delete('/pricing-rules/:ruleId', async (req, res) => {
+  try {
+    const [result] = await db.execute('DELETE FROM pricing_rules WHERE id = ?', [req.params.ruleId]);
+
+    if (result.affectedRows === 0) {
+      return res.status(404).json({ message: 'Pricing rule not found' });
+    }
+    invalidatePricingRules();
+
+    res.json({ message: 'Pricing rule deleted' });
+  } catch (error) {
+    console.error('Delete pricing rule error:', error);
+    res.status(500).json({ message: 'Failed to delete pricing rule' });
+  }
+});
+
+module.exports = router;
@@ -77,7 +77,7 @@ router.post('/signup', validateSignupWithRole, async (req, res) => {
     // Get user data
     const tableName = role === 'rider' ? 'users' : 'drivers';
     const selectFields = role === 'rider' 
-      ? 'id, email, name, phone, wallet_balance, created_at' 
+      ? 'id, email, name, phone, wallet_balance, rider_rating, created_at' 
       : 'id, email, name, phone, license_number, vehicle_type, license_plate, rating, status, created_at';
     
     const [users] = await db.execute(
@@ -89,7 +89,8 @@ router.post('/signup', validateSignupWithRole, async (req, res) => {
     const formattedUser = {
       ...user,
       role,
-      wallet_balance: role === 'rider' ? parseFloat(user.wallet_balance) || 0.0 : undefined
+      wallet_balance: role === 'rider' ? parseFloat(user.wallet_balance) || 0.0 : undefined,
+      rider_rating: role === 'rider' ? parseFloat(user.rider_rating) || 5.0 : undefined
     };
     
     res.status(201).json({
@@ -114,7 +115,7 @@ router.post('/login', validateLogin, async (req, res) => {
     
     // First check users table (riders)
     const [riders] = await db.execute(
-      'SELECT id, email, password, name, phone, wallet_balance, created_at FROM users WHERE email = ?',
+      'SELECT id, email, password, name, phone, wallet_balance, rider_rating, created_at FROM users WHERE email = ?',
       [email]
     );
     
@@ -156,7 +157,8 @@ router.post('/login', validateLogin, async (req, res) => {
     const formattedUser = {
       ...userWithoutPassword,
       role,
-      wallet_balance: role === 'rider' ? parseFloat(userWithoutPassword.wallet_balance) || 0.0 : undefined
+      wallet_balance: role === 'rider' ? parseFloat(userWithoutPassword.wallet_balance) || 0.0 : undefined,
+      rider_rating: role === 'rider' ? parseFloat(userWithoutPassword.rider_rating) || 5.0 : undefined
     };
     
     res.json({
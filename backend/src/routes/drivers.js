@@ -2,6 +2,20 @@ const express = require('express');
 const router = express.Router();
 const db = require('../config/database');
 const auth = require('../middleware/auth');
+const requireRole = require('../middleware/requireRole');
+const { formatRide } = require('../utils/rideFormatter');
+const { getRideStops } = require('../services/rideStops');
+const { getEtas } = require('../services/routing');
+const { findNearbyDrivers, recordDriverLocation } = require('../services/driverLocations');
+const { getLocationStore } = require('../services/locationStores');
+const { isValidCoordinate } = require('../utils/geo');
+const {
+  getPendingOffersForDriver,
+  acceptOffer,
+  declineOffer
+} = require('../services/offers');
+
+const DRIVER_STATUSES = ['online', 'offline', 'busy'];
 
 // Get nearby drivers
 router.get('/nearby', auth, async (req, res) => {
@@ -12,46 +26,20 @@ router.get('/nearby', auth, async (req, res) => {
       return res.status(400).json({ message: 'Latitude and longitude are required' });
     }
     
-    // Get drivers within radius using Haversine formula
-    const [drivers] = await db.execute(`
-      SELECT 
-        d.id,
-        d.name,
-        d.vehicle_type,
-        d.license_plate,
-        d.rating,
-        d.status,
-        dl.latitude as lat,
-        dl.longitude as lng,
-        (
-          6371 * acos(
-            cos(radians(?)) * cos(radians(dl.latitude)) *
-            cos(radians(dl.longitude) - radians(?)) +
-            sin(radians(?)) * sin(radians(dl.latitude))
-          )
-        ) as distance
-      FROM drivers d
-      JOIN driver_locations dl ON d.id = dl.driver_id
-      WHERE d.status = 'online'
-        AND dl.updated_at > DATE_SUB(NOW(), INTERVAL 5 MINUTE)
-      HAVING distance <= ?
-      ORDER BY distance
-      LIMIT 20
-    `, [lat, lng, lat, radius]);
+    const origin = { lat: parseFloat(lat), lng: parseFloat(lng) };
+    const drivers = await findNearbyDrivers(origin, parseFloat(radius), { limit: 20 });
+    const etas = await getEtas(drivers.map(driver => driver.location), origin);
     
     // Format response
-    const formattedDrivers = drivers.map(driver => ({
+    const formattedDrivers = drivers.map((driver, index) => ({
       id: driver.id,
       name: driver.name,
       vehicle_type: driver.vehicle_type,
       license_plate: driver.license_plate,
       rating: parseFloat(driver.rating),
       status: driver.status,
-      location: {
-        lat: parseFloat(driver.lat),
-        lng: parseFloat(driver.lng)
-      },
-      eta: Math.ceil(driver.distance * 2) // Rough ETA calculation
+      location: driver.location,
+      eta: etas[index] // Driving minutes to the caller
     }));
     
     res.json(formattedDrivers);
@@ -62,20 +50,22 @@ router.get('/nearby', auth, async (req, res) => {
 });
 
 // Update driver location (for driver app)
-router.post('/location', auth, async (req, res) => {
+router.post('/location', auth, requireRole('driver'), async (req, res) => {
   try {
     const { lat, lng, status } = req.body;
-    const driverId = req.user.id; // Assuming driver is logged in
+    const driverId = req.user.id;
     
-    // Update or insert driver location
-    await db.execute(`
-      INSERT INTO driver_locations (driver_id, latitude, longitude, updated_at)
-      VALUES (?, ?, ?, NOW())
-      ON DUPLICATE KEY UPDATE 
-        latitude = VALUES(latitude),
-        longitude = VALUES(longitude),
-        updated_at = VALUES(updated_at)
-    `, [driverId, lat, lng]);
+    if (lat === undefined || lng === undefined) {
+      return res.status(400).json({ message: 'Latitude and longitude are required' });
+    }
+    
+    if (!isValidCoordinate(parseFloat(lat), parseFloat(lng))) {
+      return res.status(400).json({ message: 'Latitude or longitude is out of range' });
+    }
+    
+    if (status && !DRIVER_STATUSES.includes(status)) {
+      return res.status(400).json({ message: 'Status must be online, offline or busy' });
+    }
     
     // Update driver status if provided
     if (status) {
@@ -85,6 +75,9 @@ router.post('/location', auth, async (req, res) => {
       );
     }
     
+    // Update or insert driver location
+    await recordDriverLocation(driverId, { lat: parseFloat(lat), lng: parseFloat(lng) });
+    
     res.json({ message: 'Location updated successfully' });
   } catch (error) {
     console.error('Location update error:', error);
@@ -92,6 +85,131 @@ router.post('/location', auth, async (req, res) => {
   }
 });
 
+// Update driver availability (driver console toggle)
+router.post('/status', auth, requireRole('driver'), async (req, res) => {
+  try {
+    const { status } = req.body;
+    const driverId = req.user.id;
+    
+    if (!DRIVER_STATUSES.includes(status)) {
+      return res.status(400).json({ message: 'Status must be online, offline or busy' });
+    }
+    
+    await db.execute('UPDATE drivers SET status = ? WHERE id = ?', [status, driverId]);
+    
+    // Offers can't be answered while offline, and the driver leaves the live map
+    if (status === 'offline') {
+      await db.execute(
+        'UPDATE ride_offers SET status = \'expired\', responded_at = NOW() WHERE driver_id = ? AND status = \'pending\'',
+        [driverId]
+      );
+      await getLocationStore().remove(driverId);
+    }
+    
+    res.json({ message: 'Status updated successfully', status });
+  } catch (error) {
+    console.error('Status update error:', error);
+    res.status(500).json({ message: 'Failed to update status' });
+  }
+});
+
+const formatDriverTrip = (trip, stops) => ({
+  ...formatRide(trip),
+  stops,
+  rider: {
+    name: trip.rider_name,
+    phone: trip.rider_phone,
+    rating: trip.rider_rating_count > 0 ? parseFloat(trip.rider_rating) : undefined,
+    rating_count: Number(trip.rider_rating_count) || 0
+  }
+});
+
+// Driver console overview: availability, current trip (plus pooled co-rider trips) and today's earnings
+router.get('/me/dashboard', auth, requireRole('driver'), async (req, res) => {
+  try {
+    const driverId = req.user.id;
+    
+    const [[tripRows], [earningsRows]] = await Promise.all([
+      db.execute(`
+        SELECT r.*, u.name AS rider_name, u.phone AS rider_phone, u.rider_rating, u.rider_rating_count
+        FROM rides r
+        JOIN users u ON u.id = r.user_id
+        WHERE r.driver_id = ? AND r.status IN ('accepted', 'in_progress')
+        ORDER BY r.accepted_at DESC
+      `, [driverId]),
+      db.execute(`
+        SELECT COUNT(*) AS trips, COALESCE(SUM(fare), 0) AS total
+        FROM rides
+        WHERE driver_id = ? AND status = 'completed' AND completed_at >= CURDATE()
+      `, [driverId])
+    ]);
+    
+    // Only a pooling driver has more than one trip at a time
+    const [trip, ...poolTrips] = tripRows;
+    const stops = trip ? await getRideStops(trip.id) : [];
+    
+    res.json({
+      driver: {
+        id: req.user.id,
+        name: req.user.name,
+        vehicle_type: req.user.vehicle_type,
+        license_plate: req.user.license_plate,
+        rating: parseFloat(req.user.rating) || 5.0,
+        status: req.user.status
+      },
+      current_trip: trip ? formatDriverTrip(trip, stops) : null,
+      pool_trips: poolTrips.map(poolTrip => formatDriverTrip(poolTrip, [])),
+      earnings: {
+        today_total: parseFloat(earningsRows[0].total) || 0,
+        today_trips: Number(earningsRows[0].trips) || 0,
+        currency: 'INR'
+      }
+    });
+  } catch (error) {
+    console.error('Driver dashboard error:', error);
+    res.status(500).json({ message: 'Failed to load driver dashboard' });
+  }
+});
+
+// Pending ride offers for the logged-in driver
+router.get('/me/offers', auth, requireRole('driver'), async (req, res) => {
+  try {
+    const offers = await getPendingOffersForDriver(req.user.id);
+    res.json(offers);
+  } catch (error) {
+    console.error('Driver offers error:', error);
+    res.status(500).json({ message: 'Failed to get ride offers' });
+  }
+});
+
+// Accept a ride offer
+router.post('/offers/:offerId/accept', auth, requireRole('driver'), async (req, res) => {
+  try {
+    const ride = await acceptOffer(req.params.offerId, req.user);
+    res.json({ message: 'Ride accepted', ride });
+  } catch (error) {
+    if (error.status) {
+      return res.status(error.status).json({ message: error.message });
+    }
+    console.error('Accept offer error:', error);
+    res.status(500).json({ message: 'Failed to accept ride' });
+  }
+});
+
+// Decline a ride offer
+router.post('/offers/:offerId/decline', auth, requireRole('driver'), async (req, res) => {
+  try {
+    await declineOffer(req.params.offerId, req.user.id);
+    res.json({ message: 'Ride declined' });
+  } catch (error) {
+    if (error.status) {
+      return res.status(error.status).json({ message: error.message });
+    }
+    console.error('Decline offer error:', error);
+    res.status(500).json({ message: 'Failed to decline ride' });
+  }
+});
+
 // Get driver details
 router.get('/:driverId', auth, async (req, res) => {
   try {
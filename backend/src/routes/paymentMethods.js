@@ -0,0 +1,136 @@
+const express = require('express');
+const router = express.Router();
+const db = require('../config/database');
+const auth = require('../middleware/auth');
+const requireRole = require('../middleware/requireRole');
+const { validatePaymentMethod } = require('../middleware/validation');
+const { formatPaymentMethod, ensureWalletMethod, listPaymentMethods } = require('../services/payments');
+
+router.use(auth, requireRole('rider'));
+
+const getOwnMethod = async (conn, userId, methodId) => {
+  const [rows] = await conn.execute(
+    'SELECT * FROM user_payment_methods WHERE id = ? AND user_id = ? AND is_active = 1',
+    [methodId, userId]
+  );
+  return rows[0];
+};
+
+// Make one method the default inside an open transaction on `conn`
+const setDefaultMethod = async (conn, userId, methodId) => {
+  await conn.execute('UPDATE user_payment_methods SET is_default = 0 WHERE user_id = ?', [userId]);
+  await conn.execute('UPDATE user_payment_methods SET is_default = 1 WHERE id = ?', [methodId]);
+};
+
+// List the rider's active payment methods
+router.get('/', async (req, res) => {
+  try {
+    const methods = await listPaymentMethods(req.user.id);
+    res.json({ methods });
+  } catch (error) {
+    console.error('List payment methods error:', error);
+    res.status(500).json({ message: 'Failed to load payment methods' });
+  }
+});
+
+// Add a card or UPI handle
+router.post('/', validatePaymentMethod, async (req, res) => {
+  const { payment_type, card_last_four, card_brand, upi_handle, label, is_default } = req.body;
+  const userId = req.user.id;
+
+  if (payment_type === 'wallet') {
+    return res.status(409).json({ message: 'Your wallet is already available as a payment method' });
+  }
+
+  const conn = await db.getConnection();
+  try {
+    await conn.beginTransaction();
+
+    const [duplicates] = await conn.execute(
+      `SELECT id FROM user_payment_methods
+       WHERE user_id = ? AND payment_type = ? AND is_active = 1
+         AND ${payment_type === 'card' ? 'card_last_four = ? AND card_brand = ?' : 'upi_handle = ?'}`,
+      payment_type === 'card' ? [userId, payment_type, card_last_four, card_brand] : [userId, payment_type, upi_handle]
+    );
+    if (duplicates.length > 0) {
+      await conn.rollback();
+      return res.status(409).json({ message: 'This payment method has already been added' });
+    }
+
+    const methodId = `pm_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    await conn.execute(
+      `INSERT INTO user_payment_methods
+       (id, user_id, payment_type, card_last_four, card_brand, upi_handle, label, is_default, is_active, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, 0, 1, NOW())`,
+      [methodId, userId, payment_type, card_last_four || null, card_brand || null, upi_handle || null, label || null]
+    );
+    if (is_default) {
+      await setDefaultMethod(conn, userId, methodId);
+    }
+
+    const method = await getOwnMethod(conn, userId, methodId);
+    await conn.commit();
+
+    res.status(201).json({ method: formatPaymentMethod(method) });
+  } catch (error) {
+    await conn.rollback();
+    console.error('Add payment method error:', error);
+    res.status(500).json({ message: 'Failed to add payment method' });
+  } finally {
+    conn.release();
+  }
+});
+
+// Use a method by default when booking
+router.post('/:methodId/default', async (req, res) => {
+  const conn = await db.getConnection();
+  try {
+    await conn.beginTransaction();
+
+    const method = await getOwnMethod(conn, req.user.id, req.params.methodId);
+    if (!method) {
+      await conn.rollback();
+      return res.status(404).json({ message: 'Payment method not found' });
+    }
+
+    await setDefaultMethod(conn, req.user.id, method.id);
+    await conn.commit();
+
+    res.json({ method: formatPaymentMethod({ ...method, is_default: 1 }) });
+  } catch (error) {
+    await conn.rollback();
+    console.error('Set default payment method error:', error);
+    res.status(500).json({ message: 'Failed to update payment method' });
+  } finally {
+    conn.release();
+  }
+});
+
+// Deactivate a card or UPI handle, kept for payment history; the wallet becomes default if it was
+router.delete('/:methodId', async (req, res) => {
+  try {
+    const method = await getOwnMethod(db, req.user.id, req.params.methodId);
+    if (!method) {
+      return res.status(404).json({ message: 'Payment method not found' });
+    }
+    if (method.payment_type === 'wallet') {
+      return res.status(400).json({ message: 'Your wallet cannot be removed' });
+    }
+
+    await db.execute(
+      'UPDATE user_payment_methods SET is_active = 0, is_default = 0 WHERE id = ?',
+      [method.id]
+    );
+    if (method.is_default) {
+      const wallet = await ensureWalletMethod(db, req.user.id);
+      await db.execute('UPDATE user_payment_methods SET is_default = 1 WHERE id = ?', [wallet.id]);
+    }
+
+    res.json({ message: 'Payment method removed' });
+  } catch (error) {
+    console.error('Remove payment method error:', error);
+    res.status(500).json({ message: 'Failed to remove payment method' });
+  }
+});
+
+module.exports = router;
@@ -2,11 +2,31 @@ const express = require('express');
 const router = express.Router();
 const db = require('../config/database');
 const auth = require('../middleware/auth');
-const { validateRideRequest } = require('../middleware/validation');
+const requireRole = require('../middleware/requireRole');
+const { validateRideRequest, validateTripHistoryQuery, validateRideExportQuery, validateDriverRating, validateRiderRating } = require('../middleware/validation');
+const { withdrawPendingOffers, acceptOffer } = require('../services/offers');
+const { transitionRide } = require('../services/rideStateMachine');
+const { formatRide } = require('../utils/rideFormatter');
+const { issueQuote, redeemQuote } = require('../services/quotes');
+const { dispatchRide } = require('../services/dispatch');
+const { parseScheduledFor } = require('../services/scheduler');
+const { MAX_RIDE_STOPS, insertRideStops, getRideStops, markStopArrived } = require('../services/rideStops');
+const { calculateEstimate } = require('../services/pricing');
+const { getRoute, getEtas, formatRoute } = require('../services/routing');
+const { findNearbyDrivers } = require('../services/driverLocations');
+const { refreshZoneSurge, getSurgeZones, SURGE_MAX_MULTIPLIER } = require('../services/surge');
+const { validatePromo, redeemPromo } = require('../services/promos');
+const { resolvePaymentMethod, createRidePayment } = require('../services/payments');
+const { getTripHistory, getTripReceipt, getTripExport } = require('../services/tripHistory');
+const { writeReceiptPdf, tripsToCsv } = require('../services/receipts');
+const { rateDriver, rateRider } = require('../services/ratings');
+const { MAX_POOL_SEATS, getRidePool } = require('../services/pooling');
 
-// Enhanced validation middleware for ride requests
-const validateRideRequestEnhanced = (req, res, next) => {
-  const { pickup, dropoff, ride_type } = req.body;
+const RIDE_TYPES = ['standard', 'premium', 'shared'];
+
+// Validation for pickup/dropoff locations
+const validateRideLocations = (req, res, next) => {
+  const { pickup, dropoff } = req.body;
   
   if (!pickup || !dropoff) {
     return res.status(400).json({ message: 'Pickup and dropoff locations are required' });
@@ -16,83 +36,74 @@ const validateRideRequestEnhanced = (req, res, next) => {
     return res.status(400).json({ message: 'Invalid location coordinates' });
   }
   
-  if (!ride_type || !['standard', 'premium', 'shared'].includes(ride_type)) {
-    return res.status(400).json({ message: 'Valid ride type is required' });
+  const { stops } = req.body;
+  if (stops !== undefined && (!Array.isArray(stops) || stops.length > MAX_RIDE_STOPS)) {
+    return res.status(400).json({ message: `A ride can have up to ${MAX_RIDE_STOPS} stops` });
+  }
+  if (stops && stops.some(stop => !stop || !stop.lat || !stop.lng)) {
+    return res.status(400).json({ message: 'Invalid stop coordinates' });
   }
   
   next();
 };
 
-// Get ride estimate - FIXED VERSION
-router.post('/estimate', auth, validateRideRequestEnhanced, async (req, res) => {
+// Enhanced validation middleware for ride requests
+const validateRideRequestEnhanced = (req, res, next) => {
+  const { ride_type } = req.body;
+  
+  if (!ride_type || !RIDE_TYPES.includes(ride_type)) {
+    return res.status(400).json({ message: 'Valid ride type is required' });
+  }
+  
+  // Only shared rides book more than one seat
+  const { seats } = req.body;
+  if (seats !== undefined && (!Number.isInteger(seats) || seats < 1 || seats > MAX_POOL_SEATS)) {
+    return res.status(400).json({ message: `Seats must be between 1 and ${MAX_POOL_SEATS}` });
+  }
+  if (seats > 1 && ride_type !== 'shared') {
+    return res.status(400).json({ message: 'Extra seats can only be booked on shared rides' });
+  }
+  
+  validateRideLocations(req, res, next);
+};
+
+// Get ride estimates for every ride type in one call
+router.post('/estimate', auth, validateRideLocations, async (req, res) => {
   try {
-    const { pickup, dropoff, ride_type } = req.body;
-    
-    console.log('Estimate request:', { pickup, dropoff, ride_type });
-    
-    // Calculate distance using Haversine formula
-    const distance = calculateDistance(
-      pickup.lat, pickup.lng,
-      dropoff.lat, dropoff.lng
-    );
-    
-    console.log('Calculated distance:', distance);
-    
-    // Base fare calculation with proper rates
-    const baseFares = {
-      standard: 25.0,  // Base fare in INR
-      premium: 40.0,
-      shared: 18.0
-    };
-    
-    const baseFare = baseFares[ride_type] || baseFares.standard;
-    const perKmRate = {
-      standard: 12.0,  // Per km rate in INR
-      premium: 18.0,
-      shared: 8.0
-    };
-    
-    const kmRate = perKmRate[ride_type] || perKmRate.standard;
-    const distanceFare = distance * kmRate;
-    
-    // Time-based surge pricing
-    const currentHour = new Date().getHours();
-    let surgeMultiplier = 1.0;
-    
-    // Peak hours: 7-10 AM, 5-9 PM
-    if ((currentHour >= 7 && currentHour <= 10) || (currentHour >= 17 && currentHour <= 21)) {
-      surgeMultiplier = 1.5;
-    }
-    // Late night: 11 PM - 5 AM
-    else if (currentHour >= 23 || currentHour <= 5) {
-      surgeMultiplier = 1.3;
+    const { pickup, dropoff, stops = [], seats = 1, promo_code } = req.body;
+    if (!Number.isInteger(seats) || seats < 1 || seats > MAX_POOL_SEATS) {
+      return res.status(400).json({ message: `Seats must be between 1 and ${MAX_POOL_SEATS}` });
     }
+    const scheduledFor = req.body.scheduled_for ? parseScheduledFor(req.body.scheduled_for) : null;
+    
+    console.log('Estimate request:', { pickup, dropoff, stops: stops.length, seats, promo_code, scheduled_for: scheduledFor });
+    
+    // Every ride type drives the same road route, so it is looked up once
+    const route = await getRoute([pickup, ...stops, dropoff]);
+    
+    // Each ride type gets its own locked quote; booking with it charges exactly this fare.
+    // Only shared rides book extra seats.
+    const estimates = await Promise.all(RIDE_TYPES.map(async ride_type => {
+      const rideSeats = ride_type === 'shared' ? seats : 1;
+      const fare = await calculateEstimate(pickup, dropoff, ride_type, { stops, seats: rideSeats, route, at: scheduledFor });
+      return {
+        ride_type,
+        ...fare,
+        ...issueQuote(req.user.id, { pickup, dropoff, stops, seats: rideSeats, ride_type, scheduled_for: scheduledFor }, fare),
+        ...(promo_code ? await previewPromo(promo_code, req.user.id, fare.total_fare) : {})
+      };
+    }));
     
-    // Weekend surge (simplified - always consider surge for demo)
-    const dayOfWeek = new Date().getDay();
-    if (dayOfWeek === 0 || dayOfWeek === 6) { // Sunday or Saturday
-      surgeMultiplier = Math.max(surgeMultiplier, 1.2);
-    }
-    
-    const totalFare = (baseFare + distanceFare) * surgeMultiplier;
-    const duration = Math.ceil((distance / 25) * 60); // Assuming 25 km/h average speed in city
-    
-    const estimate = {
-      distance: Math.round(distance * 100) / 100,
-      duration: Math.max(duration, 5), // Minimum 5 minutes
-      base_fare: Math.round(baseFare * 100) / 100,
-      distance_fare: Math.round(distanceFare * 100) / 100,
-      surge_multiplier: surgeMultiplier,
-      total_fare: Math.round(totalFare * 100) / 100,
-      currency: 'INR',
-      pickup_address: pickup.address || `${pickup.lat.toFixed(4)}, ${pickup.lng.toFixed(4)}`,
-      dropoff_address: dropoff.address || `${dropoff.lat.toFixed(4)}, ${dropoff.lng.toFixed(4)}`
-    };
-    
-    console.log('Estimate response:', estimate);
+    console.log('Estimate response:', estimates.map(({ ride_type, total_fare }) => ({ ride_type, total_fare })));
     
-    res.json(estimate);
+    res.json({
+      estimates,
+      route: formatRoute(route)
+    });
   } catch (error) {
+    if (error.status) {
+      return res.status(error.status).json({ message: error.message, code: error.code });
+    }
     console.error('Estimate error:', error);
     res.status(500).json({ 
       message: 'Failed to calculate estimate', 
@@ -101,6 +112,41 @@ router.post('/estimate', auth, validateRideRequestEnhanced, async (req, res) =>
   }
 });
 
+// Check a promo code before booking; with a trip it also reports the discount for that trip
+router.post('/promo/validate', auth, requireRole('rider'), async (req, res) => {
+  try {
+    const { code, pickup, dropoff, stops, seats, ride_type } = req.body;
+
+    if (!code) {
+      return res.status(400).json({ message: 'Promo code is required' });
+    }
+
+    const hasTrip = pickup?.lat !== undefined && pickup?.lng !== undefined &&
+      dropoff?.lat !== undefined && dropoff?.lng !== undefined && RIDE_TYPES.includes(ride_type);
+    const fare = hasTrip
+      ? (await calculateEstimate(pickup, dropoff, ride_type, {
+          stops: Array.isArray(stops) ? stops : [],
+          seats: ride_type === 'shared' && Number.isInteger(seats) && seats >= 1 && seats <= MAX_POOL_SEATS ? seats : 1
+        })).total_fare
+      : undefined;
+
+    const { promo, discount_amount } = await validatePromo(code, req.user.id, fare);
+
+    res.json({
+      valid: true,
+      ...promo,
+      discount_amount,
+      final_fare: fare !== undefined ? Math.round((fare - discount_amount) * 100) / 100 : undefined
+    });
+  } catch (error) {
+    if (error.status) {
+      return res.status(error.status).json({ valid: false, message: error.message, code: error.code });
+    }
+    console.error('Promo validation error:', error);
+    res.status(500).json({ message: 'Failed to validate promo code' });
+  }
+});
+
 // Get nearby drivers
 router.get('/nearby-drivers', auth, async (req, res) => {
   try {
@@ -110,21 +156,11 @@ router.get('/nearby-drivers', auth, async (req, res) => {
       return res.status(400).json({ message: 'Latitude and longitude are required' });
     }
     
-    // Get nearby drivers from database
-    const [drivers] = await db.execute(`
-      SELECT 
-        d.id, d.name, d.phone, d.vehicle_type, d.license_plate, d.rating, d.status,
-        dl.latitude, dl.longitude,
-        (6371 * acos(cos(radians(?)) * cos(radians(dl.latitude)) * cos(radians(dl.longitude) - radians(?)) + sin(radians(?)) * sin(radians(dl.latitude)))) AS distance
-      FROM drivers d
-      JOIN driver_locations dl ON d.id = dl.driver_id
-      WHERE d.status = 'online'
-      HAVING distance < ?
-      ORDER BY distance
-      LIMIT 10
-    `, [lat, lng, lat, radius]);
-    
-    const driversWithEta = drivers.map(driver => ({
+    const pickup = { lat: parseFloat(lat), lng: parseFloat(lng) };
+    const drivers = await findNearbyDrivers(pickup, parseFloat(radius), { limit: 10 });
+    const etas = await getEtas(drivers.map(driver => driver.location), pickup);
+    
+    const driversWithEta = drivers.map((driver, index) => ({
       id: driver.id,
       name: driver.name,
       phone: driver.phone,
@@ -132,11 +168,8 @@ router.get('/nearby-drivers', auth, async (req, res) => {
       license_plate: driver.license_plate,
       rating: parseFloat(driver.rating) || 5.0,
       status: driver.status,
-      location: {
-        lat: parseFloat(driver.latitude),
-        lng: parseFloat(driver.longitude)
-      },
-      eta: Math.ceil(driver.distance * 2), // Rough ETA in minutes
+      location: driver.location,
+      eta: etas[index], // Driving minutes to the pickup
       distance: Math.round(driver.distance * 100) / 100
     }));
     
@@ -147,8 +180,31 @@ router.get('/nearby-drivers', auth, async (req, res) => {
   }
 });
 
+// Demand surge per zone for the map heatmap, optionally limited to the visible bounds
+router.get('/surge-zones', auth, async (req, res) => {
+  try {
+    const bounds = ['south', 'west', 'north', 'east'].map(key => parseFloat(req.query[key]));
+    const hasBounds = bounds.every(value => Number.isFinite(value));
+    const [south, west, north, east] = bounds;
+
+    const zones = getSurgeZones().filter(zone => !hasBounds || (
+      zone.bounds.north >= south && zone.bounds.south <= north &&
+      zone.bounds.east >= west && zone.bounds.west <= east
+    ));
+
+    res.json({
+      zones,
+      max_multiplier: SURGE_MAX_MULTIPLIER,
+      generated_at: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Surge zones error:', error);
+    res.status(500).json({ message: 'Failed to get surge zones' });
+  }
+});
+
 // Book ride - SEQUENTIAL (BLOCKING) - FOR PERFORMANCE COMPARISON
-router.post('/book-sequential', auth, validateRideRequestEnhanced, async (req, res) => {
+router.post('/book-sequential', auth, requireRole('rider'), validateRideRequestEnhanced, async (req, res) => {
   const startTime = Date.now();
   
   try {
@@ -176,11 +232,9 @@ router.post('/book-sequential', auth, validateRideRequestEnhanced, async (req, r
     );
     console.log('✅ Trip history completed');
     
-    // 3. Calculate pricing with surge (WAIT for this to complete)
+    // 3. Refresh the pickup zone's demand surge (WAIT for this to complete)
     console.log('⏳ Calculating pricing...');
-    const [surgeRows] = await db.execute(
-      'SELECT AVG(surge_multiplier) as avg_surge FROM rides WHERE created_at > DATE_SUB(NOW(), INTERVAL 1 HOUR)'
-    );
+    await refreshZoneSurge(pickup);
     console.log('✅ Pricing calculation completed');
     
     // 4. Log the request (WAIT for this to complete)
@@ -193,17 +247,21 @@ router.post('/book-sequential', auth, validateRideRequestEnhanced, async (req, r
     
     // 5. Validate payment method (WAIT for this to complete)
     console.log('⏳ Validating payment method...');
-    const [paymentRows] = await db.execute(
-      'SELECT id FROM user_payment_methods WHERE user_id = ? AND is_active = 1 LIMIT 1',
-      [userId]
-    );
+    const paymentMethod = await resolvePaymentMethod(userId, req.body.payment_method_id);
     console.log('✅ Payment validation completed');
     
     const dbEndTime = Date.now();
     const dbTime = dbEndTime - dbStartTime;
     
-    // Simulate ride creation
-    const rideId = `ride_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    const { ride, payment } = await createRide(userId, {
+      pickup, dropoff, ride_type,
+      stops: req.body.stops,
+      seats: req.body.seats,
+      quote_id: req.body.quote_id,
+      promo_code: req.body.promo_code,
+      payment_method_id: paymentMethod.id,
+      scheduled_for: req.body.scheduled_for
+    });
     
     const endTime = Date.now();
     const totalTime = endTime - startTime;
@@ -211,8 +269,10 @@ router.post('/book-sequential', auth, validateRideRequestEnhanced, async (req, r
     console.log(`🐢 SEQUENTIAL booking completed in ${totalTime}ms (DB: ${dbTime}ms)`);
     
     res.json({
-      ride_id: rideId,
-      status: 'requested',
+      ride_id: ride.id,
+      status: ride.status,
+      ride,
+      payment,
       performance: {
         method: 'sequential',
         totalTime,
@@ -223,13 +283,21 @@ router.post('/book-sequential', auth, validateRideRequestEnhanced, async (req, r
     });
     
   } catch (error) {
+    if (error.status) {
+      return res.status(error.status).json({
+        message: error.message,
+        code: error.code,
+        quote: error.quote,
+        available_balance: error.available_balance
+      });
+    }
     console.error('Sequential booking error:', error);
     res.status(500).json({ message: 'Failed to book ride (sequential)' });
   }
 });
 
 // Book ride - PARALLEL (ASYNC) - FOR PERFORMANCE COMPARISON
-router.post('/book-parallel', auth, validateRideRequestEnhanced, async (req, res) => {
+router.post('/book-parallel', auth, requireRole('rider'), validateRideRequestEnhanced, async (req, res) => {
   const startTime = Date.now();
   
   try {
@@ -249,7 +317,7 @@ router.post('/book-parallel', auth, validateRideRequestEnhanced, async (req, res
       tripHistoryResult,
       surgePricingResult,
       loggingResult,
-      paymentValidationResult
+      paymentMethod
     ] = await Promise.all([
       // 1. Check wallet balance
       db.execute('SELECT wallet_balance FROM users WHERE id = ?', [userId]),
@@ -260,10 +328,8 @@ router.post('/book-parallel', auth, validateRideRequestEnhanced, async (req, res
         [userId]
       ),
       
-      // 3. Calculate pricing with surge
-      db.execute(
-        'SELECT AVG(surge_multiplier) as avg_surge FROM rides WHERE created_at > DATE_SUB(NOW(), INTERVAL 1 HOUR)'
-      ),
+      // 3. Refresh the pickup zone's demand surge
+      refreshZoneSurge(pickup),
       
       // 4. Log the request
       db.execute(
@@ -272,10 +338,7 @@ router.post('/book-parallel', auth, validateRideRequestEnhanced, async (req, res
       ),
       
       // 5. Validate payment method
-      db.execute(
-        'SELECT id FROM user_payment_methods WHERE user_id = ? AND is_active = 1 LIMIT 1',
-        [userId]
-      )
+      resolvePaymentMethod(userId, req.body.payment_method_id)
     ]);
     
     const dbEndTime = Date.now();
@@ -283,8 +346,15 @@ router.post('/book-parallel', auth, validateRideRequestEnhanced, async (req, res
     
     console.log('✅ All parallel operations completed!');
     
-    // Simulate ride creation
-    const rideId = `ride_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    const { ride, payment } = await createRide(userId, {
+      pickup, dropoff, ride_type,
+      stops: req.body.stops,
+      seats: req.body.seats,
+      quote_id: req.body.quote_id,
+      promo_code: req.body.promo_code,
+      payment_method_id: paymentMethod.id,
+      scheduled_for: req.body.scheduled_for
+    });
     
     const endTime = Date.now();
     const totalTime = endTime - startTime;
@@ -292,8 +362,10 @@ router.post('/book-parallel', auth, validateRideRequestEnhanced, async (req, res
     console.log(`🚀 PARALLEL booking completed in ${totalTime}ms (DB: ${dbTime}ms)`);
     
     res.json({
-      ride_id: rideId,
-      status: 'requested',
+      ride_id: ride.id,
+      status: ride.status,
+      ride,
+      payment,
       performance: {
         method: 'parallel',
         totalTime,
@@ -304,100 +376,363 @@ router.post('/book-parallel', auth, validateRideRequestEnhanced, async (req, res
     });
     
   } catch (error) {
+    if (error.status) {
+      return res.status(error.status).json({
+        message: error.message,
+        code: error.code,
+        quote: error.quote,
+        available_balance: error.available_balance
+      });
+    }
     console.error('Parallel booking error:', error);
     res.status(500).json({ message: 'Failed to book ride (parallel)' });
   }
 });
 
 // Regular book ride endpoint
-router.post('/book', auth, validateRideRequestEnhanced, async (req, res) => {
+router.post('/book', auth, requireRole('rider'), validateRideRequestEnhanced, async (req, res) => {
   try {
     const { pickup, dropoff, ride_type } = req.body;
     const userId = req.user.id;
     
-    // Use the parallel approach for regular bookings (best performance)
-    const rideId = `ride_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-    
-    // Insert ride record
-    await db.execute(
-      `INSERT INTO rides (id, user_id, pickup_lat, pickup_lng, dropoff_lat, dropoff_lng, 
-       ride_type, status, created_at) VALUES (?, ?, ?, ?, ?, ?, ?, 'requested', NOW())`,
-      [rideId, userId, pickup.lat, pickup.lng, dropoff.lat, dropoff.lng, ride_type]
-    );
+    const { ride, payment } = await createRide(userId, {
+      pickup, dropoff, ride_type,
+      stops: req.body.stops,
+      seats: req.body.seats,
+      quote_id: req.body.quote_id,
+      promo_code: req.body.promo_code,
+      payment_method_id: req.body.payment_method_id,
+      scheduled_for: req.body.scheduled_for
+    });
     
     res.json({ 
-      ride_id: rideId,
-      status: 'requested',
+      ride_id: ride.id,
+      status: ride.status,
+      ride,
+      payment,
       message: 'Ride booked successfully'
     });
   } catch (error) {
+    if (error.status) {
+      return res.status(error.status).json({
+        message: error.message,
+        code: error.code,
+        quote: error.quote,
+        available_balance: error.available_balance
+      });
+    }
     console.error('Booking error:', error);
     res.status(500).json({ message: 'Failed to book ride' });
   }
 });
 
-// Get trip history
-router.get('/history', auth, async (req, res) => {
+// Rider's trip history, newest first, with optional filters and cursor pagination
+router.get('/history', auth, validateTripHistoryQuery, async (req, res) => {
   try {
-    const userId = req.user.id;
-    
-    const [rides] = await db.execute(
-      `SELECT id, pickup_lat, pickup_lng, dropoff_lat, dropoff_lng, 
-       ride_type, status, fare, surge_multiplier, created_at, completed_at 
-       FROM rides WHERE user_id = ? ORDER BY created_at DESC LIMIT 20`,
-      [userId]
-    );
-    
-    const [stats] = await db.execute(
-      `SELECT COUNT(*) as total_trips, SUM(fare) as total_spent, AVG(rating) as average_rating 
-       FROM rides WHERE user_id = ? AND status = 'completed'`,
-      [userId]
-    );
-    
-    res.json({
-      rides: rides.map(ride => ({
-        ...ride,
-        pickup_location: { lat: ride.pickup_lat, lng: ride.pickup_lng },
-        dropoff_location: { lat: ride.dropoff_lat, lng: ride.dropoff_lng }
-      })),
-      total_trips: stats[0]?.total_trips || 0,
-      total_spent: stats[0]?.total_spent || 0,
-      average_rating: stats[0]?.average_rating || 0
-    });
+    const history = await getTripHistory(req.user.id, req.query);
+    res.json(history);
   } catch (error) {
+    if (error.status) {
+      return res.status(error.status).json({ message: error.message });
+    }
     console.error('History error:', error);
     res.status(500).json({ message: 'Failed to get trip history' });
   }
 });
 
-// Cancel ride
-router.delete('/:rideId', auth, async (req, res) => {
+// Rider's rides in a date range as a CSV download, for expense reports
+router.get('/export', auth, validateRideExportQuery, async (req, res) => {
+  try {
+    const { from, to, status } = req.query;
+    const trips = await getTripExport(req.user.id, { from, to, status });
+    const period = from || to ? `-${from || 'start'}-to-${to || 'today'}` : '';
+    
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="rides${period}.csv"`);
+    res.send(tripsToCsv(trips));
+  } catch (error) {
+    console.error('Ride export error:', error);
+    res.status(500).json({ message: 'Failed to export rides' });
+  }
+});
+
+// PDF receipt for one of the rider's rides
+router.get('/:rideId/receipt', auth, async (req, res) => {
+  try {
+    const receipt = await getTripReceipt(req.user.id, req.params.rideId);
+    
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename="receipt-${receipt.ride.id}.pdf"`);
+    writeReceiptPdf(receipt, res);
+  } catch (error) {
+    if (error.status) {
+      return res.status(error.status).json({ message: error.message });
+    }
+    console.error('Receipt error:', error);
+    res.status(500).json({ message: 'Failed to get receipt' });
+  }
+});
+
+// The same receipt as JSON (fare breakdown, surge and payment) for the in-app receipt view
+router.get('/:rideId/receipt/details', auth, async (req, res) => {
+  try {
+    const receipt = await getTripReceipt(req.user.id, req.params.rideId);
+    res.json(receipt);
+  } catch (error) {
+    if (error.status) {
+      return res.status(error.status).json({ message: error.message });
+    }
+    console.error('Receipt error:', error);
+    res.status(500).json({ message: 'Failed to get receipt' });
+  }
+});
+
+// Ride state transitions - illegal moves are rejected with 409
+const handleTransition = (action) => async (req, res) => {
   try {
     const { rideId } = req.params;
-    const userId = req.user.id;
+    const actor = { id: req.user.id, role: req.user.role };
+    const details = action === 'cancel' && req.body?.reason ? { reason: String(req.body.reason).slice(0, 255) } : {};
     
-    await db.execute(
-      'UPDATE rides SET status = "cancelled" WHERE id = ? AND user_id = ?',
-      [rideId, userId]
+    const ride = await transitionRide(rideId, action, actor, details);
+    
+    if (action === 'cancel') {
+      await withdrawPendingOffers(rideId);
+    }
+    
+    res.json({ message: `Ride ${action} successful`, ride });
+  } catch (error) {
+    if (error.status) {
+      return res.status(error.status).json({ message: error.message });
+    }
+    console.error(`Ride ${action} error:`, error);
+    res.status(500).json({ message: `Failed to ${action} ride` });
+  }
+};
+
+// Driver accepts a ride they have an open offer for
+router.post('/:rideId/accept', auth, requireRole('driver'), async (req, res) => {
+  try {
+    const [offers] = await db.execute(
+      `SELECT id FROM ride_offers
+       WHERE ride_id = ? AND driver_id = ? AND status = 'pending' AND expires_at > NOW()`,
+      [req.params.rideId, req.user.id]
     );
     
-    res.json({ message: 'Ride cancelled successfully' });
+    if (offers.length === 0) {
+      return res.status(409).json({ message: 'No open offer for this ride' });
+    }
+    
+    const ride = await acceptOffer(offers[0].id, req.user);
+    res.json({ message: 'Ride accept successful', ride });
+  } catch (error) {
+    if (error.status) {
+      return res.status(error.status).json({ message: error.message });
+    }
+    console.error('Ride accept error:', error);
+    res.status(500).json({ message: 'Failed to accept ride' });
+  }
+});
+
+// Rider rates the driver once the ride is completed
+router.post('/:rideId/rating', auth, requireRole('rider'), validateDriverRating, async (req, res) => {
+  try {
+    const result = await rateDriver(req.params.rideId, req.user.id, req.body);
+    res.status(201).json(result);
   } catch (error) {
-    console.error('Cancel error:', error);
-    res.status(500).json({ message: 'Failed to cancel ride' });
+    if (error.status) {
+      return res.status(error.status).json({ message: error.message, code: error.code });
+    }
+    console.error('Rate driver error:', error);
+    res.status(500).json({ message: 'Failed to save rating' });
+  }
+});
+
+// Driver rates the rider once the ride is completed
+router.post('/:rideId/rider-rating', auth, requireRole('driver'), validateRiderRating, async (req, res) => {
+  try {
+    const result = await rateRider(req.params.rideId, req.user.id, req.body);
+    res.status(201).json(result);
+  } catch (error) {
+    if (error.status) {
+      return res.status(error.status).json({ message: error.message, code: error.code });
+    }
+    console.error('Rate rider error:', error);
+    res.status(500).json({ message: 'Failed to save rating' });
+  }
+});
+
+// Pool a shared ride is riding in: remaining pickups and dropoffs, the rider's own and co-riders'
+router.get('/:rideId/pool', auth, async (req, res) => {
+  try {
+    const pool = await getRidePool(req.params.rideId, { id: req.user.id, role: req.user.role });
+    res.json(pool);
+  } catch (error) {
+    if (error.status) {
+      return res.status(error.status).json({ message: error.message });
+    }
+    console.error('Ride pool error:', error);
+    res.status(500).json({ message: 'Failed to get ride pool' });
   }
 });
 
-// Helper function to calculate distance using Haversine formula
-function calculateDistance(lat1, lng1, lat2, lng2) {
-  const R = 6371; // Earth's radius in km
-  const dLat = (lat2 - lat1) * Math.PI / 180;
-  const dLng = (lng2 - lng1) * Math.PI / 180;
-  const a = Math.sin(dLat/2) * Math.sin(dLat/2) +
-    Math.cos(lat1 * Math.PI / 180) * Math.cos(lat2 * Math.PI / 180) *
-    Math.sin(dLng/2) * Math.sin(dLng/2);
-  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1-a));
-  return R * c;
+// Road route the driver is on right now: to the pickup once accepted, then through the
+// remaining stops to the dropoff. Empty until a driver with a known position is assigned.
+router.get('/:rideId/route', auth, async (req, res) => {
+  try {
+    const [rides] = await db.execute(`
+      SELECT r.id, r.user_id, r.driver_id, r.status, r.pickup_lat, r.pickup_lng, r.dropoff_lat, r.dropoff_lng,
+        dl.latitude AS driver_lat, dl.longitude AS driver_lng
+      FROM rides r
+      LEFT JOIN driver_locations dl ON dl.driver_id = r.driver_id
+      WHERE r.id = ?
+    `, [req.params.rideId]);
+    const ride = rides[0];
+    
+    if (!ride
+      || (req.user.role === 'rider' && ride.user_id !== req.user.id)
+      || (req.user.role === 'driver' && ride.driver_id !== req.user.id)) {
+      return res.status(404).json({ message: 'Ride not found' });
+    }
+    
+    if (!['accepted', 'in_progress'].includes(ride.status) || ride.driver_lat === null) {
+      return res.json({ status: ride.status, route: null });
+    }
+    
+    const driverLocation = { lat: parseFloat(ride.driver_lat), lng: parseFloat(ride.driver_lng) };
+    const points = ride.status === 'accepted'
+      ? [driverLocation, { lat: parseFloat(ride.pickup_lat), lng: parseFloat(ride.pickup_lng) }]
+      : [
+          driverLocation,
+          ...(await getRideStops(ride.id)).filter(stop => !stop.arrived_at).map(stop => stop.location),
+          { lat: parseFloat(ride.dropoff_lat), lng: parseFloat(ride.dropoff_lng) }
+        ];
+    const route = await getRoute(points);
+    
+    res.json({
+      status: ride.status,
+      target: ride.status === 'accepted' ? 'pickup' : 'dropoff',
+      driver_location: driverLocation,
+      route: formatRoute(route)
+    });
+  } catch (error) {
+    console.error('Ride route error:', error);
+    res.status(500).json({ message: 'Failed to get ride route' });
+  }
+});
+
+// Driver reached one of the ride's intermediate stops (numbered from 1)
+router.post('/:rideId/stops/:stopOrder/arrive', auth, requireRole('driver'), async (req, res) => {
+  try {
+    const stops = await markStopArrived(req.params.rideId, req.user.id, parseInt(req.params.stopOrder, 10));
+    res.json({ message: 'Stop reached', stops });
+  } catch (error) {
+    if (error.status) {
+      return res.status(error.status).json({ message: error.message });
+    }
+    console.error('Stop arrival error:', error);
+    res.status(500).json({ message: 'Failed to update stop' });
+  }
+});
+
+router.post('/:rideId/arrive', auth, requireRole('driver'), handleTransition('arrive'));
+router.post('/:rideId/start', auth, requireRole('driver'), handleTransition('start'));
+router.post('/:rideId/complete', auth, requireRole('driver'), handleTransition('complete'));
+router.post('/:rideId/cancel', auth, handleTransition('cancel'));
+
+// Cancel ride (kept for existing clients, same rules as POST /:rideId/cancel)
+router.delete('/:rideId', auth, handleTransition('cancel'));
+
+// Locked estimate for a quote; an expired quote is rejected with a fresh one attached
+async function getQuotedEstimate(userId, { pickup, dropoff, stops, seats, ride_type, quote_id, scheduled_for }) {
+  const trip = { pickup, dropoff, stops, seats, ride_type, scheduled_for };
+  try {
+    return redeemQuote(quote_id, userId, trip);
+  } catch (error) {
+    if (error.code === 'QUOTE_EXPIRED') {
+      const estimate = await calculateEstimate(pickup, dropoff, ride_type, { stops, seats, at: scheduled_for });
+      error.quote = { ride_type, ...estimate, ...issueQuote(userId, trip, estimate) };
+    }
+    throw error;
+  }
+}
+
+// Promo discount shown on an estimate; an unusable code is reported per ride type instead of failing
+async function previewPromo(code, userId, fare) {
+  try {
+    const { promo, discount_amount } = await validatePromo(code, userId, fare);
+    return {
+      promo: {
+        code: promo.code,
+        discount_amount,
+        final_fare: Math.round((fare - discount_amount) * 100) / 100
+      }
+    };
+  } catch (error) {
+    if (!error.status) throw error;
+    return { promo_error: { code: error.code, message: error.message } };
+  }
+}
+
+// Persist a requested (or scheduled) ride with its server-side fare and trip details
+async function createRide(userId, { pickup, dropoff, stops = [], seats = 1, ride_type, quote_id, promo_code, payment_method_id, scheduled_for }) {
+  // Scheduled rides are priced for their pickup time, paid for now, and wait for the scheduler to dispatch them
+  const scheduledFor = scheduled_for ? parseScheduledFor(scheduled_for) : null;
+  const status = scheduledFor ? 'scheduled' : 'requested';
+  const estimate = quote_id
+    ? await getQuotedEstimate(userId, { pickup, dropoff, stops, seats, ride_type, quote_id, scheduled_for: scheduledFor })
+    : await calculateEstimate(pickup, dropoff, ride_type, { stops, seats, at: scheduledFor });
+  const rideId = `ride_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  
+  // The ride, its promo redemption and the payment authorization happen together so a failure books nothing
+  let payable = estimate.total_fare;
+  let payment;
+  const conn = await db.getConnection();
+  try {
+    await conn.beginTransaction();
+    
+    await conn.execute(
+      `INSERT INTO rides (id, user_id, pickup_lat, pickup_lng, pickup_address, dropoff_lat, dropoff_lng,
+       dropoff_address, ride_type, status, seats, fare, base_fare, distance_fare, stops_fare, surge_multiplier,
+       distance_km, duration_minutes, scheduled_for, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, NOW())`,
+      [
+        rideId, userId,
+        pickup.lat, pickup.lng, estimate.pickup_address,
+        dropoff.lat, dropoff.lng, estimate.dropoff_address,
+        ride_type, status, seats, estimate.total_fare, estimate.base_fare, estimate.distance_fare,
+        estimate.stops_fare || 0, estimate.surge_multiplier, estimate.distance, estimate.duration, scheduledFor
+      ]
+    );
+    await insertRideStops(conn, rideId, stops, estimate.stop_addresses);
+    
+    if (promo_code) {
+      const promo = await redeemPromo(conn, { code: promo_code, userId, rideId, fare: estimate.total_fare });
+      await conn.execute(
+        'UPDATE rides SET promo_code_id = ?, discount_amount = ? WHERE id = ?',
+        [promo.promo_code_id, promo.discount_amount, rideId]
+      );
+      payable = Math.round((payable - promo.discount_amount) * 100) / 100;
+    }
+    
+    payment = await createRidePayment(conn, { rideId, userId, amount: payable, paymentMethodId: payment_method_id });
+    
+    await conn.commit();
+  } catch (error) {
+    await conn.rollback();
+    throw error;
+  } finally {
+    conn.release();
+  }
+  
+  const [rides] = await db.execute('SELECT * FROM rides WHERE id = ?', [rideId]);
+  
+  // Match a driver in the background; the rider follows progress over the socket
+  if (!scheduledFor) {
+    dispatchRide(rideId).catch(error => console.error('Dispatch error:', error));
+  }
+  
+  return { ride: { ...formatRide(rides[0]), stops: await getRideStops(rideId) }, payment };
 }
 
 module.exports = router;
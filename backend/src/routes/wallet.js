@@ -0,0 +1,52 @@
+const express = require('express');
+const router = express.Router();
+const auth = require('../middleware/auth');
+const requireRole = require('../middleware/requireRole');
+const { getWallet } = require('../services/wallet');
+const { topUpWallet } = require('../services/payments');
+
+// Per top-up limits in INR
+const MIN_TOPUP_AMOUNT = 10;
+const MAX_TOPUP_AMOUNT = 10000;
+
+router.use(auth, requireRole('rider'));
+
+// Balance and ledger history (paginate with ?before=<last transaction id>)
+router.get('/', async (req, res) => {
+  try {
+    const wallet = await getWallet(req.user.id, { limit: req.query.limit, before: req.query.before });
+    res.json(wallet);
+  } catch (error) {
+    console.error('Get wallet error:', error);
+    res.status(500).json({ message: 'Failed to load wallet' });
+  }
+});
+
+// Add money to the wallet, charged to one of the rider's cards or UPI handles
+router.post('/topup', async (req, res) => {
+  try {
+    const amount = Math.round(Number(req.body.amount) * 100) / 100;
+
+    if (!Number.isFinite(amount) || amount < MIN_TOPUP_AMOUNT || amount > MAX_TOPUP_AMOUNT) {
+      return res.status(400).json({
+        message: `Top-up amount must be between ₹${MIN_TOPUP_AMOUNT} and ₹${MAX_TOPUP_AMOUNT}`
+      });
+    }
+
+    const transaction = await topUpWallet(req.user.id, amount, req.body.payment_method_id);
+
+    res.status(201).json({
+      message: 'Wallet topped up',
+      balance: transaction.balance_after,
+      transaction
+    });
+  } catch (error) {
+    if (error.status) {
+      return res.status(error.status).json({ message: error.message, code: error.code });
+    }
+    console.error('Wallet top-up error:', error);
+    res.status(500).json({ message: 'Failed to top up wallet' });
+  }
+});
+
+module.exports = router;
@@ -5,6 +5,7 @@ const compression = require('compression');
 const morgan = require('morgan');
 const http = require('http');
 const socketIo = require('socket.io');
+const jwt = require('jsonwebtoken');
 require('dotenv').config();
 
 // Route imports
@@ -12,11 +13,24 @@ const authRoutes = require('./routes/auth');
 const rideRoutes = require('./routes/rides');
 const driverRoutes = require('./routes/drivers');
 const benchmarkRoutes = require('./routes/benchmark');
+const adminRoutes = require('./routes/admin');
+const walletRoutes = require('./routes/wallet');
+const paymentMethodRoutes = require('./routes/paymentMethods');
 
 // Middleware imports
 const errorHandler = require('./middleware/errorHandler');
 const rateLimiter = require('./middleware/rateLimiter');
 
+// Service imports
+const db = require('./config/database');
+const realtime = require('./services/realtime');
+const { startSurgeEngine } = require('./services/surge');
+const { startRideScheduler } = require('./services/scheduler');
+const { formatRide, formatRideDriver } = require('./utils/rideFormatter');
+const { getLocationStore } = require('./services/locationStores');
+const { recordDriverLocation, warmLocationStore } = require('./services/driverLocations');
+const { isValidCoordinate } = require('./utils/geo');
+
 const app = express();
 const server = http.createServer(app);
 const io = socketIo(server, {
@@ -26,6 +40,8 @@ const io = socketIo(server, {
   }
 });
 
+realtime.setIo(io);
+
 const PORT = process.env.PORT || 3001;
 
 // Security and performance middleware
@@ -47,6 +63,9 @@ app.use('/api/auth', authRoutes);
 app.use('/api/rides', rideRoutes);
 app.use('/api/drivers', driverRoutes);
 app.use('/api/benchmark', benchmarkRoutes);
+app.use('/api/admin', adminRoutes);
+app.use('/api/wallet', walletRoutes);
+app.use('/api/payment-methods', paymentMethodRoutes);
 
 // Health check
 app.get('/health', (req, res) => {
@@ -57,21 +76,101 @@ app.get('/health', (req, res) => {
   });
 });
 
-// Real-time driver tracking
-let connectedDrivers = new Map();
+// Real-time driver tracking, shared by every backend replica when the Redis store is configured
+const locationStore = getLocationStore();
+
+// Identify the user behind a socket; anonymous sockets only get driver broadcasts
+io.use((socket, next) => {
+  const token = socket.handshake.auth?.token;
+  if (!token) {
+    return next();
+  }
+
+  try {
+    const decoded = jwt.verify(token, process.env.JWT_SECRET || 'rideshare-secret-key');
+    socket.data.user = { id: decoded.id, role: decoded.role || 'rider' };
+    next();
+  } catch (error) {
+    next(new Error('Invalid token'));
+  }
+});
 
 io.on('connection', (socket) => {
   console.log('Client connected:', socket.id);
 
-  // Driver location updates
-  socket.on('driver-location-update', (data) => {
-    const { driverId, lat, lng, status } = data;
-    connectedDrivers.set(driverId, {
-      socketId: socket.id,
-      location: { lat, lng },
-      status,
-      lastUpdate: new Date()
-    });
+  if (socket.data.user) {
+    socket.join(realtime.userRoom(socket.data.user.id));
+  }
+
+  // Rider or driver follows the lifecycle of a ride
+  socket.on('ride:subscribe', async (data) => {
+    const rideId = data?.rideId;
+    const user = socket.data.user;
+
+    if (!user || !rideId) {
+      return socket.emit('ride:error', { ride_id: rideId, message: 'Authentication and ride ID are required' });
+    }
+
+    try {
+      const [rides] = await db.execute('SELECT * FROM rides WHERE id = ?', [rideId]);
+      const ride = rides[0];
+
+      if (!ride || (ride.user_id !== user.id && ride.driver_id !== user.id)) {
+        return socket.emit('ride:error', { ride_id: rideId, message: 'Ride not found' });
+      }
+
+      socket.join(realtime.rideRoom(rideId));
+
+      let driver;
+      if (ride.driver_id) {
+        const [drivers] = await db.execute(
+          'SELECT id, name, phone, vehicle_type, license_plate, rating FROM drivers WHERE id = ?',
+          [ride.driver_id]
+        );
+        driver = drivers[0] ? formatRideDriver(drivers[0]) : undefined;
+      }
+
+      // Send the current state so late subscribers don't miss earlier events
+      socket.emit('ride:status', {
+        ride_id: rideId,
+        status: ride.status,
+        ride: formatRide(ride),
+        driver,
+        timestamp: new Date().toISOString()
+      });
+    } catch (error) {
+      console.error('Ride subscribe error:', error);
+      socket.emit('ride:error', { ride_id: rideId, message: 'Failed to subscribe to ride' });
+    }
+  });
+
+  socket.on('ride:unsubscribe', (data) => {
+    if (data?.rideId) {
+      socket.leave(realtime.rideRoom(data.rideId));
+    }
+  });
+
+  // Driver location updates; only an authenticated driver can report, and only their own position
+  socket.on('driver-location-update', async (data) => {
+    const user = socket.data.user;
+    const lat = Number(data?.lat);
+    const lng = Number(data?.lng);
+
+    if (user?.role !== 'driver' || !isValidCoordinate(lat, lng)) {
+      return;
+    }
+
+    const driverId = user.id;
+    // Remembered so the disconnect handler knows whose position to drop
+    socket.data.driverId = driverId;
+
+    let status;
+    try {
+      status = await recordDriverLocation(driverId, { lat, lng, socketId: socket.id });
+    } catch (error) {
+      console.error('Driver location store error:', error);
+      return;
+    }
 
     // Broadcast to all clients
     socket.broadcast.emit('driver-moved', {
@@ -82,50 +181,46 @@ io.on('connection', (socket) => {
   });
 
   // User requests nearby drivers
-  socket.on('get-nearby-drivers', (data) => {
-    const { lat, lng, radius = 5 } = data;
-    const nearbyDrivers = [];
-
-    connectedDrivers.forEach((driver, driverId) => {
-      const distance = calculateDistance(lat, lng, driver.location.lat, driver.location.lng);
-      if (distance <= radius && driver.status === 'online') {
-        nearbyDrivers.push({
-          id: driverId,
-          location: driver.location,
-          status: driver.status,
-          distance
-        });
+  socket.on('get-nearby-drivers', async (data) => {
+    try {
+      const lat = Number(data?.lat);
+      const lng = Number(data?.lng);
+      const radius = data?.radius === undefined ? 5 : Number(data.radius);
+
+      if (!isValidCoordinate(lat, lng) || !Number.isFinite(radius) || radius <= 0) {
+        socket.emit('nearby-drivers', []);
+        return;
       }
-    });
 
-    socket.emit('nearby-drivers', nearbyDrivers);
+      const positions = await locationStore.nearby({ lat, lng }, radius, { status: 'online' });
+      socket.emit('nearby-drivers', positions.map(position => ({
+        id: position.driver_id,
+        location: position.location,
+        status: position.status,
+        distance: position.distance_km
+      })));
+    } catch (error) {
+      console.error('Nearby drivers lookup error:', error);
+      socket.emit('nearby-drivers', []);
+    }
   });
 
-  socket.on('disconnect', () => {
-    // Remove driver from connected list
-    for (let [driverId, driver] of connectedDrivers.entries()) {
-      if (driver.socketId === socket.id) {
-        connectedDrivers.delete(driverId);
-        socket.broadcast.emit('driver-offline', { driverId });
-        break;
+  socket.on('disconnect', async () => {
+    const { driverId } = socket.data;
+    if (driverId) {
+      try {
+        // Skipped when the driver has already reconnected elsewhere
+        if (await locationStore.remove(driverId, { socketId: socket.id })) {
+          socket.broadcast.emit('driver-offline', { driverId });
+        }
+      } catch (error) {
+        console.error('Driver location store error:', error);
       }
     }
     console.log('Client disconnected:', socket.id);
   });
 });
 
-// Haversine formula for distance calculation
-function calculateDistance(lat1, lng1, lat2, lng2) {
-  const R = 6371; // Earth's radius in km
-  const dLat = (lat2 - lat1) * Math.PI / 180;
-  const dLng = (lng2 - lng1) * Math.PI / 180;
-  const a = Math.sin(dLat/2) * Math.sin(dLat/2) +
-    Math.cos(lat1 * Math.PI / 180) * Math.cos(lat2 * Math.PI / 180) *
-    Math.sin(dLng/2) * Math.sin(dLng/2);
-  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1-a));
-  return R * c;
-}
-
 // Error handling
 app.use(errorHandler);
 
@@ -141,4 +236,11 @@ server.listen(PORT, () => {
   console.log(`🚗 RideShare Backend running on port ${PORT}`);
   console.log(`🌐 Frontend URL: ${process.env.FRONTEND_URL || "http://localhost:8080"}`);
   console.log(`📊 Health check: http://localhost:${PORT}/health`);
+  startSurgeEngine();
+  startRideScheduler();
+  warmLocationStore()
+    .then(count => console.log(`📍 Location store (${locationStore.name}) restored ${count} driver positions`))
+    .catch(error => {
+      console.error('❌ Location store connection failed:', error.message);
+    });
 });
\ No newline at end of file
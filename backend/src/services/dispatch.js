@@ -0,0 +1,207 @@
+const db = require('../config/database');
+const { transitionRide, applyTransition } = require('./rideStateMachine');
+const { createOffer, waitForOfferResponse, OFFER_TTL_SECONDS } = require('./offers');
+const { findPoolMatches, joinPool, publishPoolUpdate } = require('./pooling');
+const { getRoute } = require('./routing');
+
+// Search radii tried in order; the next one is used when nobody accepts
+const DISPATCH_RADII_KM = (process.env.DISPATCH_RADII_KM || '3,6,10')
+  .split(',')
+  .map(value => parseFloat(value))
+  .filter(value => value > 0);
+
+// How many drivers are offered the ride, one at a time, per radius
+const MAX_OFFERS_PER_ROUND = parseInt(process.env.DISPATCH_MAX_OFFERS_PER_ROUND, 10) || 5;
+
+// Ranking weights (road distance to pickup vs driver rating)
+const DISTANCE_WEIGHT = 0.6;
+const RATING_WEIGHT = 0.4;
+
+// Vehicles allowed to serve each ride type
+const VEHICLE_COMPATIBILITY = {
+  standard: ['sedan', 'hatchback', 'suv', 'electric'],
+  premium: ['premium', 'suv'],
+  shared: ['sedan', 'hatchback', 'suv', 'electric']
+};
+
+// Rides currently being dispatched by this process
+const activeDispatches = new Set();
+
+const isVehicleCompatible = (vehicleType, rideType) => {
+  const allowed = VEHICLE_COMPATIBILITY[rideType] || VEHICLE_COMPATIBILITY.standard;
+  return allowed.includes(String(vehicleType || '').toLowerCase());
+};
+
+// Score compatible candidates (0..1, higher is better) and sort best first
+const rankDrivers = (candidates, rideType, radiusKm) => candidates
+  .filter(driver => isVehicleCompatible(driver.vehicle_type, rideType))
+  .map(driver => {
+    const distanceScore = Math.max(0, 1 - driver.distance / radiusKm);
+    const ratingScore = (parseFloat(driver.rating) || 0) / 5;
+    return {
+      ...driver,
+      score: Math.round((DISTANCE_WEIGHT * distanceScore + RATING_WEIGHT * ratingScore) * 10000) / 10000
+    };
+  })
+  .sort((a, b) => b.score - a.score || a.distance - b.distance);
+
+// Nearest compatible candidates per round whose road route to the pickup is looked up for ranking
+const ROUTED_CANDIDATES = MAX_OFFERS_PER_ROUND * 2;
+
+// Online drivers near the pickup who haven't been offered this ride and aren't holding another offer
+const findCandidates = async (ride, radiusKm) => {
+  const [drivers] = await db.execute(`
+    SELECT d.id, d.vehicle_type, d.rating, dl.latitude, dl.longitude,
+      (6371 * acos(cos(radians(?)) * cos(radians(dl.latitude)) * cos(radians(dl.longitude) - radians(?)) + sin(radians(?)) * sin(radians(dl.latitude)))) AS distance
+    FROM drivers d
+    JOIN driver_locations dl ON d.id = dl.driver_id
+    WHERE d.status = 'online'
+      AND dl.updated_at > DATE_SUB(NOW(), INTERVAL 5 MINUTE)
+      AND d.id NOT IN (SELECT driver_id FROM ride_offers WHERE ride_id = ?)
+      AND d.id NOT IN (SELECT driver_id FROM ride_offers WHERE status = 'pending' AND expires_at > NOW())
+    HAVING distance <= ?
+    ORDER BY distance
+    LIMIT 50
+  `, [ride.pickup_lat, ride.pickup_lng, ride.pickup_lat, ride.id, radiusKm]);
+
+  return drivers;
+};
+
+// Swap the straight-line distance for the driven one and attach the pickup ETA. A road detour
+// can push a driver past the radius, where they rank on rating alone.
+const withRoadDistances = (candidates, ride) => {
+  const pickup = { lat: parseFloat(ride.pickup_lat), lng: parseFloat(ride.pickup_lng) };
+
+  return Promise.all(candidates.map(async driver => {
+    const route = await getRoute([{ lat: parseFloat(driver.latitude), lng: parseFloat(driver.longitude) }, pickup]);
+    return {
+      ...driver,
+      distance: route.distance_km,
+      eta_minutes: Math.max(1, Math.ceil(route.duration_minutes))
+    };
+  }));
+};
+
+const isStillRequested = async (rideId) => {
+  const [rows] = await db.execute('SELECT status, driver_id FROM rides WHERE id = ?', [rideId]);
+  return rows[0]?.status === 'requested' && !rows[0].driver_id;
+};
+
+// Nobody took the ride within the largest radius
+const failDispatch = async (ride, offersMade) => {
+  try {
+    await transitionRide(ride.id, 'cancel', { id: null, role: 'system' }, {
+      reason: 'No drivers available nearby',
+      offers: offersMade,
+      radii_km: DISPATCH_RADII_KM
+    });
+  } catch (error) {
+    // Already accepted or cancelled by someone else
+    if (error.status === 409) return;
+    throw error;
+  }
+
+  await db.execute(
+    'INSERT INTO ride_logs (user_id, action, details, created_at) VALUES (?, ?, ?, NOW())',
+    [ride.user_id, 'dispatch_failed', JSON.stringify({ ride_id: ride.id, offers: offersMade, radii_km: DISPATCH_RADII_KM })]
+  );
+};
+
+// Put a shared ride in the car of a driver already carrying co-riders along the way.
+// Pooling drivers take riders automatically, so there is no offer to wait on.
+const poolRide = async (ride) => {
+  for (const match of await findPoolMatches(ride)) {
+    const conn = await db.getConnection();
+    try {
+      await conn.beginTransaction();
+      const { publish } = await applyTransition(conn, ride.id, 'accept', { id: match.driverId, role: 'driver' }, {
+        pooled: true,
+        eta: match.eta
+      });
+      const pool = await joinPool(conn, match.driverId, ride.id);
+      await conn.commit();
+
+      publish();
+      publishPoolUpdate(pool);
+      return match.driverId;
+    } catch (error) {
+      await conn.rollback();
+      // The pool filled up or moved on since matching; try the next one
+      if (error.code === 'POOL_UNAVAILABLE') continue;
+      // Cancelled in the meantime
+      if (error.status === 409) return null;
+      throw error;
+    } finally {
+      conn.release();
+    }
+  }
+
+  return null;
+};
+
+// Offer a ride to ranked drivers one at a time, widening the radius until someone accepts
+const dispatchRide = async (rideId) => {
+  if (activeDispatches.has(rideId)) return null;
+  activeDispatches.add(rideId);
+
+  try {
+    const [rides] = await db.execute('SELECT * FROM rides WHERE id = ?', [rideId]);
+    const ride = rides[0];
+    if (!ride || ride.status !== 'requested') return null;
+
+    if (ride.ride_type === 'shared') {
+      const pooledWith = await poolRide(ride);
+      if (pooledWith) {
+        console.log(`🚦 Dispatch ${rideId}: pooled with driver ${pooledWith}`);
+        return pooledWith;
+      }
+    }
+
+    let offersMade = 0;
+
+    for (let round = 0; round < DISPATCH_RADII_KM.length; round++) {
+      const radiusKm = DISPATCH_RADII_KM[round];
+      const nearest = (await findCandidates(ride, radiusKm))
+        .filter(driver => isVehicleCompatible(driver.vehicle_type, ride.ride_type))
+        .slice(0, ROUTED_CANDIDATES);
+      const ranked = rankDrivers(await withRoadDistances(nearest, ride), ride.ride_type, radiusKm)
+        .slice(0, MAX_OFFERS_PER_ROUND);
+
+      console.log(`🚦 Dispatch ${rideId}: round ${round + 1}, ${radiusKm} km, ${ranked.length} candidates`);
+
+      for (const driver of ranked) {
+        if (!(await isStillRequested(rideId))) return null;
+
+        const offer = await createOffer(rideId, driver.id, {
+          distanceKm: Math.round(driver.distance * 100) / 100,
+          etaMinutes: driver.eta_minutes,
+          searchRadiusKm: radiusKm,
+          round: round + 1,
+          score: driver.score,
+          ttlSeconds: OFFER_TTL_SECONDS
+        });
+        offersMade++;
+
+        const outcome = await waitForOfferResponse(offer);
+        if (outcome === 'accepted') {
+          return driver.id;
+        }
+        if (outcome === 'withdrawn' && !(await isStillRequested(rideId))) {
+          return null;
+        }
+      }
+    }
+
+    await failDispatch(ride, offersMade);
+    return null;
+  } finally {
+    activeDispatches.delete(rideId);
+  }
+};
+
+module.exports = {
+  VEHICLE_COMPATIBILITY,
+  isVehicleCompatible,
+  rankDrivers,
+  dispatchRide
+};
@@ -0,0 +1,95 @@
+const db = require('../config/database');
+const httpError = require('../utils/httpError');
+const { getLocationStore, LOCATION_TTL_SECONDS } = require('./locationStores');
+
+/**
+ * Record a driver's reported position, whether it arrived over REST or the socket. The
+ * driver_locations table that dispatch, pooling, surge and live routes read is written first,
+ * then the shared location store behind the live map. Availability comes from the drivers
+ * table, never from the reporter; offline drivers are taken off the live map.
+ * Returns the driver's current status.
+ */
+const recordDriverLocation = async (driverId, { lat, lng, socketId }) => {
+  const [rows] = await db.execute('SELECT status FROM drivers WHERE id = ?', [driverId]);
+  if (!rows[0]) {
+    throw httpError(404, 'Driver not found');
+  }
+
+  await db.execute(`
+    INSERT INTO driver_locations (driver_id, latitude, longitude, updated_at)
+    VALUES (?, ?, ?, NOW())
+    ON DUPLICATE KEY UPDATE
+      latitude = VALUES(latitude),
+      longitude = VALUES(longitude),
+      updated_at = VALUES(updated_at)
+  `, [driverId, lat, lng]);
+
+  const { status } = rows[0];
+  if (status === 'offline') {
+    await getLocationStore().remove(driverId);
+  } else {
+    await getLocationStore().upsert(driverId, { lat, lng, status, socketId });
+  }
+  return status;
+};
+
+/**
+ * Online drivers within `radiusKm` of `point`, nearest first. Positions come from the shared
+ * location store and profiles from the drivers table, which stays the authority on availability.
+ * Each row is the driver's profile plus `location` and `distance` (km).
+ */
+const findNearbyDrivers = async (point, radiusKm, { limit = 10 } = {}) => {
+  // Over-fetch a little: some positions belong to drivers who have since gone offline or busy
+  const positions = await getLocationStore().nearby(point, radiusKm, { limit: limit * 2 });
+  if (positions.length === 0) return [];
+
+  const [rows] = await db.execute(
+    `SELECT id, name, phone, vehicle_type, license_plate, rating, status
+     FROM drivers
+     WHERE status = 'online' AND id IN (${positions.map(() => '?').join(', ')})`,
+    positions.map(position => position.driver_id)
+  );
+  const driversById = new Map(rows.map(row => [row.id, row]));
+
+  return positions
+    .filter(position => driversById.has(position.driver_id))
+    .slice(0, limit)
+    .map(position => ({
+      ...driversById.get(position.driver_id),
+      location: position.location,
+      distance: position.distance_km
+    }));
+};
+
+/**
+ * Connect the location store and restore the positions drivers reported within the TTL, so the
+ * live map isn't empty after a restart (the memory store starts blank) until each driver moves.
+ */
+const warmLocationStore = async () => {
+  const store = getLocationStore();
+  await store.connect();
+
+  const [rows] = await db.execute(`
+    SELECT dl.driver_id, dl.latitude, dl.longitude, dl.updated_at, d.status
+    FROM driver_locations dl
+    JOIN drivers d ON d.id = dl.driver_id
+    WHERE d.status <> 'offline'
+      AND dl.updated_at > DATE_SUB(NOW(), INTERVAL ? SECOND)
+  `, [LOCATION_TTL_SECONDS]);
+
+  for (const row of rows) {
+    await store.upsert(row.driver_id, {
+      lat: parseFloat(row.latitude),
+      lng: parseFloat(row.longitude),
+      status: row.status,
+      updatedAt: new Date(row.updated_at)
+    });
+  }
+  return rows.length;
+};
+
+module.exports = {
+  recordDriverLocation,
+  warmLocationStore,
+  findNearbyDrivers
+};
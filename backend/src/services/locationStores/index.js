@@ -0,0 +1,41 @@
+const { createMemoryStore } = require('./memory');
+const { createRedisStore } = require('./redis');
+
+/**
+ * Location stores share one interface for live driver positions:
+ *
+ *   connect()                                        open any backing connection
+ *   upsert(driverId, { lat, lng, status?, socketId?, updatedAt? })
+ *                                                    record a position (status and socket are kept when omitted;
+ *                                                    `updatedAt` backdates one restored from the database)
+ *   remove(driverId, { socketId? }) -> boolean         forget a driver; with `socketId`, only if that is still their connection
+ *   nearby({ lat, lng }, radiusKm, { status?, limit? })
+ *     -> [{ driver_id, location, status, socket_id, updated_at, distance_km }] nearest first
+ *
+ * Positions not refreshed within the TTL are treated as gone.
+ */
+const stores = {
+  memory: createMemoryStore,
+  redis: createRedisStore
+};
+
+// "redis" shares positions between backend replicas; "memory" is per process
+const LOCATION_STORE = process.env.LOCATION_STORE || 'memory';
+
+// Matches the five minutes after which dispatch stops trusting a driver's last position
+const LOCATION_TTL_SECONDS = parseInt(process.env.LOCATION_TTL_SECONDS, 10) || 300;
+
+let store = null;
+
+const getLocationStore = () => {
+  if (!store) {
+    const createStore = stores[LOCATION_STORE];
+    if (!createStore) {
+      throw new Error(`Unknown location store: ${LOCATION_STORE}`);
+    }
+    store = createStore({ ttlSeconds: LOCATION_TTL_SECONDS });
+  }
+  return store;
+};
+
+module.exports = { getLocationStore, LOCATION_TTL_SECONDS };
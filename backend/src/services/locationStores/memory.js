@@ -0,0 +1,47 @@
+const { calculateDistance } = require('../../utils/geo');
+
+// Process-local store with a linear scan. Fine for a single instance and tests; replicas each see
+// only their own drivers, so deployments behind the load balancer use the Redis store.
+const createMemoryStore = ({ ttlSeconds }) => {
+  const drivers = new Map();
+
+  const isFresh = (entry) => Date.now() - entry.updated_at.getTime() <= ttlSeconds * 1000;
+
+  return {
+    name: 'memory',
+
+    connect: async () => {},
+
+    upsert: async (driverId, { lat, lng, status, socketId, updatedAt = new Date() }) => {
+      const previous = drivers.get(driverId);
+      drivers.set(driverId, {
+        driver_id: driverId,
+        location: { lat, lng },
+        status: status || previous?.status || 'online',
+        socket_id: socketId || previous?.socket_id || null,
+        updated_at: updatedAt
+      });
+    },
+
+    remove: async (driverId, { socketId } = {}) => {
+      const entry = drivers.get(driverId);
+      if (!entry || (socketId && entry.socket_id !== socketId)) return false;
+      drivers.delete(driverId);
+      return true;
+    },
+
+    nearby: async ({ lat, lng }, radiusKm, { status, limit = 50 } = {}) => {
+      const found = [];
+      drivers.forEach(entry => {
+        if (!isFresh(entry) || (status && entry.status !== status)) return;
+        const distance = calculateDistance(lat, lng, entry.location.lat, entry.location.lng);
+        if (distance <= radiusKm) {
+          found.push({ ...entry, distance_km: distance });
+        }
+      });
+      return found.sort((a, b) => a.distance_km - b.distance_km).slice(0, limit);
+    }
+  };
+};
+
+module.exports = { createMemoryStore };
@@ -0,0 +1,66 @@
+const { redis, connectRedis } = require('../../config/redis');
+
+const GEO_KEY = 'drivers:geo';
+const stateKey = (driverId) => `drivers:state:${driverId}`;
+
+// GEOSEARCH finds candidates; each driver's state hash expires when they stop reporting, and
+// geo members whose hash has expired are dropped the next time a search runs into them
+const createRedisStore = ({ ttlSeconds }) => ({
+  name: 'redis',
+
+  connect: connectRedis,
+
+  upsert: async (driverId, { lat, lng, status, socketId, updatedAt = new Date() }) => {
+    const state = { lat: String(lat), lng: String(lng), updated_at: updatedAt.toISOString() };
+    const ageSeconds = Math.floor((Date.now() - updatedAt.getTime()) / 1000);
+    if (status) state.status = status;
+    if (socketId) state.socket_id = socketId;
+
+    await redis.multi()
+      .geoAdd(GEO_KEY, { longitude: lng, latitude: lat, member: driverId })
+      .hSet(stateKey(driverId), state)
+      .expire(stateKey(driverId), Math.max(ttlSeconds - ageSeconds, 1))
+      .exec();
+  },
+
+  remove: async (driverId, { socketId } = {}) => {
+    // Another replica may already hold the driver's newer connection
+    if (socketId && (await redis.hGet(stateKey(driverId), 'socket_id')) !== socketId) {
+      return false;
+    }
+    await redis.multi().zRem(GEO_KEY, driverId).del(stateKey(driverId)).exec();
+    return true;
+  },
+
+  nearby: async ({ lat, lng }, radiusKm, { status, limit = 50 } = {}) => {
+    const candidates = await redis.geoSearchWith(
+      GEO_KEY,
+      { longitude: lng, latitude: lat },
+      { radius: radiusKm, unit: 'km' },
+      ['WITHDIST'],
+      { SORT: 'ASC' }
+    );
+    if (candidates.length === 0) return [];
+
+    const states = await Promise.all(candidates.map(({ member }) => redis.hGetAll(stateKey(member))));
+    const expired = candidates.filter((_, index) => !states[index].updated_at).map(({ member }) => member);
+    if (expired.length > 0) {
+      await redis.zRem(GEO_KEY, expired);
+    }
+
+    return candidates
+      .map(({ member, distance }, index) => ({ member, distance, state: states[index] }))
+      .filter(({ state }) => state.updated_at && (!status || (state.status || 'online') === status))
+      .slice(0, limit)
+      .map(({ member, distance, state }) => ({
+        driver_id: member,
+        location: { lat: parseFloat(state.lat), lng: parseFloat(state.lng) },
+        status: state.status || 'online',
+        socket_id: state.socket_id || null,
+        updated_at: new Date(state.updated_at),
+        distance_km: parseFloat(distance)
+      }));
+  }
+});
+
+module.exports = { createRedisStore };
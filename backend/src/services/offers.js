@@ -0,0 +1,242 @@
+const db = require('../config/database');
+const httpError = require('../utils/httpError');
+const { emitToUser } = require('./realtime');
+const { applyTransition } = require('./rideStateMachine');
+const { formatRide } = require('../utils/rideFormatter');
+
+// How long a driver has to respond to an offer
+const OFFER_TTL_SECONDS = parseInt(process.env.RIDE_OFFER_TTL_SECONDS, 10) || 30;
+
+const OFFER_EVENTS = {
+  OFFER: 'ride:offer',
+  WITHDRAWN: 'ride:offer_withdrawn'
+};
+
+// Dispatch waits on these until the driver answers or the offer is withdrawn
+const responseWaiters = new Map();
+
+const notifyOfferResponse = (offerId, outcome) => {
+  const resolve = responseWaiters.get(Number(offerId));
+  if (resolve) {
+    responseWaiters.delete(Number(offerId));
+    resolve(outcome);
+  }
+};
+
+// Offer row joined with its ride and rider, as shown in the driver inbox
+const OFFER_SELECT = `
+  SELECT
+    o.id AS offer_id, o.driver_id AS offer_driver_id, o.status AS offer_status,
+    o.distance_km AS offer_distance_km, o.eta_minutes AS offer_eta_minutes,
+    o.offered_at, o.expires_at,
+    GREATEST(TIMESTAMPDIFF(SECOND, NOW(), o.expires_at), 0) AS seconds_remaining,
+    (SELECT COUNT(*) FROM ride_stops s WHERE s.ride_id = r.id) AS stop_count,
+    r.*, u.name AS rider_name, u.rider_rating, u.rider_rating_count
+  FROM ride_offers o
+  JOIN rides r ON r.id = o.ride_id
+  JOIN users u ON u.id = r.user_id
+`;
+
+// Drivers see the rider's reputation before accepting; a rider with no ratings yet is shown as new
+const formatOfferRider = (row) => ({
+  name: row.rider_name,
+  rating: row.rider_rating_count > 0 ? parseFloat(row.rider_rating) : undefined,
+  rating_count: Number(row.rider_rating_count) || 0
+});
+
+const formatOffer = (row) => ({
+  id: row.offer_id,
+  ride_id: row.id,
+  driver_id: row.offer_driver_id,
+  status: row.offer_status,
+  distance_km: row.offer_distance_km !== null ? parseFloat(row.offer_distance_km) : undefined,
+  eta_minutes: row.offer_eta_minutes ?? undefined,
+  offered_at: row.offered_at,
+  expires_at: row.expires_at,
+  seconds_remaining: Number(row.seconds_remaining),
+  stop_count: Number(row.stop_count) || 0,
+  ride: formatRide(row),
+  rider: formatOfferRider(row)
+});
+
+const getOffer = async (offerId, conn = db) => {
+  const [rows] = await conn.execute(`${OFFER_SELECT} WHERE o.id = ?`, [offerId]);
+  return rows[0] ? formatOffer(rows[0]) : null;
+};
+
+// Insert a pending offer for one driver and notify their console
+const createOffer = async (rideId, driverId, details = {}) => {
+  const {
+    distanceKm = null,
+    etaMinutes = null,
+    searchRadiusKm = null,
+    round = null,
+    score = null,
+    ttlSeconds = OFFER_TTL_SECONDS
+  } = details;
+
+  const [result] = await db.execute(
+    `INSERT INTO ride_offers
+       (ride_id, driver_id, status, distance_km, eta_minutes, search_radius_km, dispatch_round, rank_score, offered_at, expires_at)
+     VALUES (?, ?, 'pending', ?, ?, ?, ?, ?, NOW(), DATE_ADD(NOW(), INTERVAL ? SECOND))`,
+    [rideId, driverId, distanceKm, etaMinutes, searchRadiusKm, round, score, ttlSeconds]
+  );
+
+  const offer = await getOffer(result.insertId);
+  if (offer) {
+    emitToUser(driverId, OFFER_EVENTS.OFFER, { offer });
+  }
+  return offer;
+};
+
+// Resolve with 'accepted', 'declined', 'withdrawn' or 'expired' once the offer settles
+const waitForOfferResponse = (offer, timeoutMs = OFFER_TTL_SECONDS * 1000) => new Promise(resolve => {
+  const timer = setTimeout(async () => {
+    responseWaiters.delete(offer.id);
+
+    try {
+      const [result] = await db.execute(
+        'UPDATE ride_offers SET status = \'expired\', responded_at = NOW() WHERE id = ? AND status = \'pending\'',
+        [offer.id]
+      );
+
+      if (result.affectedRows > 0) {
+        emitToUser(offer.driver_id, OFFER_EVENTS.WITHDRAWN, { offer_id: offer.id, ride_id: offer.ride_id });
+        return resolve('expired');
+      }
+
+      // The driver answered just as the timer fired
+      const [rows] = await db.execute('SELECT status FROM ride_offers WHERE id = ?', [offer.id]);
+      resolve(rows[0]?.status || 'expired');
+    } catch (error) {
+      console.error('Offer expiry error:', error);
+      resolve('expired');
+    }
+  }, timeoutMs);
+
+  responseWaiters.set(offer.id, (outcome) => {
+    clearTimeout(timer);
+    resolve(outcome);
+  });
+});
+
+// Pending offers for a driver that have not expired yet
+const getPendingOffersForDriver = async (driverId) => {
+  const [rows] = await db.execute(
+    `${OFFER_SELECT}
+     WHERE o.driver_id = ? AND o.status = 'pending' AND o.expires_at > NOW() AND r.status = 'requested'
+     ORDER BY o.expires_at`,
+    [driverId]
+  );
+  return rows.map(formatOffer);
+};
+
+// Withdraw the remaining pending offers of a ride (it was taken or cancelled)
+const withdrawPendingOffers = async (rideId, conn = db) => {
+  const [pending] = await conn.execute(
+    'SELECT id, driver_id FROM ride_offers WHERE ride_id = ? AND status = \'pending\'',
+    [rideId]
+  );
+
+  if (pending.length === 0) return;
+
+  await conn.execute(
+    'UPDATE ride_offers SET status = \'withdrawn\', responded_at = NOW() WHERE ride_id = ? AND status = \'pending\'',
+    [rideId]
+  );
+
+  pending.forEach(offer => {
+    emitToUser(offer.driver_id, OFFER_EVENTS.WITHDRAWN, { offer_id: offer.id, ride_id: rideId });
+    notifyOfferResponse(offer.id, 'withdrawn');
+  });
+};
+
+// Driver accepts an offer: first valid acceptance wins the ride
+const acceptOffer = async (offerId, driver) => {
+  const conn = await db.getConnection();
+  let committed = false;
+
+  try {
+    await conn.beginTransaction();
+
+    const [offers] = await conn.execute(
+      `SELECT id, ride_id, status, eta_minutes, expires_at > NOW() AS is_live
+       FROM ride_offers WHERE id = ? AND driver_id = ? FOR UPDATE`,
+      [offerId, driver.id]
+    );
+    const offer = offers[0];
+
+    if (!offer) {
+      throw httpError(404, 'Offer not found');
+    }
+    if (offer.status !== 'pending' || !offer.is_live) {
+      throw httpError(409, 'This offer is no longer available');
+    }
+
+    let transition;
+
+    try {
+      transition = await applyTransition(conn, offer.ride_id, 'accept', { id: driver.id, role: 'driver' }, {
+        offer_id: offer.id,
+        eta: offer.eta_minutes ?? undefined
+      });
+    } catch (error) {
+      if (error.status !== 409) throw error;
+
+      // Ride was taken or cancelled meanwhile; close this offer out
+      await conn.execute(
+        'UPDATE ride_offers SET status = \'withdrawn\', responded_at = NOW() WHERE id = ?',
+        [offerId]
+      );
+      await conn.commit();
+      committed = true;
+      notifyOfferResponse(offerId, 'withdrawn');
+      throw httpError(409, 'This ride is no longer available');
+    }
+
+    await conn.execute(
+      'UPDATE ride_offers SET status = \'accepted\', responded_at = NOW() WHERE id = ?',
+      [offerId]
+    );
+    await withdrawPendingOffers(offer.ride_id, conn);
+
+    await conn.commit();
+    committed = true;
+    notifyOfferResponse(offerId, 'accepted');
+    transition.publish();
+
+    return transition.ride;
+  } catch (error) {
+    if (!committed) {
+      await conn.rollback();
+    }
+    throw error;
+  } finally {
+    conn.release();
+  }
+};
+
+const declineOffer = async (offerId, driverId) => {
+  const [result] = await db.execute(
+    `UPDATE ride_offers SET status = 'declined', responded_at = NOW()
+     WHERE id = ? AND driver_id = ? AND status = 'pending'`,
+    [offerId, driverId]
+  );
+
+  if (result.affectedRows === 0) {
+    throw httpError(409, 'This offer is no longer available');
+  }
+
+  notifyOfferResponse(offerId, 'declined');
+};
+
+module.exports = {
+  OFFER_EVENTS,
+  OFFER_TTL_SECONDS,
+  createOffer,
+  waitForOfferResponse,
+  getPendingOffersForDriver,
+  withdrawPendingOffers,
+  acceptOffer,
+  declineOffer
+};
@@ -0,0 +1,32 @@
+const crypto = require('crypto');
+const httpError = require('../../utils/httpError');
+
+// Local stand-in for a card/UPI gateway. Cards ending 0002, UPI handles starting "fail" and amounts
+// above FAKE_GATEWAY_DECLINE_ABOVE are declined so decline paths can be exercised.
+const DECLINE_ABOVE = parseFloat(process.env.FAKE_GATEWAY_DECLINE_ABOVE) || 50000;
+
+const reference = (prefix) => `fake_${prefix}_${crypto.randomBytes(8).toString('hex')}`;
+
+const isDeclined = (method, amount) =>
+  amount > DECLINE_ABOVE ||
+  (method.payment_type === 'card' && method.card_last_four === '0002') ||
+  (method.payment_type === 'upi' && String(method.upi_handle || '').startsWith('fail'));
+
+const fakeGateway = {
+  name: 'fake',
+
+  authorize: async ({ payment, method }) => {
+    if (isDeclined(method, parseFloat(payment.amount))) {
+      throw Object.assign(httpError(402, 'Your payment method was declined'), { code: 'PAYMENT_DECLINED' });
+    }
+    return { authorization_id: reference('auth') };
+  },
+
+  capture: async () => ({ transaction_id: reference('txn') }),
+
+  void: async () => {},
+
+  refund: async () => ({ refund_id: reference('refund') })
+};
+
+module.exports = fakeGateway;
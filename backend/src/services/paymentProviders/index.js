@@ -0,0 +1,34 @@
+const walletProvider = require('./wallet');
+const fakeGateway = require('./fakeGateway');
+
+/**
+ * Payment providers share one interface so every method type moves through the same states:
+ *
+ *   authorize(ctx) -> { authorization_id }   reserve the amount at booking (throw a 402 to decline)
+ *   capture(ctx)   -> { transaction_id }     take the money when the ride completes
+ *   void(ctx)                                release an uncaptured authorization
+ *   refund(ctx)    -> { refund_id }          return captured money
+ *
+ * `ctx` is { conn, payment, method } where `conn` is the open booking/transition transaction,
+ * `payment` the payments row and `method` the user_payment_methods row.
+ */
+const gateways = {
+  fake: fakeGateway
+};
+
+// Card and UPI go through the configured gateway; wallet payments settle against the ledger
+const PAYMENT_GATEWAY = process.env.PAYMENT_GATEWAY || 'fake';
+
+const getProvider = (paymentType) => {
+  if (paymentType === 'wallet') {
+    return walletProvider;
+  }
+
+  const gateway = gateways[PAYMENT_GATEWAY];
+  if (!gateway) {
+    throw new Error(`Unknown payment gateway: ${PAYMENT_GATEWAY}`);
+  }
+  return gateway;
+};
+
+module.exports = { getProvider };
@@ -0,0 +1,30 @@
+const { assertSufficientBalance, chargeRide, recordTransaction } = require('../wallet');
+
+// Wallet payments: the balance check is the authorization and the ledger debit is the capture
+const walletProvider = {
+  name: 'wallet',
+
+  authorize: async ({ conn, payment }) => {
+    await assertSufficientBalance(conn, payment.user_id, parseFloat(payment.amount), payment.ride_id);
+    return { authorization_id: null };
+  },
+
+  capture: async ({ conn, payment }) => {
+    const [rides] = await conn.execute('SELECT * FROM rides WHERE id = ?', [payment.ride_id]);
+    const entry = await chargeRide(conn, rides[0], parseFloat(payment.amount));
+    return { transaction_id: entry ? `wallet_txn_${entry.id}` : null };
+  },
+
+  void: async () => {},
+
+  refund: async ({ conn, payment }) => {
+    const entry = await recordTransaction(conn, payment.user_id, parseFloat(payment.amount), {
+      type: 'refund',
+      rideId: payment.ride_id,
+      description: 'Refund for cancelled ride'
+    });
+    return { refund_id: `wallet_txn_${entry.id}` };
+  }
+};
+
+module.exports = walletProvider;
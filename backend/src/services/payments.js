@@ -0,0 +1,260 @@
+const db = require('../config/database');
+const httpError = require('../utils/httpError');
+const { getProvider } = require('./paymentProviders');
+const { recordTransaction } = require('./wallet');
+
+const newId = (prefix) => `${prefix}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+const formatPayment = (row, method) => ({
+  id: row.id,
+  ride_id: row.ride_id,
+  amount: parseFloat(row.amount),
+  status: row.status,
+  payment_method_id: row.payment_method_id,
+  payment_type: method ? method.payment_type : undefined,
+  provider: row.provider,
+  created_at: row.created_at,
+  completed_at: row.completed_at || undefined
+});
+
+const formatPaymentMethod = (row) => ({
+  id: row.id,
+  payment_type: row.payment_type,
+  card_last_four: row.card_last_four || undefined,
+  card_brand: row.card_brand || undefined,
+  upi_handle: row.upi_handle || undefined,
+  label: row.label || undefined,
+  is_default: Boolean(row.is_default),
+  created_at: row.created_at
+});
+
+const getMethod = async (conn, methodId) => {
+  const [rows] = await conn.execute('SELECT * FROM user_payment_methods WHERE id = ?', [methodId]);
+  return rows[0];
+};
+
+// Every rider can pay from their wallet; the method row is created the first time it's needed
+const ensureWalletMethod = async (conn, userId) => {
+  const [rows] = await conn.execute(
+    'SELECT * FROM user_payment_methods WHERE user_id = ? AND payment_type = \'wallet\' AND is_active = 1 LIMIT 1',
+    [userId]
+  );
+  if (rows.length > 0) return rows[0];
+
+  const id = newId('pm');
+  await conn.execute(
+    'INSERT INTO user_payment_methods (id, user_id, payment_type, is_active, created_at) VALUES (?, ?, \'wallet\', 1, NOW())',
+    [id, userId]
+  );
+  return getMethod(conn, id);
+};
+
+// Active methods, default first, always including the wallet
+const listPaymentMethods = async (userId) => {
+  await ensureWalletMethod(db, userId);
+  const [rows] = await db.execute(
+    `SELECT * FROM user_payment_methods WHERE user_id = ? AND is_active = 1
+     ORDER BY is_default DESC, payment_type = 'wallet' DESC, created_at ASC`,
+    [userId]
+  );
+  return rows.map(formatPaymentMethod);
+};
+
+// The rider's chosen active method, else their default, else their wallet
+const resolvePaymentMethod = async (userId, methodId, conn = db) => {
+  if (!methodId) {
+    const [defaults] = await conn.execute(
+      'SELECT * FROM user_payment_methods WHERE user_id = ? AND is_default = 1 AND is_active = 1 LIMIT 1',
+      [userId]
+    );
+    return defaults[0] || ensureWalletMethod(conn, userId);
+  }
+
+  const [rows] = await conn.execute(
+    'SELECT * FROM user_payment_methods WHERE id = ? AND user_id = ? AND is_active = 1',
+    [methodId, userId]
+  );
+  if (rows.length === 0) {
+    throw Object.assign(httpError(400, 'Payment method not found'), { code: 'PAYMENT_METHOD_INVALID' });
+  }
+  return rows[0];
+};
+
+const updatePayment = async (conn, paymentId, fields) => {
+  const columns = Object.keys(fields);
+  await conn.execute(
+    `UPDATE payments SET ${columns.map(column => `${column} = ?`).join(', ')} WHERE id = ?`,
+    [...columns.map(column => fields[column]), paymentId]
+  );
+};
+
+/**
+ * Create and authorize the payment for a new ride inside the booking transaction on `conn`.
+ * A declined authorization throws, which rolls the whole booking back.
+ */
+const createRidePayment = async (conn, { rideId, userId, amount, paymentMethodId }) => {
+  const method = await resolvePaymentMethod(userId, paymentMethodId, conn);
+  const provider = getProvider(method.payment_type);
+  const payment = {
+    id: newId('pay'),
+    ride_id: rideId,
+    user_id: userId,
+    amount,
+    payment_method_id: method.id,
+    provider: provider.name,
+    status: 'pending'
+  };
+
+  await conn.execute(
+    `INSERT INTO payments (id, ride_id, user_id, amount, payment_method_id, provider, status, created_at)
+     VALUES (?, ?, ?, ?, ?, ?, 'pending', NOW())`,
+    [payment.id, rideId, userId, amount, method.id, provider.name]
+  );
+
+  const { authorization_id } = await provider.authorize({ conn, payment, method });
+  await updatePayment(conn, payment.id, {
+    status: 'authorized',
+    authorization_id,
+    authorized_at: new Date()
+  });
+
+  return formatPayment({ ...payment, status: 'authorized', created_at: new Date() }, method);
+};
+
+// The ride's payment with its method, locked for the rest of the transaction
+const lockRidePayment = async (conn, rideId) => {
+  const [rows] = await conn.execute(
+    'SELECT * FROM payments WHERE ride_id = ? ORDER BY created_at DESC LIMIT 1 FOR UPDATE',
+    [rideId]
+  );
+  if (rows.length === 0) return {};
+
+  return { payment: rows[0], method: await getMethod(conn, rows[0].payment_method_id) };
+};
+
+// Take the authorized amount when the ride completes
+const captureRidePayment = async (conn, rideId) => {
+  const { payment, method } = await lockRidePayment(conn, rideId);
+  if (!payment || payment.status !== 'authorized') return null;
+
+  const provider = getProvider(method.payment_type);
+  const { transaction_id } = await provider.capture({ conn, payment, method });
+  await updatePayment(conn, payment.id, {
+    status: 'completed',
+    transaction_id,
+    completed_at: new Date()
+  });
+
+  return formatPayment({ ...payment, status: 'completed', completed_at: new Date() }, method);
+};
+
+// Release an authorization, or refund a captured payment, when the ride is cancelled.
+// A late cancellation fee is captured from the authorization instead of releasing it.
+const cancelRidePayment = async (conn, rideId, reason, fee = 0) => {
+  const { payment, method } = await lockRidePayment(conn, rideId);
+  if (!payment) return null;
+
+  const provider = getProvider(method.payment_type);
+
+  if (fee > 0 && payment.status === 'authorized') {
+    const charged = { ...payment, amount: fee };
+    const { transaction_id } = await provider.capture({ conn, payment: charged, method });
+    await updatePayment(conn, payment.id, {
+      status: 'completed',
+      amount: fee,
+      transaction_id,
+      completed_at: new Date(),
+      failure_reason: reason || null
+    });
+    return formatPayment({ ...charged, status: 'completed', completed_at: new Date() }, method);
+  }
+
+  if (payment.status === 'authorized' || payment.status === 'pending') {
+    await provider.void({ conn, payment, method });
+    await updatePayment(conn, payment.id, { status: 'voided', failure_reason: reason || null });
+    return formatPayment({ ...payment, status: 'voided' }, method);
+  }
+
+  if (payment.status === 'completed') {
+    const { refund_id } = await provider.refund({ conn, payment, method });
+    await updatePayment(conn, payment.id, {
+      status: 'refunded',
+      refund_id,
+      refunded_at: new Date(),
+      failure_reason: reason || null
+    });
+    return formatPayment({ ...payment, status: 'refunded' }, method);
+  }
+
+  return formatPayment(payment, method);
+};
+
+// The ride's latest payment with the method it was made with, for receipts
+const getRidePayment = async (rideId) => {
+  const [rows] = await db.execute(
+    'SELECT * FROM payments WHERE ride_id = ? ORDER BY created_at DESC LIMIT 1',
+    [rideId]
+  );
+  if (rows.length === 0) return null;
+
+  const method = await getMethod(db, rows[0].payment_method_id);
+  return {
+    ...formatPayment(rows[0], method),
+    method: method ? formatPaymentMethod(method) : undefined
+  };
+};
+
+/**
+ * Add money to the rider's wallet by charging one of their cards or UPI handles through the
+ * gateway. A decline credits nothing; if the credit fails after the charge went through,
+ * the charge is refunded.
+ */
+const topUpWallet = async (userId, amount, paymentMethodId) => {
+  const conn = await db.getConnection();
+  let captured = null;
+
+  try {
+    await conn.beginTransaction();
+
+    const method = await resolvePaymentMethod(userId, paymentMethodId, conn);
+    if (method.payment_type === 'wallet') {
+      throw Object.assign(httpError(400, 'Choose a card or UPI to top up from'), { code: 'PAYMENT_METHOD_INVALID' });
+    }
+
+    const provider = getProvider(method.payment_type);
+    const payment = { ride_id: null, user_id: userId, amount, payment_method_id: method.id, provider: provider.name };
+    const { authorization_id } = await provider.authorize({ conn, payment, method });
+    const { transaction_id } = await provider.capture({ conn, payment: { ...payment, authorization_id }, method });
+    captured = { provider, payment: { ...payment, authorization_id, transaction_id }, method };
+
+    const transaction = await recordTransaction(conn, userId, amount, {
+      type: 'topup',
+      description: 'Wallet top-up',
+      reference: transaction_id
+    });
+    await conn.commit();
+    return transaction;
+  } catch (error) {
+    await conn.rollback();
+    if (captured) {
+      await captured.provider.refund({ conn, payment: captured.payment, method: captured.method }).catch(refundError => {
+        console.error('Top-up refund failed:', refundError);
+      });
+    }
+    throw error;
+  } finally {
+    conn.release();
+  }
+};
+
+module.exports = {
+  formatPaymentMethod,
+  ensureWalletMethod,
+  listPaymentMethods,
+  resolvePaymentMethod,
+  createRidePayment,
+  captureRidePayment,
+  cancelRidePayment,
+  getRidePayment,
+  topUpWallet
+};
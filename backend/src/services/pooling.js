@@ -0,0 +1,333 @@
+const db = require('../config/database');
+const httpError = require('../utils/httpError');
+const { calculateDistance } = require('../utils/geo');
+const { emitRideEvent, emitToUser } = require('./realtime');
+
+// Extra distance (km) any pooled rider may be carried, or kept waiting, because of a co-rider
+const POOL_MAX_DETOUR_KM = parseFloat(process.env.POOL_MAX_DETOUR_KM) || 3;
+
+// Drivers already carrying shared riders this close to a new pickup are considered for it
+const POOL_SEARCH_RADIUS_KM = parseFloat(process.env.POOL_SEARCH_RADIUS_KM) || 5;
+
+// Seats a single shared booking can take
+const MAX_POOL_SEATS = 2;
+
+// Passenger seats available for pooling, by vehicle type
+const POOL_SEAT_CAPACITY = {
+  sedan: 3,
+  hatchback: 3,
+  suv: 5,
+  electric: 3
+};
+const DEFAULT_POOL_SEAT_CAPACITY = 3;
+
+// Turns route distance into a pickup ETA (the shared ride pricing default)
+const POOL_AVG_SPEED_KMH = 25;
+
+const POOL_EVENTS = {
+  UPDATED: 'ride:pool_updated',
+  RIDER_ADDED: 'pool:rider_added'
+};
+
+const ACTIVE_STATUSES = ['accepted', 'in_progress'];
+
+const roundAmount = (value) => Math.round(value * 100) / 100;
+const newId = (prefix) => `${prefix}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+const waypoint = (ride, kind) => ({
+  ride_id: ride.id,
+  kind,
+  lat: parseFloat(ride[`${kind}_lat`]),
+  lng: parseFloat(ride[`${kind}_lng`]),
+  address: ride[`${kind}_address`] || undefined
+});
+
+const legDistance = (from, to) => calculateDistance(from.lat, from.lng, to.lat, to.lng);
+
+// What the rider's booked fare charges per km ridden, surge included
+const ridePerKmRate = (ride) => {
+  const distanceKm = parseFloat(ride.distance_km) || 0;
+  if (distanceKm <= 0) return 0;
+  return (parseFloat(ride.distance_fare) || 0) / distanceKm * (parseFloat(ride.surge_multiplier) || 1);
+};
+
+const ridePayable = (ride) =>
+  Math.max((parseFloat(ride.fare) || 0) - (parseFloat(ride.discount_amount) || 0), 0);
+
+/**
+ * Walk a route from the driver's position. Returns its length, how far along it each rider
+ * is picked up and dropped off, the most seats in use at once, and each rider's saving from
+ * splitting the distance fare of every leg by seats with the others on board (a ride pays
+ * only its seats' share of each leg it shares).
+ */
+const traceRoute = (start, route, ridesById) => {
+  const onboard = new Set(
+    Object.values(ridesById).filter(ride => ride.status === 'in_progress').map(ride => ride.id)
+  );
+  let seatsInUse = [...onboard].reduce((total, id) => total + ridesById[id].seats, 0);
+  let peakSeats = seatsInUse;
+  let length = 0;
+  let position = start;
+  const marks = {};
+  const savings = {};
+
+  for (const point of route) {
+    const leg = legDistance(position, point);
+    if (onboard.size > 1) {
+      for (const rideId of onboard) {
+        const seatShare = ridesById[rideId].seats / seatsInUse;
+        savings[rideId] = (savings[rideId] || 0) + leg * ridePerKmRate(ridesById[rideId]) * (1 - seatShare);
+      }
+    }
+
+    length += leg;
+    marks[point.ride_id] = { ...marks[point.ride_id], [point.kind]: length };
+
+    if (point.kind === 'pickup') {
+      onboard.add(point.ride_id);
+      seatsInUse += ridesById[point.ride_id].seats;
+      peakSeats = Math.max(peakSeats, seatsInUse);
+    } else {
+      onboard.delete(point.ride_id);
+      seatsInUse -= ridesById[point.ride_id].seats;
+    }
+    position = point;
+  }
+
+  return { length, marks, savings, peakSeats };
+};
+
+/**
+ * A driver's unfinished shared rides and the order their remaining pickups and dropoffs are due.
+ * Returns null when the driver can't pool (a non-shared or multi-stop trip, or no known location).
+ */
+const loadDriverPool = async (conn, driverId, { excludeRideId = null, lock = false } = {}) => {
+  const [rides] = await conn.execute(
+    `SELECT r.*, (SELECT COUNT(*) FROM ride_stops s WHERE s.ride_id = r.id) AS stop_count
+     FROM rides r
+     WHERE r.driver_id = ? AND r.status IN ('accepted', 'in_progress') AND r.id <> ?
+     ORDER BY r.accepted_at${lock ? ' FOR UPDATE' : ''}`,
+    [driverId, excludeRideId || '']
+  );
+  if (rides.length === 0 || rides.some(ride => ride.ride_type !== 'shared' || Number(ride.stop_count) > 0)) {
+    return null;
+  }
+
+  const [[location], [drivers]] = await Promise.all([
+    conn.execute('SELECT latitude, longitude FROM driver_locations WHERE driver_id = ?', [driverId]),
+    conn.execute('SELECT vehicle_type FROM drivers WHERE id = ?', [driverId])
+  ]);
+  if (location.length === 0) return null;
+
+  const poolId = rides.find(ride => ride.pool_id)?.pool_id || null;
+  let stored = [];
+  if (poolId) {
+    const [pools] = await conn.execute('SELECT route FROM ride_pools WHERE id = ?', [poolId]);
+    const route = pools[0]?.route;
+    stored = (typeof route === 'string' ? JSON.parse(route) : route) || [];
+  }
+
+  // Drop what's already done, then add any ride the stored order doesn't know about yet
+  const ridesById = Object.fromEntries(rides.map(ride => [ride.id, { ...ride, seats: Number(ride.seats) || 1 }]));
+  const route = stored.filter(point => ridesById[point.ride_id]
+    && (point.kind === 'dropoff' || ridesById[point.ride_id].status === 'accepted'));
+  for (const ride of Object.values(ridesById)) {
+    if (route.some(point => point.ride_id === ride.id)) continue;
+    if (ride.status === 'accepted') route.push(waypoint(ride, 'pickup'));
+    route.push(waypoint(ride, 'dropoff'));
+  }
+
+  const vehicleType = String(drivers[0]?.vehicle_type || '').toLowerCase();
+  return {
+    driverId,
+    poolId,
+    ridesById,
+    route,
+    start: { lat: parseFloat(location[0].latitude), lng: parseFloat(location[0].longitude) },
+    capacity: POOL_SEAT_CAPACITY[vehicleType] || DEFAULT_POOL_SEAT_CAPACITY
+  };
+};
+
+/**
+ * Cheapest place in the pool's route for a new rider's pickup and dropoff that keeps every
+ * rider within the detour budget and the car within its seats. The pickup has to come before
+ * the last dropoff, or the ride is just queued behind the pool rather than shared.
+ * Null when nothing fits.
+ */
+const planInsertion = (pool, ride) => {
+  const newRide = { ...ride, seats: Number(ride.seats) || 1 };
+  const ridesById = { ...pool.ridesById, [newRide.id]: newRide };
+  const current = traceRoute(pool.start, pool.route, pool.ridesById);
+  const pickup = waypoint(newRide, 'pickup');
+  const dropoff = waypoint(newRide, 'dropoff');
+  const directKm = legDistance(pickup, dropoff);
+  const directPickupKm = legDistance(pool.start, pickup);
+  let best = null;
+
+  for (let i = 0; i < pool.route.length; i++) {
+    for (let j = i; j <= pool.route.length; j++) {
+      const route = [
+        ...pool.route.slice(0, i), pickup, ...pool.route.slice(i, j), dropoff, ...pool.route.slice(j)
+      ];
+      const trace = traceRoute(pool.start, route, ridesById);
+      if (trace.peakSeats > pool.capacity) continue;
+
+      const ownMarks = trace.marks[newRide.id];
+      if (ownMarks.dropoff - ownMarks.pickup - directKm > POOL_MAX_DETOUR_KM) continue;
+      if (ownMarks.pickup - directPickupKm > POOL_MAX_DETOUR_KM) continue;
+
+      const delaysCoRider = Object.keys(pool.ridesById).some(
+        id => trace.marks[id].dropoff - current.marks[id].dropoff > POOL_MAX_DETOUR_KM
+      );
+      if (delaysCoRider) continue;
+
+      if (!best || trace.length < best.trace.length) {
+        best = { route, trace };
+      }
+    }
+  }
+
+  if (!best) return null;
+  return {
+    ...best,
+    current,
+    detourKm: best.trace.length - current.length,
+    eta: Math.max(Math.round(best.trace.marks[newRide.id].pickup / POOL_AVG_SPEED_KMH * 60), 1)
+  };
+};
+
+/**
+ * Drivers already on shared trips near a requested shared ride who could take it along,
+ * smallest detour first. Rides with intermediate stops or too many seats are never pooled.
+ */
+const findPoolMatches = async (ride) => {
+  if (ride.ride_type !== 'shared' || Number(ride.seats) > MAX_POOL_SEATS) return [];
+
+  const [stops] = await db.execute('SELECT COUNT(*) AS count FROM ride_stops WHERE ride_id = ?', [ride.id]);
+  if (Number(stops[0].count) > 0) return [];
+
+  const [drivers] = await db.execute(`
+    SELECT DISTINCT r.driver_id,
+      (6371 * acos(cos(radians(?)) * cos(radians(dl.latitude)) * cos(radians(dl.longitude) - radians(?)) + sin(radians(?)) * sin(radians(dl.latitude)))) AS distance
+    FROM rides r
+    JOIN driver_locations dl ON dl.driver_id = r.driver_id
+    WHERE r.ride_type = 'shared' AND r.status IN ('accepted', 'in_progress')
+    HAVING distance <= ?
+    ORDER BY distance
+    LIMIT 10
+  `, [ride.pickup_lat, ride.pickup_lng, ride.pickup_lat, POOL_SEARCH_RADIUS_KM]);
+
+  const matches = [];
+  for (const { driver_id: driverId } of drivers) {
+    const pool = await loadDriverPool(db, driverId);
+    const plan = pool && planInsertion(pool, ride);
+    if (plan) {
+      matches.push({ driverId, detourKm: plan.detourKm, eta: plan.eta });
+    }
+  }
+
+  return matches.sort((a, b) => a.detourKm - b.detourKm);
+};
+
+/**
+ * Add a ride just accepted for `driverId` to the driver's pool inside the open transaction on
+ * `conn`. The plan is redone against locked rows; if the pool can no longer take the ride this
+ * throws POOL_UNAVAILABLE and the caller rolls the acceptance back.
+ *
+ * Every rider's pool discount grows by what the new sharing saves them. Savings already granted
+ * are kept if a co-rider later cancels.
+ */
+const joinPool = async (conn, driverId, rideId) => {
+  const [rides] = await conn.execute('SELECT * FROM rides WHERE id = ?', [rideId]);
+  const ride = rides[0];
+  const pool = await loadDriverPool(conn, driverId, { excludeRideId: rideId, lock: true });
+  const plan = pool && planInsertion(pool, ride);
+  if (!plan) {
+    throw Object.assign(httpError(409, 'This pool can no longer take the ride'), { code: 'POOL_UNAVAILABLE' });
+  }
+
+  const poolId = pool.poolId || newId('pool');
+  if (pool.poolId) {
+    await conn.execute('UPDATE ride_pools SET route = ? WHERE id = ?', [JSON.stringify(plan.route), poolId]);
+  } else {
+    await conn.execute(
+      'INSERT INTO ride_pools (id, driver_id, route, created_at) VALUES (?, ?, ?, NOW())',
+      [poolId, driverId, JSON.stringify(plan.route)]
+    );
+  }
+
+  const members = [...Object.values(pool.ridesById), ride];
+  for (const member of members) {
+    const gained = Math.max((plan.trace.savings[member.id] || 0) - (plan.current.savings[member.id] || 0), 0);
+    const payable = ridePayable(member);
+    const poolDiscount = roundAmount(Math.min((parseFloat(member.pool_discount) || 0) + gained, payable));
+
+    await conn.execute('UPDATE rides SET pool_id = ?, pool_discount = ? WHERE id = ?', [poolId, poolDiscount, member.id]);
+    // Capture takes the authorized amount, so it follows the discount
+    await conn.execute(
+      'UPDATE payments SET amount = ? WHERE ride_id = ? AND status = \'authorized\'',
+      [roundAmount(payable - poolDiscount), member.id]
+    );
+  }
+
+  return { poolId, driverId, rideId, rideIds: members.map(member => member.id) };
+};
+
+// Other unfinished rides in a pool, for telling co-riders the route changed
+const getPoolRideIds = async (conn, poolId, excludeRideId = null) => {
+  const [rows] = await conn.execute(
+    'SELECT id FROM rides WHERE pool_id = ? AND status IN (\'accepted\', \'in_progress\') AND id <> ?',
+    [poolId, excludeRideId || '']
+  );
+  return rows.map(row => row.id);
+};
+
+// Refresh co-riders' maps, and tell the driver when someone was added
+const publishPoolUpdate = ({ poolId, driverId, rideId, rideIds }) => {
+  rideIds.forEach(id => emitRideEvent(id, POOL_EVENTS.UPDATED, { pool_id: poolId }));
+  if (driverId && rideId) {
+    emitToUser(driverId, POOL_EVENTS.RIDER_ADDED, { pool_id: poolId, ride_id: rideId });
+  }
+};
+
+/**
+ * The pool a ride belongs to, as its rider or driver sees it: the remaining pickups and
+ * dropoffs in order, each flagged as the ride's own or a co-rider's.
+ */
+const getRidePool = async (rideId, actor) => {
+  const [rows] = await db.execute('SELECT * FROM rides WHERE id = ?', [rideId]);
+  const ride = rows[0];
+  if (!ride
+    || (actor.role === 'rider' && ride.user_id !== actor.id)
+    || (actor.role === 'driver' && ride.driver_id !== actor.id)) {
+    throw httpError(404, 'Ride not found');
+  }
+
+  const pool = ride.pool_id && ACTIVE_STATUSES.includes(ride.status)
+    ? await loadDriverPool(db, ride.driver_id)
+    : null;
+
+  return {
+    pool_id: ride.pool_id || null,
+    seats: Number(ride.seats) || 1,
+    pool_discount: parseFloat(ride.pool_discount) || 0,
+    co_riders: pool ? Object.keys(pool.ridesById).length - 1 : 0,
+    route: pool ? pool.route.map(point => ({
+      kind: point.kind,
+      location: { lat: point.lat, lng: point.lng, address: point.address },
+      is_own: point.ride_id === rideId
+    })) : []
+  };
+};
+
+module.exports = {
+  MAX_POOL_SEATS,
+  POOL_EVENTS,
+  traceRoute,
+  planInsertion,
+  findPoolMatches,
+  joinPool,
+  getPoolRideIds,
+  publishPoolUpdate,
+  getRidePool
+};
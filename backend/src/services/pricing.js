@@ -0,0 +1,173 @@
+const db = require('../config/database');
+const { encodeGeohash } = require('../utils/geohash');
+const { getRoute } = require('./routing');
+const { getSurgeMultiplier } = require('./surge');
+
+// Fallback for any rate no active pricing rule provides (per_stop_fee pays for the wait at each extra stop)
+const DEFAULT_PRICING = {
+  standard: { base_fare: 25.0, per_km_rate: 12.0, avg_speed_kmh: 25, per_stop_fee: 20.0, surge_multiplier: 1.0 },
+  premium: { base_fare: 40.0, per_km_rate: 18.0, avg_speed_kmh: 25, per_stop_fee: 30.0, surge_multiplier: 1.0 },
+  shared: { base_fare: 18.0, per_km_rate: 8.0, avg_speed_kmh: 25, per_stop_fee: 15.0, surge_multiplier: 1.0 }
+};
+
+const RATE_FIELDS = ['base_fare', 'per_km_rate', 'avg_speed_kmh', 'per_stop_fee'];
+const MIN_DURATION_MINUTES = 5;
+
+// Wait allowed at each intermediate stop, covered by its fee and added to the trip duration
+const STOP_WAIT_MINUTES = 3;
+const GEOHASH_PRECISION = 8;
+
+// Rules change rarely; admin writes invalidate the cache immediately
+const RULE_CACHE_TTL_MS = 30000;
+let ruleCache = null;
+
+const toNumber = (value) => (value === null || value === undefined ? null : parseFloat(value));
+
+// Normalize a pricing_rules row (DECIMAL columns arrive as strings)
+const formatPricingRule = (row) => ({
+  id: row.id,
+  name: row.name,
+  zone_geohash: row.zone_geohash,
+  ride_type: row.ride_type,
+  start_hour: row.start_hour,
+  end_hour: row.end_hour,
+  days_of_week: row.days_of_week ? row.days_of_week.split(',').map(Number) : null,
+  base_fare: toNumber(row.base_fare),
+  per_km_rate: toNumber(row.per_km_rate),
+  avg_speed_kmh: toNumber(row.avg_speed_kmh),
+  per_stop_fee: toNumber(row.per_stop_fee),
+  surge_multiplier: toNumber(row.surge_multiplier),
+  priority: row.priority,
+  is_active: Boolean(row.is_active),
+  created_at: row.created_at,
+  updated_at: row.updated_at
+});
+
+const loadPricingRules = async () => {
+  if (ruleCache && Date.now() - ruleCache.loadedAt < RULE_CACHE_TTL_MS) {
+    return ruleCache.rules;
+  }
+
+  const [rows] = await db.execute('SELECT * FROM pricing_rules WHERE is_active = 1');
+  ruleCache = { rules: rows.map(formatPricingRule), loadedAt: Date.now() };
+  return ruleCache.rules;
+};
+
+const invalidatePricingRules = () => {
+  ruleCache = null;
+};
+
+// Hours are [start_hour, end_hour); a window with start > end wraps past midnight
+const inTimeWindow = (rule, at) => {
+  if (rule.days_of_week && !rule.days_of_week.includes(at.getDay())) {
+    return false;
+  }
+  if (rule.start_hour === null || rule.end_hour === null) {
+    return true;
+  }
+
+  const hour = at.getHours();
+  return rule.start_hour < rule.end_hour
+    ? hour >= rule.start_hour && hour < rule.end_hour
+    : hour >= rule.start_hour || hour < rule.end_hour;
+};
+
+const ruleApplies = (rule, { ride_type, geohash, at }) =>
+  rule.is_active &&
+  (!rule.ride_type || rule.ride_type === ride_type) &&
+  (!rule.zone_geohash || geohash.startsWith(rule.zone_geohash)) &&
+  inTimeWindow(rule, at);
+
+// Higher priority first, then the narrower zone, ride type and time window
+const specificity = (rule) => [
+  rule.priority,
+  rule.zone_geohash ? rule.zone_geohash.length : 0,
+  rule.ride_type ? 1 : 0,
+  rule.start_hour !== null || rule.days_of_week ? 1 : 0
+];
+
+const compareRules = (a, b) => {
+  const [specA, specB] = [specificity(a), specificity(b)];
+  for (let i = 0; i < specA.length; i++) {
+    if (specA[i] !== specB[i]) return specB[i] - specA[i];
+  }
+  return a.id - b.id;
+};
+
+// Pure rule resolution: each rate comes from the most specific rule that sets it,
+// and the surge is the highest of any active surge window and the zone's demand surge
+const resolvePricing = (rules, { ride_type, pickup, at = new Date(), demand_surge = 1.0 }) => {
+  const geohash = encodeGeohash(pickup.lat, pickup.lng, GEOHASH_PRECISION);
+  const matching = rules
+    .filter(rule => ruleApplies(rule, { ride_type, geohash, at }))
+    .sort(compareRules);
+
+  const pricing = { ...(DEFAULT_PRICING[ride_type] || DEFAULT_PRICING.standard) };
+  RATE_FIELDS.forEach(field => {
+    const rule = matching.find(r => r[field] !== null);
+    if (rule) pricing[field] = rule[field];
+  });
+
+  const surges = matching.map(rule => rule.surge_multiplier).filter(value => value !== null);
+  pricing.surge_multiplier = Math.max(pricing.surge_multiplier, demand_surge, ...surges);
+
+  return pricing;
+};
+
+const formatAddress = (location) => location.address || `${location.lat.toFixed(4)}, ${location.lng.toFixed(4)}`;
+
+/**
+ * Pure fare calculation for resolved rates over a routed trip through the stops. Road routes
+ * bring their own driving time; straight-line ones are timed at the rule's average speed.
+ * Every seat pays the distance fare; the base fare and stop fees are per booking.
+ */
+const priceTrip = (pricing, pickup, dropoff, stops = [], route, seats = 1) => {
+  const distance = route.distance_km;
+  const distanceFare = distance * pricing.per_km_rate * seats;
+  const stopsFare = stops.length * pricing.per_stop_fee;
+  const totalFare = (pricing.base_fare + distanceFare + stopsFare) * pricing.surge_multiplier;
+  const drivingMinutes = route.approximate ? (distance / pricing.avg_speed_kmh) * 60 : route.duration_minutes;
+  const duration = Math.ceil(drivingMinutes) + stops.length * STOP_WAIT_MINUTES;
+
+  return {
+    distance: Math.round(distance * 100) / 100,
+    duration: Math.max(duration, MIN_DURATION_MINUTES),
+    base_fare: Math.round(pricing.base_fare * 100) / 100,
+    distance_fare: Math.round(distanceFare * 100) / 100,
+    stops_fare: Math.round(stopsFare * 100) / 100,
+    seats,
+    surge_multiplier: pricing.surge_multiplier,
+    total_fare: Math.round(totalFare * 100) / 100,
+    currency: 'INR',
+    pickup_address: formatAddress(pickup),
+    dropoff_address: formatAddress(dropoff),
+    stop_addresses: stops.map(formatAddress)
+  };
+};
+
+// Fare estimate shared by /estimate and the booking endpoints; pass `route` to price several
+// ride types over one routing lookup, and `at` to price a scheduled pickup. Demand surge is
+// measured now, so it only applies to rides priced for now.
+const calculateEstimate = async (pickup, dropoff, ride_type, { stops = [], seats = 1, at, route } = {}) => {
+  const [rules, trip] = await Promise.all([
+    loadPricingRules(),
+    route || getRoute([pickup, ...stops, dropoff])
+  ]);
+  const pricing = resolvePricing(rules, {
+    ride_type,
+    pickup,
+    at: at || new Date(),
+    demand_surge: at ? 1.0 : getSurgeMultiplier(pickup)
+  });
+  return priceTrip(pricing, pickup, dropoff, stops, trip, seats);
+};
+
+module.exports = {
+  DEFAULT_PRICING,
+  formatPricingRule,
+  loadPricingRules,
+  invalidatePricingRules,
+  resolvePricing,
+  priceTrip,
+  calculateEstimate
+};
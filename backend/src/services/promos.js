@@ -0,0 +1,114 @@
+const db = require('../config/database');
+const httpError = require('../utils/httpError');
+
+const promoError = (status, code, message) => Object.assign(httpError(status, message), { code });
+
+const normalizeCode = (code) => String(code || '').trim().toUpperCase();
+
+const formatPromo = (row) => ({
+  code: row.code,
+  discount_type: row.discount_type,
+  discount_value: parseFloat(row.discount_value),
+  min_fare: parseFloat(row.min_fare) || 0,
+  max_discount: row.max_discount !== null ? parseFloat(row.max_discount) : null,
+  expires_at: row.expires_at
+});
+
+// Discount for a fare, capped by max_discount and never more than the fare itself
+const calculateDiscount = (promo, fare) => {
+  const value = parseFloat(promo.discount_value);
+  let discount = promo.discount_type === 'percentage' ? fare * value / 100 : value;
+
+  if (promo.max_discount !== null && promo.max_discount !== undefined) {
+    discount = Math.min(discount, parseFloat(promo.max_discount));
+  }
+
+  return Math.round(Math.min(discount, fare) * 100) / 100;
+};
+
+// Throw the reason a promo can't be used; `fare` is skipped when the trip isn't priced yet
+const assertPromoUsable = async (conn, promo, userId, fare) => {
+  if (!promo || !promo.is_active) {
+    throw promoError(404, 'PROMO_NOT_FOUND', 'Promo code not found');
+  }
+  if (new Date(promo.expires_at) <= new Date()) {
+    throw promoError(409, 'PROMO_EXPIRED', 'This promo code has expired');
+  }
+  if (promo.usage_limit !== null && promo.used_count >= promo.usage_limit) {
+    throw promoError(409, 'PROMO_EXHAUSTED', 'This promo code has reached its usage limit');
+  }
+
+  const [redemptions] = await conn.execute(
+    'SELECT id FROM promo_redemptions WHERE promo_code_id = ? AND user_id = ?',
+    [promo.id, userId]
+  );
+  if (redemptions.length > 0) {
+    throw promoError(409, 'PROMO_ALREADY_USED', 'You have already used this promo code');
+  }
+
+  const minFare = parseFloat(promo.min_fare) || 0;
+  if (fare !== undefined && fare < minFare) {
+    throw promoError(400, 'PROMO_BELOW_MIN_FARE', `This promo code needs a fare of at least ₹${Math.round(minFare)}`);
+  }
+};
+
+// Check a promo for a rider without using it; returns the promo and, when priced, the discount
+const validatePromo = async (code, userId, fare) => {
+  const [rows] = await db.execute('SELECT * FROM promo_codes WHERE code = ?', [normalizeCode(code)]);
+  const promo = rows[0];
+
+  await assertPromoUsable(db, promo, userId, fare);
+
+  return {
+    promo: formatPromo(promo),
+    discount_amount: fare !== undefined ? calculateDiscount(promo, fare) : undefined
+  };
+};
+
+/**
+ * Use a promo for a ride inside an open transaction on `conn`.
+ * The promo row is locked so used_count can't exceed usage_limit under concurrent bookings.
+ */
+const redeemPromo = async (conn, { code, userId, rideId, fare }) => {
+  const [rows] = await conn.execute(
+    'SELECT * FROM promo_codes WHERE code = ? FOR UPDATE',
+    [normalizeCode(code)]
+  );
+  const promo = rows[0];
+
+  await assertPromoUsable(conn, promo, userId, fare);
+
+  const discount = calculateDiscount(promo, fare);
+
+  await conn.execute('UPDATE promo_codes SET used_count = used_count + 1 WHERE id = ?', [promo.id]);
+  await conn.execute(
+    `INSERT INTO promo_redemptions (promo_code_id, user_id, ride_id, discount_amount, redeemed_at)
+     VALUES (?, ?, ?, ?, NOW())`,
+    [promo.id, userId, rideId, discount]
+  );
+
+  return { promo_code_id: promo.id, code: promo.code, discount_amount: discount };
+};
+
+// Give a promo back when its ride is cancelled
+const releasePromo = async (conn, ride) => {
+  const [result] = await conn.execute(
+    'DELETE FROM promo_redemptions WHERE promo_code_id = ? AND ride_id = ?',
+    [ride.promo_code_id, ride.id]
+  );
+
+  if (result.affectedRows > 0) {
+    await conn.execute(
+      'UPDATE promo_codes SET used_count = GREATEST(used_count - 1, 0) WHERE id = ?',
+      [ride.promo_code_id]
+    );
+  }
+};
+
+module.exports = {
+  normalizeCode,
+  calculateDiscount,
+  validatePromo,
+  redeemPromo,
+  releasePromo
+};
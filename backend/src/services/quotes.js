@@ -0,0 +1,77 @@
+const jwt = require('jsonwebtoken');
+const httpError = require('../utils/httpError');
+
+// A quote locks the estimated price for a short time so booking charges what the rider saw
+const QUOTE_TTL_SECONDS = parseInt(process.env.QUOTE_TTL_SECONDS, 10) || 300;
+const QUOTE_SECRET = process.env.QUOTE_SECRET || process.env.JWT_SECRET || 'rideshare-secret-key';
+
+// ~1 m tolerance so float round-trips through the client don't invalidate a quote
+const COORDINATE_TOLERANCE = 0.00001;
+
+const sameCoordinates = (a, b) =>
+  Math.abs(Number(a.lat) - Number(b.lat)) < COORDINATE_TOLERANCE &&
+  Math.abs(Number(a.lng) - Number(b.lng)) < COORDINATE_TOLERANCE;
+
+const sameStops = (a = [], b = []) => a.length === b.length && a.every((stop, index) => sameCoordinates(stop, b[index]));
+
+const toPoint = (location) => ({ lat: Number(location.lat), lng: Number(location.lng) });
+
+// Scheduled pickups are priced for their time, so a quote only covers the pickup time it was made for
+const toPickupTime = (scheduledFor) => (scheduledFor ? new Date(scheduledFor).getTime() : null);
+
+// Sign an estimate for one rider, ride type, route, seat count and pickup time; returns the fields added to the estimate
+const issueQuote = (userId, { pickup, dropoff, stops = [], seats = 1, ride_type, scheduled_for }, estimate) => {
+  const quoteId = jwt.sign(
+    {
+      sub: userId,
+      ride_type,
+      pickup: toPoint(pickup),
+      dropoff: toPoint(dropoff),
+      stops: stops.map(toPoint),
+      seats,
+      scheduled_for: toPickupTime(scheduled_for),
+      estimate
+    },
+    QUOTE_SECRET,
+    { expiresIn: QUOTE_TTL_SECONDS }
+  );
+
+  return {
+    quote_id: quoteId,
+    quote_expires_at: new Date(Date.now() + QUOTE_TTL_SECONDS * 1000).toISOString()
+  };
+};
+
+// Return the locked estimate for a quote, or throw 409 (expired) / 400 (invalid or mismatched)
+const redeemQuote = (quoteId, userId, { pickup, dropoff, stops = [], seats = 1, ride_type, scheduled_for }) => {
+  let payload;
+
+  try {
+    payload = jwt.verify(quoteId, QUOTE_SECRET);
+  } catch (error) {
+    if (error.name === 'TokenExpiredError') {
+      throw Object.assign(httpError(409, 'Your price quote has expired'), { code: 'QUOTE_EXPIRED' });
+    }
+    throw Object.assign(httpError(400, 'Invalid price quote'), { code: 'QUOTE_INVALID' });
+  }
+
+  if (
+    payload.sub !== userId ||
+    payload.ride_type !== ride_type ||
+    !sameCoordinates(payload.pickup, pickup) ||
+    !sameCoordinates(payload.dropoff, dropoff) ||
+    !sameStops(payload.stops, stops) ||
+    (payload.seats || 1) !== seats ||
+    (payload.scheduled_for || null) !== toPickupTime(scheduled_for)
+  ) {
+    throw Object.assign(httpError(400, 'Price quote does not match this ride'), { code: 'QUOTE_MISMATCH' });
+  }
+
+  return payload.estimate;
+};
+
+module.exports = {
+  QUOTE_TTL_SECONDS,
+  issueQuote,
+  redeemQuote
+};
@@ -0,0 +1,138 @@
+const db = require('../config/database');
+const httpError = require('../utils/httpError');
+
+// Ratings older than this many trips fade out of a driver's average
+const RATING_WINDOW = parseInt(process.env.RATING_WINDOW, 10) || 100;
+
+// The rating an account starts with (or was seeded with) counts as this many trips, so the
+// first few ratings adjust it rather than replace it
+const RATING_PRIOR_WEIGHT = parseInt(process.env.RATING_PRIOR_WEIGHT, 10) || 5;
+
+const ratingError = (status, code, message) => Object.assign(httpError(status, message), { code });
+
+/**
+ * Fold one new rating into a running average without rescanning history. Each rating counts as
+ * 1 / (n + 1) of the result, where n is the ratings so far plus the starting rating's prior
+ * weight, capped at RATING_WINDOW so recent trips keep moving the score.
+ */
+const rollingAverage = (current, count, rating) => {
+  const weight = Math.min(count + RATING_PRIOR_WEIGHT, RATING_WINDOW);
+  return Math.round(((current * weight + rating) / (weight + 1)) * 100) / 100;
+};
+
+const formatRating = (row) => ({
+  ride_id: row.ride_id,
+  rater_role: row.rater_role,
+  rating: row.rating,
+  tags: typeof row.tags === 'string' ? JSON.parse(row.tags) : row.tags || [],
+  comment: row.comment || undefined,
+  created_at: row.created_at
+});
+
+// Who rates whom: the ratee comes from the ride, and their running average lives on `table`
+const RATING_SUBJECTS = {
+  rider: {
+    rateeColumn: 'driver_id',
+    table: 'drivers',
+    ratingColumn: 'rating',
+    countColumn: 'rating_count',
+    isRater: (ride, userId) => ride.user_id === userId
+  },
+  driver: {
+    rateeColumn: 'user_id',
+    table: 'users',
+    ratingColumn: 'rider_rating',
+    countColumn: 'rider_rating_count',
+    isRater: (ride, userId) => ride.driver_id === userId
+  }
+};
+
+/**
+ * Record one side's rating of a completed ride and fold it into the other side's average,
+ * in one transaction. `raterRole` is 'rider' (rating the driver) or 'driver' (rating the rider).
+ */
+const submitRating = async (rideId, raterRole, raterId, { rating, tags = [], comment }) => {
+  const subject = RATING_SUBJECTS[raterRole];
+  const conn = await db.getConnection();
+
+  try {
+    await conn.beginTransaction();
+
+    const [rides] = await conn.execute('SELECT * FROM rides WHERE id = ? FOR UPDATE', [rideId]);
+    const ride = rides[0];
+    if (!ride) {
+      throw httpError(404, 'Ride not found');
+    }
+    if (!subject.isRater(ride, raterId)) {
+      throw httpError(403, 'You can only rate your own rides');
+    }
+    if (ride.status !== 'completed' || !ride.driver_id) {
+      throw ratingError(409, 'RIDE_NOT_COMPLETED', 'Only completed rides can be rated');
+    }
+
+    const [existing] = await conn.execute(
+      'SELECT id FROM ride_ratings WHERE ride_id = ? AND rater_role = ?',
+      [rideId, raterRole]
+    );
+    if (existing.length > 0) {
+      throw ratingError(409, 'RATING_EXISTS', 'You have already rated this ride');
+    }
+
+    const rateeId = ride[subject.rateeColumn];
+    await conn.execute(
+      `INSERT INTO ride_ratings (ride_id, rater_role, rater_id, ratee_id, rating, tags, comment, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, NOW())`,
+      [rideId, raterRole, raterId, rateeId, rating, JSON.stringify(tags), comment || null]
+    );
+    if (raterRole === 'rider') {
+      await conn.execute('UPDATE rides SET rating = ? WHERE id = ?', [rating, rideId]);
+    }
+
+    const [ratees] = await conn.execute(
+      `SELECT ${subject.ratingColumn} AS rating, ${subject.countColumn} AS rating_count
+       FROM ${subject.table} WHERE id = ? FOR UPDATE`,
+      [rateeId]
+    );
+    const average = rollingAverage(
+      parseFloat(ratees[0].rating) || 0,
+      ratees[0].rating_count || 0,
+      rating
+    );
+    await conn.execute(
+      `UPDATE ${subject.table}
+       SET ${subject.ratingColumn} = ?, ${subject.countColumn} = ${subject.countColumn} + 1
+       WHERE id = ?`,
+      [average, rateeId]
+    );
+
+    await conn.commit();
+
+    return {
+      rating: formatRating({ ride_id: rideId, rater_role: raterRole, rating, tags, comment, created_at: new Date() }),
+      average
+    };
+  } catch (error) {
+    await conn.rollback();
+    throw error;
+  } finally {
+    conn.release();
+  }
+};
+
+// The rider rates the driver of one of their completed rides
+const rateDriver = async (rideId, userId, rating) => {
+  const { rating: saved, average } = await submitRating(rideId, 'rider', userId, rating);
+  return { rating: saved, driver_rating: average };
+};
+
+// The driver rates the rider of a ride they completed
+const rateRider = async (rideId, driverId, rating) => {
+  const { rating: saved, average } = await submitRating(rideId, 'driver', driverId, rating);
+  return { rating: saved, rider_rating: average };
+};
+
+module.exports = {
+  rollingAverage,
+  rateDriver,
+  rateRider
+};
@@ -0,0 +1,50 @@
+// Shared Socket.IO handle so HTTP routes can push ride updates to clients
+let io = null;
+
+// Ride lifecycle events, emitted to the room of the ride they belong to
+const RIDE_EVENTS = {
+  RELEASED: 'ride:released',
+  ACCEPTED: 'ride:accepted',
+  DRIVER_ARRIVING: 'ride:driver_arriving',
+  STARTED: 'ride:started',
+  STOP_ARRIVED: 'ride:stop_arrived',
+  COMPLETED: 'ride:completed',
+  CANCELLED: 'ride:cancelled'
+};
+
+const setIo = (instance) => {
+  io = instance;
+};
+
+const rideRoom = (rideId) => `ride:${rideId}`;
+const userRoom = (userId) => `user:${userId}`;
+
+// Emit a lifecycle event to everyone following a ride (rider and driver)
+const emitRideEvent = (rideId, event, data = {}) => {
+  if (!io) return;
+
+  io.to(rideRoom(rideId)).emit(event, {
+    ride_id: rideId,
+    ...data,
+    timestamp: new Date().toISOString()
+  });
+};
+
+// Emit an event to every socket of a single user or driver
+const emitToUser = (userId, event, data = {}) => {
+  if (!io) return;
+
+  io.to(userRoom(userId)).emit(event, {
+    ...data,
+    timestamp: new Date().toISOString()
+  });
+};
+
+module.exports = {
+  RIDE_EVENTS,
+  setIo,
+  rideRoom,
+  userRoom,
+  emitRideEvent,
+  emitToUser
+};
@@ -0,0 +1,160 @@
+const PDFDocument = require('pdfkit');
+
+const RIDE_TYPE_NAMES = {
+  standard: 'RideShare Go',
+  premium: 'RideShare Premier',
+  shared: 'RideShare Pool'
+};
+
+const CARD_BRAND_NAMES = {
+  visa: 'Visa',
+  mastercard: 'Mastercard',
+  rupay: 'RuPay',
+  amex: 'American Express'
+};
+
+// The built-in PDF fonts have no rupee sign, so amounts are written as "INR 123.45"
+const formatAmount = (amount) => `INR ${amount.toFixed(2)}`;
+
+const formatDate = (value) => (value ? new Date(value).toISOString().replace('T', ' ').slice(0, 16) + ' UTC' : '');
+
+const paymentMethodLabel = (method) => {
+  if (!method || !method.payment_type) return '';
+  if (method.label) return method.label;
+  if (method.payment_type === 'wallet') return 'Wallet';
+  if (method.payment_type === 'upi') return `UPI ${method.upi_handle || ''}`.trim();
+  return `${CARD_BRAND_NAMES[method.card_brand] || 'Card'} **** ${method.card_last_four || ''}`.trim();
+};
+
+/**
+ * Write a one-page PDF receipt (the shape returned by getTripReceipt) to a writable stream.
+ * The caller owns the stream; the document is ended here.
+ */
+const writeReceiptPdf = (receipt, output) => {
+  const { ride, rider, driver, fare_breakdown: fare, payment } = receipt;
+  const doc = new PDFDocument({ size: 'A4', margin: 50, info: { Title: `Receipt ${ride.id}` } });
+  doc.pipe(output);
+
+  const line = (label, value, options = {}) => {
+    const y = doc.y;
+    doc.font(options.bold ? 'Helvetica-Bold' : 'Helvetica').fontSize(options.size || 11);
+    doc.text(label, 50, y, { width: 300 });
+    doc.text(value, 350, y, { width: 195, align: 'right' });
+    doc.moveDown(0.4);
+  };
+
+  const section = (title) => {
+    doc.moveDown(0.8);
+    doc.font('Helvetica-Bold').fontSize(13).text(title, 50);
+    doc.moveTo(50, doc.y + 2).lineTo(545, doc.y + 2).strokeColor('#cccccc').stroke();
+    doc.moveDown(0.6);
+  };
+
+  doc.font('Helvetica-Bold').fontSize(22).text('RideShare', 50, 50);
+  doc.font('Helvetica').fontSize(11).fillColor('#555555')
+    .text(`Receipt for ride ${ride.id}`)
+    .text(formatDate(ride.completed_at || ride.cancelled_at || ride.created_at))
+    .fillColor('black');
+
+  if (rider) {
+    section('Billed to');
+    doc.font('Helvetica').fontSize(11).text(rider.name).text(rider.email);
+  }
+
+  section('Trip');
+  line('Ride type', RIDE_TYPE_NAMES[ride.ride_type] || ride.ride_type);
+  line('Status', ride.status.replace('_', ' '));
+  line('From', ride.pickup.address || `${ride.pickup.lat}, ${ride.pickup.lng}`);
+  (ride.stops || []).forEach(stop => {
+    line(`Stop ${stop.stop_order}`, stop.location.address || `${stop.location.lat}, ${stop.location.lng}`);
+  });
+  line('To', ride.dropoff.address || `${ride.dropoff.lat}, ${ride.dropoff.lng}`);
+  if (ride.distance_km !== undefined) line('Distance', `${ride.distance_km} km`);
+  if (ride.duration_minutes !== undefined) line('Duration', `${ride.duration_minutes} min`);
+  if (ride.scheduled_for) line('Scheduled pickup', formatDate(ride.scheduled_for));
+  if (ride.started_at) line('Started', formatDate(ride.started_at));
+  if (ride.completed_at) line('Completed', formatDate(ride.completed_at));
+
+  if (driver) {
+    section('Driver');
+    line('Name', driver.name);
+    line('Vehicle', `${driver.vehicle_type} (${driver.license_plate})`);
+  }
+
+  section('Fare');
+  if (fare.base_fare !== undefined && fare.distance_fare !== undefined) {
+    line('Base fare', formatAmount(fare.base_fare));
+    line('Distance fare', formatAmount(fare.distance_fare));
+    if (fare.stops_fare > 0) line('Stops', formatAmount(fare.stops_fare));
+  } else {
+    line('Trip fare', formatAmount(fare.subtotal));
+  }
+  if (fare.surge_multiplier > 1) {
+    line(`Surge (${fare.surge_multiplier.toFixed(2)}x)`, formatAmount(fare.surge_amount));
+  }
+  if (fare.discount_amount > 0) {
+    line(fare.promo_code ? `Promo ${fare.promo_code}` : 'Discount', `-${formatAmount(fare.discount_amount)}`);
+  }
+  if (fare.pool_discount > 0) {
+    line('Shared with co-riders', `-${formatAmount(fare.pool_discount)}`);
+  }
+  // A late-cancelled ride's total is the fee it was charged, not the fare above
+  line(fare.cancellation_fee > 0 ? 'Late cancellation fee charged' : 'Total', formatAmount(fare.total), {
+    bold: true,
+    size: 13
+  });
+  line(`Includes GST (${(fare.tax_rate * 100).toFixed(0)}%)`, formatAmount(fare.tax_amount));
+
+  if (payment) {
+    section('Payment');
+    line('Method', paymentMethodLabel(payment.method) || payment.provider);
+    line('Status', payment.status);
+    if (payment.completed_at) line('Paid on', formatDate(payment.completed_at));
+  }
+
+  doc.end();
+};
+
+const CSV_COLUMNS = [
+  ['ride_id', trip => trip.ride.id],
+  ['date', trip => formatDate(trip.ride.created_at)],
+  ['status', trip => trip.ride.status],
+  ['ride_type', trip => trip.ride.ride_type],
+  ['pickup', trip => trip.ride.pickup.address],
+  ['dropoff', trip => trip.ride.dropoff.address],
+  ['distance_km', trip => trip.ride.distance_km],
+  ['duration_minutes', trip => trip.ride.duration_minutes],
+  ['stops_fare', trip => trip.fare_breakdown.stops_fare.toFixed(2)],
+  ['fare', trip => trip.fare_breakdown.fare.toFixed(2)],
+  ['surge_multiplier', trip => trip.fare_breakdown.surge_multiplier],
+  ['discount', trip => trip.fare_breakdown.discount_amount.toFixed(2)],
+  ['promo_code', trip => trip.fare_breakdown.promo_code],
+  ['pool_discount', trip => trip.fare_breakdown.pool_discount.toFixed(2)],
+  ['tax', trip => trip.fare_breakdown.tax_amount.toFixed(2)],
+  ['total', trip => trip.fare_breakdown.total.toFixed(2)],
+  ['cancellation_fee', trip => trip.fare_breakdown.cancellation_fee.toFixed(2)],
+  ['currency', trip => trip.fare_breakdown.currency],
+  ['payment_method', trip => (trip.payment ? paymentMethodLabel(trip.payment.method) : '')],
+  ['payment_status', trip => (trip.payment ? trip.payment.status : '')]
+];
+
+// Quote fields with separators or quotes; prefix formula-like values so spreadsheets don't evaluate them
+const csvField = (value) => {
+  if (value === undefined || value === null) return '';
+  let text = String(value);
+  if (/^[=+\-@]/.test(text) && Number.isNaN(Number(text))) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// CSV export of trips (the shape returned by getTripExport)
+const tripsToCsv = (trips) => [
+  CSV_COLUMNS.map(([header]) => header).join(','),
+  ...trips.map(trip => CSV_COLUMNS.map(([, value]) => csvField(value(trip))).join(','))
+].join('\r\n') + '\r\n';
+
+module.exports = {
+  writeReceiptPdf,
+  tripsToCsv
+};
@@ -0,0 +1,220 @@
+const db = require('../config/database');
+const httpError = require('../utils/httpError');
+const { RIDE_EVENTS, emitRideEvent } = require('./realtime');
+const { releasePromo } = require('./promos');
+const { captureRidePayment, cancelRidePayment } = require('./payments');
+const { getPoolRideIds, publishPoolUpdate } = require('./pooling');
+const { formatRide, formatRideDriver } = require('../utils/rideFormatter');
+
+// Riders who cancel a scheduled ride closer to pickup than this pay a flat fee instead of a full release
+const SCHEDULED_FREE_CANCEL_MINUTES = parseInt(process.env.SCHEDULED_FREE_CANCEL_MINUTES, 10) || 60;
+const LATE_CANCELLATION_FEE = parseFloat(process.env.LATE_CANCELLATION_FEE) || 50;
+
+// Allowed moves: (scheduled → release →) requested → accepted → (arrive) → in_progress → completed, or → cancelled
+const RIDE_TRANSITIONS = {
+  release: {
+    from: ['scheduled'],
+    to: 'requested',
+    stamp: 'released_at',
+    roles: ['system'],
+    event: RIDE_EVENTS.RELEASED
+  },
+  accept: {
+    from: ['requested'],
+    to: 'accepted',
+    stamp: 'accepted_at',
+    roles: ['driver'],
+    event: RIDE_EVENTS.ACCEPTED
+  },
+  arrive: {
+    from: ['accepted'],
+    to: 'accepted',
+    stamp: 'arrived_at',
+    roles: ['driver'],
+    event: RIDE_EVENTS.DRIVER_ARRIVING
+  },
+  start: {
+    from: ['accepted'],
+    to: 'in_progress',
+    stamp: 'started_at',
+    roles: ['driver'],
+    event: RIDE_EVENTS.STARTED
+  },
+  complete: {
+    from: ['in_progress'],
+    to: 'completed',
+    stamp: 'completed_at',
+    roles: ['driver'],
+    event: RIDE_EVENTS.COMPLETED
+  },
+  cancel: {
+    from: ['scheduled', 'requested', 'accepted'],
+    to: 'cancelled',
+    stamp: 'cancelled_at',
+    roles: ['rider', 'driver', 'system'],
+    event: RIDE_EVENTS.CANCELLED
+  }
+};
+
+const canTransition = (status, action) => Boolean(RIDE_TRANSITIONS[action]?.from.includes(status));
+
+// Make sure the actor is a party to this ride
+const assertActorAllowed = (ride, action, actor) => {
+  const transition = RIDE_TRANSITIONS[action];
+
+  if (!transition.roles.includes(actor.role)) {
+    throw httpError(403, `A ${actor.role} cannot ${action} a ride`);
+  }
+  if (actor.role === 'rider' && ride.user_id !== actor.id) {
+    throw httpError(404, 'Ride not found');
+  }
+  if (actor.role === 'driver' && action !== 'accept' && ride.driver_id !== actor.id) {
+    throw httpError(404, 'Ride not found');
+  }
+};
+
+// Fee for a rider calling off a scheduled ride inside the free cancellation window, capped at what they'd pay
+const cancellationFee = (ride, actor) => {
+  if (actor.role !== 'rider' || !ride.scheduled_for) return 0;
+
+  const minutesToPickup = (new Date(ride.scheduled_for).getTime() - Date.now()) / 60000;
+  if (minutesToPickup >= SCHEDULED_FREE_CANCEL_MINUTES) return 0;
+
+  const payable = Math.max(
+    (parseFloat(ride.fare) || 0) - (parseFloat(ride.discount_amount) || 0) - (parseFloat(ride.pool_discount) || 0),
+    0
+  );
+  return Math.min(LATE_CANCELLATION_FEE, payable);
+};
+
+/**
+ * Apply a transition inside an open transaction on `conn`.
+ * Returns the updated ride and a `publish` callback to run after commit.
+ */
+const applyTransition = async (conn, rideId, action, actor, details = {}) => {
+  const transition = RIDE_TRANSITIONS[action];
+  if (!transition) {
+    throw httpError(400, `Unknown ride action: ${action}`);
+  }
+
+  const [rows] = await conn.execute('SELECT * FROM rides WHERE id = ? FOR UPDATE', [rideId]);
+  const ride = rows[0];
+  if (!ride) {
+    throw httpError(404, 'Ride not found');
+  }
+
+  assertActorAllowed(ride, action, actor);
+
+  if (!canTransition(ride.status, action)) {
+    throw httpError(409, `Cannot ${action} a ride that is ${ride.status}`);
+  }
+  if (action === 'accept' && ride.driver_id) {
+    throw httpError(409, 'This ride has already been taken');
+  }
+  if (action === 'arrive' && ride.arrived_at) {
+    throw httpError(409, 'Driver has already arrived at pickup');
+  }
+
+  const driverId = action === 'accept' ? actor.id : ride.driver_id;
+  const fee = action === 'cancel' ? cancellationFee(ride, actor) : 0;
+  if (fee > 0) {
+    details = { ...details, cancellation_fee: fee };
+  }
+
+  await conn.execute(
+    `UPDATE rides SET status = ?, ${transition.stamp} = NOW(), driver_id = ? WHERE id = ?`,
+    [transition.to, driverId, rideId]
+  );
+  if (fee > 0) {
+    await conn.execute('UPDATE rides SET cancellation_fee = ? WHERE id = ?', [fee, rideId]);
+  }
+
+  await conn.execute(
+    `INSERT INTO ride_status_history (ride_id, action, from_status, to_status, actor_id, actor_role, details, created_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, NOW())`,
+    [rideId, action, ride.status, transition.to, actor.id || null, actor.role, JSON.stringify(details)]
+  );
+
+  // Keep driver availability in step with the trip
+  if (driverId) {
+    if (action === 'accept') {
+      await conn.execute('UPDATE drivers SET status = \'busy\' WHERE id = ?', [driverId]);
+    } else if (action === 'complete' || action === 'cancel') {
+      // A pooling driver stays busy until the last co-rider is dropped off
+      await conn.execute(
+        `UPDATE drivers SET status = 'online' WHERE id = ? AND status = 'busy'
+         AND NOT EXISTS (SELECT 1 FROM rides WHERE driver_id = ? AND status IN ('accepted', 'in_progress') AND id <> ?)`,
+        [driverId, driverId, rideId]
+      );
+    }
+  }
+
+  // Payment settles in the same transaction as the trip: captured on completion, released on cancel
+  if (action === 'complete') {
+    await captureRidePayment(conn, rideId);
+  } else if (action === 'cancel') {
+    await cancelRidePayment(conn, rideId, details.reason, fee);
+    // A cancelled ride also gives its promo back
+    if (ride.promo_code_id) {
+      await releasePromo(conn, ride);
+    }
+  }
+
+  const [updated] = await conn.execute('SELECT * FROM rides WHERE id = ?', [rideId]);
+
+  // Co-riders' routes change when someone in the pool gets on, off or drops out
+  const coRiderIds = ride.pool_id && ['start', 'complete', 'cancel'].includes(action)
+    ? await getPoolRideIds(conn, ride.pool_id, rideId)
+    : [];
+
+  let driver;
+  if (driverId && (action === 'accept' || action === 'arrive')) {
+    const [drivers] = await conn.execute(
+      'SELECT id, name, phone, vehicle_type, license_plate, rating FROM drivers WHERE id = ?',
+      [driverId]
+    );
+    driver = drivers[0] ? formatRideDriver(drivers[0]) : undefined;
+  }
+
+  const publish = () => {
+    emitRideEvent(rideId, transition.event, {
+      status: transition.to,
+      driver,
+      eta: details.eta,
+      cancelled_by: action === 'cancel' ? actor.role : undefined,
+      reason: details.reason,
+      cancellation_fee: fee || undefined
+    });
+    if (coRiderIds.length > 0) {
+      publishPoolUpdate({ poolId: ride.pool_id, rideIds: coRiderIds });
+    }
+  };
+
+  return { ride: formatRide(updated[0]), publish };
+};
+
+// Run a single transition in its own transaction and notify subscribers
+const transitionRide = async (rideId, action, actor, details = {}) => {
+  const conn = await db.getConnection();
+
+  try {
+    await conn.beginTransaction();
+    const { ride, publish } = await applyTransition(conn, rideId, action, actor, details);
+    await conn.commit();
+    publish();
+    return ride;
+  } catch (error) {
+    await conn.rollback();
+    throw error;
+  } finally {
+    conn.release();
+  }
+};
+
+module.exports = {
+  SCHEDULED_FREE_CANCEL_MINUTES,
+  RIDE_TRANSITIONS,
+  canTransition,
+  applyTransition,
+  transitionRide
+};
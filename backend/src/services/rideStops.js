@@ -0,0 +1,88 @@
+const db = require('../config/database');
+const httpError = require('../utils/httpError');
+const { RIDE_EVENTS, emitRideEvent } = require('./realtime');
+
+// Intermediate stops a rider can add between pickup and dropoff
+const MAX_RIDE_STOPS = 3;
+
+const formatStop = (row) => ({
+  stop_order: row.stop_order,
+  location: {
+    lat: parseFloat(row.lat),
+    lng: parseFloat(row.lng),
+    address: row.address || undefined
+  },
+  arrived_at: row.arrived_at || undefined
+});
+
+// Record a new ride's stops inside the booking transaction on `conn`
+const insertRideStops = async (conn, rideId, stops, addresses = []) => {
+  for (const [index, stop] of stops.entries()) {
+    await conn.execute(
+      'INSERT INTO ride_stops (ride_id, stop_order, lat, lng, address) VALUES (?, ?, ?, ?, ?)',
+      [rideId, index + 1, stop.lat, stop.lng, addresses[index] || stop.address || null]
+    );
+  }
+};
+
+const getRideStops = async (rideId, conn = db) => {
+  const [rows] = await conn.execute('SELECT * FROM ride_stops WHERE ride_id = ? ORDER BY stop_order', [rideId]);
+  return rows.map(formatStop);
+};
+
+/**
+ * The driver reached a stop on a trip in progress. Stops are visited in order, so every
+ * earlier stop must already be marked. Returns the ride's stops.
+ */
+const markStopArrived = async (rideId, driverId, stopOrder) => {
+  const conn = await db.getConnection();
+  let stops;
+
+  try {
+    await conn.beginTransaction();
+
+    const [rides] = await conn.execute('SELECT driver_id, status FROM rides WHERE id = ? FOR UPDATE', [rideId]);
+    const ride = rides[0];
+    if (!ride || ride.driver_id !== driverId) {
+      throw httpError(404, 'Ride not found');
+    }
+    if (ride.status !== 'in_progress') {
+      throw httpError(409, `Cannot reach a stop on a ride that is ${ride.status}`);
+    }
+
+    stops = await getRideStops(rideId, conn);
+    const stop = stops.find(s => s.stop_order === stopOrder);
+    if (!stop) {
+      throw httpError(404, 'Stop not found');
+    }
+    if (stop.arrived_at) {
+      throw httpError(409, 'Already arrived at this stop');
+    }
+    if (stops.some(s => s.stop_order < stopOrder && !s.arrived_at)) {
+      throw httpError(409, 'Earlier stops must be reached first');
+    }
+
+    await conn.execute(
+      'UPDATE ride_stops SET arrived_at = NOW() WHERE ride_id = ? AND stop_order = ?',
+      [rideId, stopOrder]
+    );
+    stop.arrived_at = new Date();
+
+    await conn.commit();
+  } catch (error) {
+    await conn.rollback();
+    throw error;
+  } finally {
+    conn.release();
+  }
+
+  emitRideEvent(rideId, RIDE_EVENTS.STOP_ARRIVED, { status: 'in_progress', stop_order: stopOrder });
+  return stops;
+};
+
+module.exports = {
+  MAX_RIDE_STOPS,
+  insertRideStops,
+  getRideStops,
+  markStopArrived
+};
@@ -0,0 +1,45 @@
+const { getRoutingProvider, straightLine } = require('./routingProviders');
+
+/**
+ * Road route through `points` ({ lat, lng } in driving order). When the configured router is
+ * down, slow or can't route, this degrades to straight lines rather than failing the caller.
+ * Resolves to { distance_km, duration_minutes, polyline, legs, provider, approximate }.
+ */
+const getRoute = async (points) => {
+  const provider = getRoutingProvider();
+
+  if (provider !== straightLine) {
+    try {
+      const route = await provider.route(points);
+      return { ...route, provider: provider.name, approximate: false };
+    } catch (error) {
+      console.error('Routing error, falling back to straight line:', error.message);
+    }
+  }
+
+  const route = await straightLine.route(points);
+  return { ...route, provider: straightLine.name, approximate: true };
+};
+
+// Route as sent to clients, without the per-leg breakdown
+const formatRoute = (route) => ({
+  distance_km: Math.round(route.distance_km * 100) / 100,
+  duration_minutes: Math.ceil(route.duration_minutes),
+  polyline: route.polyline,
+  provider: route.provider,
+  approximate: route.approximate
+});
+
+// Driving minutes from each origin to `destination`, in origin order
+const getEtas = (origins, destination) => Promise.all(
+  origins.map(async origin => {
+    const route = await getRoute([origin, destination]);
+    return Math.max(1, Math.ceil(route.duration_minutes));
+  })
+);
+
+module.exports = {
+  getRoute,
+  getEtas,
+  formatRoute
+};
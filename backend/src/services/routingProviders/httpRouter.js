@@ -0,0 +1,50 @@
+// Road routing over HTTP against an OSRM server, or Valhalla asked for OSRM-shaped responses,
+// so a local OSRM container (e.g. osrm/osrm-backend on :5000) can stand in for a hosted router
+const ROUTING_BASE_URL = (process.env.ROUTING_BASE_URL || 'http://localhost:5000').replace(/\/+$/, '');
+const ROUTING_PROFILE = process.env.ROUTING_PROFILE || 'driving';
+const ROUTING_TIMEOUT_MS = parseInt(process.env.ROUTING_TIMEOUT_MS, 10) || 2000;
+
+const requestOsrm = (points) => {
+  const coordinates = points.map(point => `${point.lng},${point.lat}`).join(';');
+  return fetch(
+    `${ROUTING_BASE_URL}/route/v1/${ROUTING_PROFILE}/${coordinates}?overview=full&geometries=polyline&steps=false`,
+    { signal: AbortSignal.timeout(ROUTING_TIMEOUT_MS) }
+  );
+};
+
+const requestValhalla = (points) => fetch(`${ROUTING_BASE_URL}/route`, {
+  method: 'POST',
+  headers: { 'Content-Type': 'application/json' },
+  body: JSON.stringify({
+    locations: points.map(point => ({ lat: point.lat, lon: point.lng })),
+    costing: 'auto',
+    format: 'osrm',
+    shape_format: 'polyline5'
+  }),
+  signal: AbortSignal.timeout(ROUTING_TIMEOUT_MS)
+});
+
+const createHttpRouter = (flavor) => ({
+  name: flavor,
+  approximate: false,
+
+  route: async (points) => {
+    const response = await (flavor === 'valhalla' ? requestValhalla(points) : requestOsrm(points));
+    const body = await response.json().catch(() => ({}));
+    const route = body.routes?.[0];
+
+    if (!response.ok || body.code !== 'Ok' || !route) {
+      throw new Error(`${flavor} routing failed (${response.status}): ${body.message || body.code || 'no route'}`);
+    }
+
+    // OSRM reports metres and seconds
+    return {
+      distance_km: route.distance / 1000,
+      duration_minutes: route.duration / 60,
+      polyline: route.geometry,
+      legs: (route.legs || []).map(leg => ({ distance_km: leg.distance / 1000, duration_minutes: leg.duration / 60 }))
+    };
+  }
+});
+
+module.exports = { createHttpRouter };
@@ -0,0 +1,29 @@
+const straightLine = require('./straightLine');
+const { createHttpRouter } = require('./httpRouter');
+
+/**
+ * Routing providers share one interface:
+ *
+ *   route(points) -> { distance_km, duration_minutes, polyline, legs: [{ distance_km, duration_minutes }] }
+ *
+ * `points` are { lat, lng } in driving order (at least two). `polyline` is the route geometry in the
+ * Google encoded polyline format at precision 5. A provider with `approximate: true` doesn't know
+ * the road network.
+ */
+const providers = {
+  straight_line: straightLine,
+  osrm: createHttpRouter('osrm'),
+  valhalla: createHttpRouter('valhalla')
+};
+
+const ROUTING_PROVIDER = process.env.ROUTING_PROVIDER || 'straight_line';
+
+const getRoutingProvider = () => {
+  const provider = providers[ROUTING_PROVIDER];
+  if (!provider) {
+    throw new Error(`Unknown routing provider: ${ROUTING_PROVIDER}`);
+  }
+  return provider;
+};
+
+module.exports = { getRoutingProvider, straightLine };
@@ -0,0 +1,28 @@
+const { calculateDistance, encodePolyline } = require('../../utils/geo');
+
+// Assumed city driving speed when there is no road network to ask
+const STRAIGHT_LINE_SPEED_KMH = parseFloat(process.env.ROUTING_FALLBACK_SPEED_KMH) || 30;
+
+const leg = (from, to) => {
+  const distanceKm = calculateDistance(from.lat, from.lng, to.lat, to.lng);
+  return { distance_km: distanceKm, duration_minutes: distanceKm / STRAIGHT_LINE_SPEED_KMH * 60 };
+};
+
+// Straight lines between the points. Always available, so it is also the fallback when a road
+// router fails; results are flagged approximate so callers can prefer their own speed assumptions.
+const straightLine = {
+  name: 'straight_line',
+  approximate: true,
+
+  route: async (points) => {
+    const legs = points.slice(1).map((point, index) => leg(points[index], point));
+    return {
+      distance_km: legs.reduce((total, { distance_km }) => total + distance_km, 0),
+      duration_minutes: legs.reduce((total, { duration_minutes }) => total + duration_minutes, 0),
+      polyline: encodePolyline(points),
+      legs
+    };
+  }
+};
+
+module.exports = straightLine;
@@ -0,0 +1,122 @@
+const db = require('../config/database');
+const httpError = require('../utils/httpError');
+const { emitToUser } = require('./realtime');
+const { transitionRide, SCHEDULED_FREE_CANCEL_MINUTES } = require('./rideStateMachine');
+const { dispatchRide } = require('./dispatch');
+
+// How far ahead a ride can be booked
+const SCHEDULE_MIN_LEAD_MINUTES = parseInt(process.env.SCHEDULE_MIN_LEAD_MINUTES, 10) || 30;
+const SCHEDULE_MAX_DAYS_AHEAD = parseInt(process.env.SCHEDULE_MAX_DAYS_AHEAD, 10) || 7;
+
+// Scheduled rides enter dispatch this long before pickup, so a driver has time to get there
+const SCHEDULE_DISPATCH_LEAD_MINUTES = parseInt(process.env.SCHEDULE_DISPATCH_LEAD_MINUTES, 10) || 15;
+
+// Riders are reminded this long before pickup (should be longer than the dispatch lead)
+const SCHEDULE_REMINDER_MINUTES = parseInt(process.env.SCHEDULE_REMINDER_MINUTES, 10) || 60;
+
+const SCHEDULER_INTERVAL_MS = (parseInt(process.env.SCHEDULER_POLL_SECONDS, 10) || 30) * 1000;
+
+// Rides released or reminded per poll; the rest wait for the next one
+const SCHEDULER_BATCH_SIZE = 50;
+
+const SCHEDULE_EVENTS = {
+  REMINDER: 'ride:reminder'
+};
+
+const SYSTEM_ACTOR = { id: null, role: 'system' };
+
+let schedulerTimer = null;
+
+const scheduleError = (message) => Object.assign(httpError(400, message), { code: 'SCHEDULE_INVALID' });
+
+// Check a requested pickup time against the booking window and return it as a Date
+const parseScheduledFor = (value) => {
+  const scheduledFor = new Date(value);
+  if (Number.isNaN(scheduledFor.getTime())) {
+    throw scheduleError('Pickup time is not a valid date');
+  }
+
+  const minutesAhead = (scheduledFor.getTime() - Date.now()) / 60000;
+  if (minutesAhead < SCHEDULE_MIN_LEAD_MINUTES) {
+    throw scheduleError(`Scheduled rides must be booked at least ${SCHEDULE_MIN_LEAD_MINUTES} minutes ahead`);
+  }
+  if (minutesAhead > SCHEDULE_MAX_DAYS_AHEAD * 24 * 60) {
+    throw scheduleError(`Rides can be scheduled up to ${SCHEDULE_MAX_DAYS_AHEAD} days ahead`);
+  }
+
+  return scheduledFor;
+};
+
+// Let riders know their pickup is coming up, once per ride
+const sendReminders = async () => {
+  const [rides] = await db.execute(
+    `SELECT id, user_id, pickup_address, scheduled_for FROM rides
+     WHERE status = 'scheduled' AND reminder_sent_at IS NULL
+       AND scheduled_for <= DATE_ADD(NOW(), INTERVAL ${SCHEDULE_REMINDER_MINUTES} MINUTE)
+     ORDER BY scheduled_for
+     LIMIT ${SCHEDULER_BATCH_SIZE}`
+  );
+
+  for (const ride of rides) {
+    // Another instance may have sent it already
+    const [result] = await db.execute(
+      'UPDATE rides SET reminder_sent_at = NOW() WHERE id = ? AND reminder_sent_at IS NULL',
+      [ride.id]
+    );
+    if (result.affectedRows === 0) continue;
+
+    const scheduledFor = new Date(ride.scheduled_for);
+    emitToUser(ride.user_id, SCHEDULE_EVENTS.REMINDER, {
+      ride_id: ride.id,
+      scheduled_for: scheduledFor.toISOString(),
+      pickup_address: ride.pickup_address || undefined,
+      minutes_until_pickup: Math.max(Math.round((scheduledFor.getTime() - Date.now()) / 60000), 0),
+      free_cancellation_until: new Date(scheduledFor.getTime() - SCHEDULED_FREE_CANCEL_MINUTES * 60000).toISOString()
+    });
+  }
+};
+
+// Move rides whose pickup is within the dispatch lead time into the normal request flow
+const releaseDueRides = async () => {
+  const [rides] = await db.execute(
+    `SELECT id, scheduled_for FROM rides
+     WHERE status = 'scheduled'
+       AND scheduled_for <= DATE_ADD(NOW(), INTERVAL ${SCHEDULE_DISPATCH_LEAD_MINUTES} MINUTE)
+     ORDER BY scheduled_for
+     LIMIT ${SCHEDULER_BATCH_SIZE}`
+  );
+
+  for (const ride of rides) {
+    try {
+      await transitionRide(ride.id, 'release', SYSTEM_ACTOR, {
+        scheduled_for: new Date(ride.scheduled_for).toISOString()
+      });
+    } catch (error) {
+      // Cancelled by the rider or released by another instance in the meantime
+      if (error.status === 409) continue;
+      throw error;
+    }
+
+    dispatchRide(ride.id).catch(error => console.error('Dispatch error:', error));
+  }
+};
+
+const runScheduler = async () => {
+  await sendReminders();
+  await releaseDueRides();
+};
+
+const startRideScheduler = () => {
+  if (schedulerTimer) return;
+
+  const run = () => runScheduler().catch(error => console.error('Ride scheduler error:', error));
+  run();
+  schedulerTimer = setInterval(run, SCHEDULER_INTERVAL_MS);
+  schedulerTimer.unref();
+};
+
+module.exports = {
+  SCHEDULE_EVENTS,
+  parseScheduledFor,
+  startRideScheduler
+};
@@ -0,0 +1,129 @@
+const db = require('../config/database');
+const { encodeGeohash, decodeGeohashBounds } = require('../utils/geohash');
+
+// Zones are geohash cells (precision 5 ≈ 4.9 km × 4.9 km)
+const SURGE_ZONE_PRECISION = parseInt(process.env.SURGE_ZONE_PRECISION, 10) || 5;
+
+// Open requests older than this no longer count as demand
+const SURGE_WINDOW_MINUTES = parseInt(process.env.SURGE_WINDOW_MINUTES, 10) || 15;
+
+const SURGE_MAX_MULTIPLIER = parseFloat(process.env.SURGE_MAX_MULTIPLIER) || 3.0;
+const SURGE_REFRESH_INTERVAL_MS = (parseInt(process.env.SURGE_REFRESH_SECONDS, 10) || 60) * 1000;
+
+// Demand/supply ratio above which prices rise, and how steeply
+const SURGE_RATIO_THRESHOLD = 1.0;
+const SURGE_SENSITIVITY = 0.5;
+
+// Weight of the newest measurement; the rest carries over so prices don't jump between refreshes
+const SURGE_SMOOTHING = 0.4;
+
+// Drivers whose last ping is older than this aren't counted as supply
+const DRIVER_LOCATION_MAX_AGE_MINUTES = 5;
+
+// geohash -> { multiplier, open_requests, online_drivers, updated_at }
+const zones = new Map();
+let refreshTimer = null;
+
+const roundMultiplier = (value) => Math.round(value * 100) / 100;
+
+const surgeForRatio = (ratio) =>
+  Math.min(SURGE_MAX_MULTIPLIER, 1 + Math.max(0, ratio - SURGE_RATIO_THRESHOLD) * SURGE_SENSITIVITY);
+
+const zoneFor = (location) => encodeGeohash(Number(location.lat), Number(location.lng), SURGE_ZONE_PRECISION);
+
+// Open requests and available drivers per zone, optionally limited to one zone's bounds
+const measureDemand = async (bounds) => {
+  const boundsFilter = (latColumn, lngColumn) => (bounds
+    ? ` AND ${latColumn} BETWEEN ? AND ? AND ${lngColumn} BETWEEN ? AND ?`
+    : '');
+  const boundsParams = bounds ? [bounds.south, bounds.north, bounds.west, bounds.east] : [];
+
+  const [[requests], [drivers]] = await Promise.all([
+    db.execute(
+      `SELECT pickup_lat AS lat, pickup_lng AS lng FROM rides
+       WHERE status = 'requested'
+         AND COALESCE(released_at, created_at) > DATE_SUB(NOW(), INTERVAL ${SURGE_WINDOW_MINUTES} MINUTE)` +
+        boundsFilter('pickup_lat', 'pickup_lng'),
+      boundsParams
+    ),
+    db.execute(
+      `SELECT dl.latitude AS lat, dl.longitude AS lng FROM drivers d
+       JOIN driver_locations dl ON d.id = dl.driver_id
+       WHERE d.status = 'online' AND dl.updated_at > DATE_SUB(NOW(), INTERVAL ${DRIVER_LOCATION_MAX_AGE_MINUTES} MINUTE)` +
+        boundsFilter('dl.latitude', 'dl.longitude'),
+      boundsParams
+    )
+  ]);
+
+  const counts = new Map();
+  const count = (rows, field) => rows.forEach(row => {
+    const zone = zoneFor(row);
+    const entry = counts.get(zone) || { open_requests: 0, online_drivers: 0 };
+    entry[field] += 1;
+    counts.set(zone, entry);
+  });
+  count(requests, 'open_requests');
+  count(drivers, 'online_drivers');
+
+  return counts;
+};
+
+// Move a zone toward its measured multiplier; quiet zones decay back to 1 and are dropped
+const updateZone = (zone, { open_requests, online_drivers }) => {
+  const target = surgeForRatio(open_requests / Math.max(online_drivers, 1));
+  const previous = zones.get(zone)?.multiplier ?? 1.0;
+  const multiplier = roundMultiplier(previous + SURGE_SMOOTHING * (target - previous));
+
+  if (multiplier <= 1.0 && open_requests === 0) {
+    zones.delete(zone);
+    return null;
+  }
+
+  const state = { multiplier: Math.max(multiplier, 1.0), open_requests, online_drivers, updated_at: new Date() };
+  zones.set(zone, state);
+  return state;
+};
+
+const EMPTY_ZONE = { open_requests: 0, online_drivers: 0 };
+
+// Recompute every zone with demand now or surge left over from earlier refreshes
+const refreshSurgeZones = async () => {
+  const counts = await measureDemand();
+  const tracked = new Set([...zones.keys(), ...counts.keys()]);
+  tracked.forEach(zone => updateZone(zone, counts.get(zone) || EMPTY_ZONE));
+};
+
+// Recompute the zone containing a location (used on booking so the stored fare reflects current demand)
+const refreshZoneSurge = async (location) => {
+  const zone = zoneFor(location);
+  const counts = await measureDemand(decodeGeohashBounds(zone));
+  return updateZone(zone, counts.get(zone) || EMPTY_ZONE);
+};
+
+const getSurgeMultiplier = (location) => zones.get(zoneFor(location))?.multiplier ?? 1.0;
+
+// Current zone states with their cell bounds
+const getSurgeZones = () => Array.from(zones.entries()).map(([geohash, state]) => ({
+  geohash,
+  bounds: decodeGeohashBounds(geohash),
+  ...state
+}));
+
+const startSurgeEngine = () => {
+  if (refreshTimer) return;
+
+  const refresh = () => refreshSurgeZones().catch(error => console.error('Surge refresh error:', error));
+  refresh();
+  refreshTimer = setInterval(refresh, SURGE_REFRESH_INTERVAL_MS);
+  refreshTimer.unref();
+};
+
+module.exports = {
+  SURGE_MAX_MULTIPLIER,
+  surgeForRatio,
+  refreshSurgeZones,
+  refreshZoneSurge,
+  getSurgeMultiplier,
+  getSurgeZones,
+  startSurgeEngine
+};
@@ -0,0 +1,211 @@
+const db = require('../config/database');
+const httpError = require('../utils/httpError');
+const { formatRide, formatRideDriver } = require('../utils/rideFormatter');
+const { getRidePayment } = require('./payments');
+const { getRideStops } = require('./rideStops');
+
+// GST is included in every fare; receipts show how much of the total it is
+const RIDE_TAX_RATE = parseFloat(process.env.RIDE_TAX_RATE) || 0.05;
+
+// Most rows a single export returns
+const EXPORT_LIMIT = 5000;
+
+const roundAmount = (value) => Math.round(value * 100) / 100;
+
+/**
+ * A page of the rider's rides, newest first. `before` is the id of the last ride on the
+ * previous page; rides are ordered by (created_at, id) so ties on created_at don't skip rows.
+ * `from` and `to` are inclusive calendar days.
+ */
+const getTripHistory = async (userId, { limit = 20, before, status, ride_type, from, to } = {}) => {
+  const conditions = ['user_id = ?'];
+  const params = [userId];
+
+  if (status) {
+    conditions.push('status = ?');
+    params.push(status);
+  }
+  if (ride_type) {
+    conditions.push('ride_type = ?');
+    params.push(ride_type);
+  }
+  if (from) {
+    conditions.push('created_at >= DATE(?)');
+    params.push(from);
+  }
+  if (to) {
+    conditions.push('created_at < DATE(?) + INTERVAL 1 DAY');
+    params.push(to);
+  }
+  if (before) {
+    const [cursorRows] = await db.execute(
+      'SELECT created_at, id FROM rides WHERE id = ? AND user_id = ?',
+      [before, userId]
+    );
+    if (cursorRows.length === 0) {
+      throw httpError(400, 'Invalid history cursor');
+    }
+    conditions.push('(created_at < ? OR (created_at = ? AND id < ?))');
+    params.push(cursorRows[0].created_at, cursorRows[0].created_at, cursorRows[0].id);
+  }
+
+  const [[rows], [stats]] = await Promise.all([
+    db.execute(
+      `SELECT * FROM rides WHERE ${conditions.join(' AND ')}
+       ORDER BY created_at DESC, id DESC
+       LIMIT ${limit + 1}`,
+      params
+    ),
+    db.execute(
+      `SELECT COUNT(*) AS total_trips, COALESCE(SUM(fare - discount_amount - pool_discount), 0) AS total_spent,
+       AVG(rating) AS average_rating
+       FROM rides WHERE user_id = ? AND status = 'completed'`,
+      [userId]
+    )
+  ]);
+
+  const rides = rows.slice(0, limit).map(formatRide);
+
+  return {
+    rides,
+    next_cursor: rows.length > limit ? rides[rides.length - 1].id : null,
+    total_trips: Number(stats[0].total_trips) || 0,
+    total_spent: roundAmount(parseFloat(stats[0].total_spent) || 0),
+    average_rating: stats[0].average_rating !== null ? roundAmount(parseFloat(stats[0].average_rating)) : null
+  };
+};
+
+// What a ride that never completed actually cost the rider: the captured payment if there is one
+// (a late cancellation fee), otherwise the fee recorded on the ride, otherwise nothing
+const chargedAmount = (row, payment) => {
+  if (payment) {
+    return payment.status === 'completed' ? parseFloat(payment.amount) || 0 : 0;
+  }
+  return parseFloat(row.cancellation_fee) || 0;
+};
+
+// Rides booked before fare components were stored only have the total; show it as a single line
+const fareBreakdown = (row, payment) => {
+  const fare = parseFloat(row.fare) || 0;
+  const surge = parseFloat(row.surge_multiplier) || 1;
+  const discount = parseFloat(row.discount_amount) || 0;
+  const poolDiscount = parseFloat(row.pool_discount) || 0;
+  const total = roundAmount(row.status === 'completed'
+    ? Math.max(fare - discount - poolDiscount, 0)
+    : chargedAmount(row, payment));
+  const stopsFare = parseFloat(row.stops_fare) || 0;
+  const hasComponents = row.base_fare !== null && row.distance_fare !== null;
+  const subtotal = hasComponents
+    ? roundAmount(parseFloat(row.base_fare) + parseFloat(row.distance_fare) + stopsFare)
+    : roundAmount(fare / surge);
+
+  return {
+    base_fare: hasComponents ? parseFloat(row.base_fare) : undefined,
+    distance_fare: hasComponents ? parseFloat(row.distance_fare) : undefined,
+    stops_fare: stopsFare,
+    subtotal,
+    surge_multiplier: surge,
+    surge_amount: roundAmount(fare - subtotal),
+    fare,
+    discount_amount: discount,
+    pool_discount: poolDiscount,
+    cancellation_fee: parseFloat(row.cancellation_fee) || 0,
+    tax_rate: RIDE_TAX_RATE,
+    tax_amount: roundAmount(total - total / (1 + RIDE_TAX_RATE)),
+    total,
+    currency: 'INR'
+  };
+};
+
+// Everything a rider's receipt shows for one of their rides
+const getTripReceipt = async (userId, rideId) => {
+  const [rows] = await db.execute(
+    `SELECT r.*, pc.code AS promo_code, u.name AS rider_name, u.email AS rider_email
+     FROM rides r
+     JOIN users u ON u.id = r.user_id
+     LEFT JOIN promo_codes pc ON pc.id = r.promo_code_id
+     WHERE r.id = ? AND r.user_id = ?`,
+    [rideId, userId]
+  );
+  if (rows.length === 0) {
+    throw httpError(404, 'Ride not found');
+  }
+  const ride = rows[0];
+
+  const [[drivers], payment, stops] = await Promise.all([
+    ride.driver_id
+      ? db.execute(
+          'SELECT id, name, phone, vehicle_type, license_plate, rating FROM drivers WHERE id = ?',
+          [ride.driver_id]
+        )
+      : [[]],
+    getRidePayment(ride.id),
+    getRideStops(ride.id)
+  ]);
+
+  return {
+    ride: { ...formatRide(ride), stops },
+    rider: { name: ride.rider_name, email: ride.rider_email },
+    driver: drivers[0] ? formatRideDriver(drivers[0]) : undefined,
+    fare_breakdown: { ...fareBreakdown(ride, payment), promo_code: ride.promo_code || undefined },
+    payment: payment || undefined
+  };
+};
+
+// The rider's rides in a date range with their fare breakdown and payment, oldest first, for expense exports
+const getTripExport = async (userId, { from, to, status } = {}) => {
+  const conditions = ['r.user_id = ?'];
+  const params = [userId];
+
+  if (status) {
+    conditions.push('r.status = ?');
+    params.push(status);
+  }
+  if (from) {
+    conditions.push('r.created_at >= DATE(?)');
+    params.push(from);
+  }
+  if (to) {
+    conditions.push('r.created_at < DATE(?) + INTERVAL 1 DAY');
+    params.push(to);
+  }
+
+  const [rows] = await db.execute(
+    `SELECT r.*, pc.code AS promo_code, p.status AS payment_status, p.amount AS payment_amount,
+     m.payment_type, m.card_brand, m.card_last_four, m.upi_handle, m.label AS payment_label
+     FROM rides r
+     LEFT JOIN promo_codes pc ON pc.id = r.promo_code_id
+     LEFT JOIN payments p ON p.ride_id = r.id
+     LEFT JOIN user_payment_methods m ON m.id = p.payment_method_id
+     WHERE ${conditions.join(' AND ')}
+     ORDER BY r.created_at ASC, r.id ASC
+     LIMIT ${EXPORT_LIMIT}`,
+    params
+  );
+
+  return rows.map(row => ({
+    ride: formatRide(row),
+    fare_breakdown: {
+      ...fareBreakdown(row, row.payment_status && { status: row.payment_status, amount: row.payment_amount }),
+      promo_code: row.promo_code || undefined
+    },
+    payment: row.payment_status
+      ? {
+          status: row.payment_status,
+          method: {
+            payment_type: row.payment_type,
+            card_brand: row.card_brand,
+            card_last_four: row.card_last_four,
+            upi_handle: row.upi_handle,
+            label: row.payment_label
+          }
+        }
+      : undefined
+  }));
+};
+
+module.exports = {
+  getTripHistory,
+  getTripReceipt,
+  getTripExport
+};
@@ -0,0 +1,147 @@
+const db = require('../config/database');
+const httpError = require('../utils/httpError');
+
+// Ride statuses whose fare is still to be charged and so may be held against the balance
+const UNPAID_RIDE_STATUSES = ['scheduled', 'requested', 'accepted', 'in_progress'];
+
+const roundAmount = (value) => Math.round(value * 100) / 100;
+
+const formatTransaction = (row) => ({
+  id: row.id,
+  type: row.type,
+  amount: parseFloat(row.amount),
+  balance_after: parseFloat(row.balance_after),
+  ride_id: row.ride_id || undefined,
+  description: row.description,
+  created_at: row.created_at
+});
+
+// What the rider is charged for a ride after any promo and pool discounts
+const ridePayableAmount = (ride) =>
+  roundAmount(Math.max(
+    (parseFloat(ride.fare) || 0) - (parseFloat(ride.discount_amount) || 0) - (parseFloat(ride.pool_discount) || 0),
+    0
+  ));
+
+// Fares of the rider's unfinished wallet-paid rides, which the balance must still cover
+// (card and UPI rides are charged to the card, so only a ride's current wallet payment counts)
+const getHeldAmount = async (conn, userId, excludeRideId = null) => {
+  const [rows] = await conn.execute(
+    `SELECT COALESCE(SUM(r.fare - r.discount_amount - r.pool_discount), 0) AS held FROM rides r
+     JOIN payments p ON p.ride_id = r.id
+     JOIN user_payment_methods m ON m.id = p.payment_method_id
+     WHERE r.user_id = ? AND r.status IN (${UNPAID_RIDE_STATUSES.map(() => '?').join(', ')}) AND r.id <> ?
+       AND p.status IN ('pending', 'authorized') AND m.payment_type = 'wallet'
+       AND NOT EXISTS (SELECT 1 FROM payments newer WHERE newer.ride_id = r.id AND newer.created_at > p.created_at)`,
+    [userId, ...UNPAID_RIDE_STATUSES, excludeRideId || '']
+  );
+  return roundAmount(parseFloat(rows[0].held) || 0);
+};
+
+// Lock the rider's balance row for the rest of the transaction on `conn`
+const lockBalance = async (conn, userId) => {
+  const [rows] = await conn.execute('SELECT wallet_balance FROM users WHERE id = ? FOR UPDATE', [userId]);
+  if (rows.length === 0) {
+    throw httpError(404, 'Rider not found');
+  }
+  return parseFloat(rows[0].wallet_balance) || 0;
+};
+
+/**
+ * Add a signed amount to the rider's balance and record it in the ledger,
+ * inside an open transaction on `conn`. Returns the ledger entry.
+ * `reference` is the gateway transaction that funded a top-up.
+ */
+const recordTransaction = async (conn, userId, amount, { type, rideId = null, description, reference = null }) => {
+  const balance = await lockBalance(conn, userId);
+  const balanceAfter = roundAmount(balance + amount);
+
+  await conn.execute('UPDATE users SET wallet_balance = ? WHERE id = ?', [balanceAfter, userId]);
+  const [result] = await conn.execute(
+    `INSERT INTO wallet_transactions (user_id, type, amount, balance_after, ride_id, description, reference, created_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, NOW())`,
+    [userId, type, roundAmount(amount), balanceAfter, rideId, description, reference]
+  );
+
+  return formatTransaction({
+    id: result.insertId,
+    type,
+    amount,
+    balance_after: balanceAfter,
+    ride_id: rideId,
+    description,
+    created_at: new Date()
+  });
+};
+
+// Throw 402 unless the balance covers `amount` on top of the rider's other unpaid rides
+const assertSufficientBalance = async (conn, userId, amount, excludeRideId = null) => {
+  const balance = await lockBalance(conn, userId);
+  const held = await getHeldAmount(conn, userId, excludeRideId);
+  const available = roundAmount(balance - held);
+
+  if (available < amount) {
+    throw Object.assign(
+      httpError(402, `Insufficient wallet balance: ₹${available.toFixed(2)} available, ₹${amount.toFixed(2)} needed`),
+      { code: 'INSUFFICIENT_BALANCE', available_balance: available, required_amount: amount }
+    );
+  }
+};
+
+// Charge a completed ride (or a late cancellation fee) to the rider's wallet;
+// the balance may go negative since the trip already happened
+const chargeRide = async (conn, ride, amount = ridePayableAmount(ride)) => {
+  if (amount <= 0) return null;
+
+  const [existing] = await conn.execute(
+    'SELECT id FROM wallet_transactions WHERE ride_id = ? AND type = \'ride_payment\'',
+    [ride.id]
+  );
+  if (existing.length > 0) return null;
+
+  return recordTransaction(conn, ride.user_id, -amount, {
+    type: 'ride_payment',
+    rideId: ride.id,
+    description: ride.status === 'cancelled'
+      ? `Cancellation fee for ${ride.ride_type} ride`
+      : `Payment for ${ride.ride_type} ride`
+  });
+};
+
+// Balance plus a page of ledger entries, newest first (`before` is the last id of the previous page)
+const getWallet = async (userId, { limit = 20, before } = {}) => {
+  const pageSize = Math.min(Math.max(parseInt(limit, 10) || 20, 1), 100);
+  const cursor = parseInt(before, 10);
+
+  const [[users], [rows], held] = await Promise.all([
+    db.execute('SELECT wallet_balance FROM users WHERE id = ?', [userId]),
+    db.execute(
+      `SELECT * FROM wallet_transactions
+       WHERE user_id = ?${cursor ? ' AND id < ?' : ''}
+       ORDER BY id DESC
+       LIMIT ${pageSize + 1}`,
+      cursor ? [userId, cursor] : [userId]
+    ),
+    getHeldAmount(db, userId)
+  ]);
+
+  const balance = parseFloat(users[0]?.wallet_balance) || 0;
+  const transactions = rows.slice(0, pageSize).map(formatTransaction);
+
+  return {
+    balance,
+    held_amount: held,
+    available_balance: roundAmount(balance - held),
+    currency: 'INR',
+    transactions,
+    next_cursor: rows.length > pageSize ? transactions[transactions.length - 1].id : null
+  };
+};
+
+module.exports = {
+  ridePayableAmount,
+  recordTransaction,
+  assertSufficientBalance,
+  chargeRide,
+  getWallet
+};
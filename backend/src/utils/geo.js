@@ -0,0 +1,49 @@
+const EARTH_RADIUS_KM = 6371;
+
+const toRadians = (degrees) => degrees * Math.PI / 180;
+
+// Haversine (straight-line) distance in km
+const calculateDistance = (lat1, lng1, lat2, lng2) => {
+  const dLat = toRadians(lat2 - lat1);
+  const dLng = toRadians(lng2 - lng1);
+  const a = Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) *
+    Math.sin(dLng / 2) * Math.sin(dLng / 2);
+  return EARTH_RADIUS_KM * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+};
+
+// Finite latitude/longitude within the valid ranges
+const isValidCoordinate = (lat, lng) =>
+  Number.isFinite(lat) && Number.isFinite(lng) && lat >= -90 && lat <= 90 && lng >= -180 && lng <= 180;
+
+const encodeValue = (value) => {
+  let shifted = value < 0 ? ~(value << 1) : value << 1;
+  let encoded = '';
+  while (shifted >= 0x20) {
+    encoded += String.fromCharCode((0x20 | (shifted & 0x1f)) + 63);
+    shifted >>= 5;
+  }
+  return encoded + String.fromCharCode(shifted + 63);
+};
+
+// Encode { lat, lng } points in the Google polyline format (precision 5, as OSRM returns by default)
+const encodePolyline = (points, precision = 5) => {
+  const factor = 10 ** precision;
+  let lastLat = 0;
+  let lastLng = 0;
+
+  return points.map(point => {
+    const lat = Math.round(point.lat * factor);
+    const lng = Math.round(point.lng * factor);
+    const encoded = encodeValue(lat - lastLat) + encodeValue(lng - lastLng);
+    lastLat = lat;
+    lastLng = lng;
+    return encoded;
+  }).join('');
+};
+
+module.exports = {
+  calculateDistance,
+  isValidCoordinate,
+  encodePolyline
+};
@@ -0,0 +1,68 @@
+const BASE32 = '0123456789bcdefghjkmnpqrstuvwxyz';
+
+// Encode a coordinate as a geohash; each extra character narrows the cell (5 chars ≈ 4.9 km × 4.9 km)
+const encodeGeohash = (lat, lng, precision = 6) => {
+  const latRange = [-90, 90];
+  const lngRange = [-180, 180];
+  let hash = '';
+  let bits = 0;
+  let charIndex = 0;
+  let evenBit = true;
+
+  while (hash.length < precision) {
+    const range = evenBit ? lngRange : latRange;
+    const value = evenBit ? lng : lat;
+    const mid = (range[0] + range[1]) / 2;
+
+    if (value >= mid) {
+      charIndex = (charIndex << 1) | 1;
+      range[0] = mid;
+    } else {
+      charIndex = charIndex << 1;
+      range[1] = mid;
+    }
+
+    evenBit = !evenBit;
+    if (++bits === 5) {
+      hash += BASE32[charIndex];
+      bits = 0;
+      charIndex = 0;
+    }
+  }
+
+  return hash;
+};
+
+// Bounding box of a geohash cell
+const decodeGeohashBounds = (hash) => {
+  const latRange = [-90, 90];
+  const lngRange = [-180, 180];
+  let evenBit = true;
+
+  for (const char of hash) {
+    const charIndex = BASE32.indexOf(char);
+    if (charIndex === -1) {
+      throw new Error(`Invalid geohash character: ${char}`);
+    }
+
+    for (let bit = 4; bit >= 0; bit--) {
+      const range = evenBit ? lngRange : latRange;
+      const mid = (range[0] + range[1]) / 2;
+      if ((charIndex >> bit) & 1) {
+        range[0] = mid;
+      } else {
+        range[1] = mid;
+      }
+      evenBit = !evenBit;
+    }
+  }
+
+  return {
+    south: latRange[0],
+    north: latRange[1],
+    west: lngRange[0],
+    east: lngRange[1]
+  };
+};
+
+module.exports = { encodeGeohash, decodeGeohashBounds };
@@ -0,0 +1,31 @@
+// Tags a rider can attach when rating a driver (labels live in src/lib/ratings.ts)
+const DRIVER_RATING_TAGS = [
+  'safe_driving',
+  'clean_car',
+  'friendly',
+  'on_time',
+  'good_navigation',
+  'unsafe_driving',
+  'late_pickup',
+  'unprofessional',
+  'dirty_car',
+  'wrong_route'
+];
+
+// Tags a driver can attach when rating a rider
+const RIDER_RATING_TAGS = [
+  'polite',
+  'on_time',
+  'respectful',
+  'easy_pickup',
+  'kept_waiting',
+  'rude',
+  'messy',
+  'wrong_pickup',
+  'unsafe_behaviour'
+];
+
+module.exports = {
+  DRIVER_RATING_TAGS,
+  RIDER_RATING_TAGS
+};
@@ -0,0 +1,56 @@
+// Convert a `rides` row into the Ride shape used by the frontend (src/types/ride.ts)
+const formatRide = (row) => ({
+  id: row.id,
+  user_id: row.user_id,
+  driver_id: row.driver_id || undefined,
+  pickup: {
+    lat: parseFloat(row.pickup_lat),
+    lng: parseFloat(row.pickup_lng),
+    address: row.pickup_address || undefined
+  },
+  dropoff: {
+    lat: parseFloat(row.dropoff_lat),
+    lng: parseFloat(row.dropoff_lng),
+    address: row.dropoff_address || undefined
+  },
+  ride_type: row.ride_type,
+  status: row.status,
+  fare: row.fare !== undefined && row.fare !== null ? parseFloat(row.fare) : undefined,
+  discount_amount: row.discount_amount !== undefined && row.discount_amount !== null
+    ? parseFloat(row.discount_amount)
+    : undefined,
+  cancellation_fee: parseFloat(row.cancellation_fee) > 0 ? parseFloat(row.cancellation_fee) : undefined,
+  pool_id: row.pool_id || undefined,
+  seats: row.seats ?? undefined,
+  pool_discount: parseFloat(row.pool_discount) > 0 ? parseFloat(row.pool_discount) : undefined,
+  surge_multiplier: row.surge_multiplier !== undefined && row.surge_multiplier !== null
+    ? parseFloat(row.surge_multiplier)
+    : undefined,
+  distance_km: row.distance_km !== undefined && row.distance_km !== null
+    ? parseFloat(row.distance_km)
+    : undefined,
+  duration_minutes: row.duration_minutes ?? undefined,
+  rating: row.rating ?? undefined,
+  created_at: row.created_at,
+  scheduled_for: row.scheduled_for || undefined,
+  accepted_at: row.accepted_at || undefined,
+  arrived_at: row.arrived_at || undefined,
+  started_at: row.started_at || undefined,
+  completed_at: row.completed_at || undefined,
+  cancelled_at: row.cancelled_at || undefined
+});
+
+// Driver details shared with the rider once a ride has been accepted
+const formatRideDriver = (row) => ({
+  id: row.id,
+  name: row.name,
+  phone: row.phone,
+  vehicle_type: row.vehicle_type,
+  license_plate: row.license_plate,
+  rating: parseFloat(row.rating) || 5.0
+});
+
+module.exports = {
+  formatRide,
+  formatRideDriver
+};
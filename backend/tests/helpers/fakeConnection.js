@@ -0,0 +1,28 @@
+/**
+ * A stand-in for a mysql2 connection: each query is answered by the first handler whose
+ * pattern appears in the SQL (a function handler gets the params and the SQL), and everything
+ * run on it is recorded for assertions.
+ * Unmatched statements succeed with an empty result.
+ */
+const createFakeConnection = (handlers = []) => {
+  const conn = {
+    queries: [],
+    execute: jest.fn(async (sql, params = []) => {
+      conn.queries.push({ sql, params });
+      const handler = handlers.find(([pattern]) => sql.includes(pattern));
+      if (!handler) return [[]];
+
+      const result = handler[1];
+      return [typeof result === 'function' ? result(params, sql) : result];
+    }),
+    beginTransaction: jest.fn(async () => {}),
+    commit: jest.fn(async () => {}),
+    rollback: jest.fn(async () => {}),
+    release: jest.fn()
+  };
+
+  conn.ran = (pattern) => conn.queries.filter(query => query.sql.includes(pattern));
+  return conn;
+};
+
+module.exports = { createFakeConnection };
@@ -0,0 +1,61 @@
+const { createMemoryStore } = require('../src/services/locationStores/memory');
+
+const CENTER = { lat: 12.9716, lng: 77.5946 };
+
+describe('memory location store', () => {
+  let store;
+
+  beforeEach(async () => {
+    store = createMemoryStore({ ttlSeconds: 300 });
+    await store.upsert('near', { lat: 12.9726, lng: 77.5956, status: 'online', socketId: 'socket-near' });
+    await store.upsert('busy', { lat: 12.9900, lng: 77.6000, status: 'busy', socketId: 'socket-busy' });
+    await store.upsert('far', { lat: 13.2000, lng: 77.7000, status: 'online', socketId: 'socket-far' });
+  });
+
+  test('nearby returns drivers within the radius, nearest first', async () => {
+    const found = await store.nearby(CENTER, 5);
+
+    expect(found.map(entry => entry.driver_id)).toEqual(['near', 'busy']);
+    expect(found[0].distance_km).toBeLessThan(found[1].distance_km);
+    expect(found[0]).toMatchObject({
+      location: { lat: 12.9726, lng: 77.5956 },
+      status: 'online',
+      socket_id: 'socket-near'
+    });
+  });
+
+  test('nearby filters by status and limit', async () => {
+    expect((await store.nearby(CENTER, 50, { status: 'online' })).map(entry => entry.driver_id))
+      .toEqual(['near', 'far']);
+    expect((await store.nearby(CENTER, 50, { limit: 1 })).map(entry => entry.driver_id))
+      .toEqual(['near']);
+  });
+
+  test('upsert moves a driver and keeps status and socket when omitted', async () => {
+    await store.upsert('far', { lat: 12.9720, lng: 77.5950 });
+
+    const [moved] = await store.nearby(CENTER, 0.1);
+    expect(moved).toMatchObject({ driver_id: 'far', status: 'online', socket_id: 'socket-far' });
+  });
+
+  test('positions older than the TTL are ignored', async () => {
+    await store.upsert('near', { lat: 12.9726, lng: 77.5956, updatedAt: new Date(Date.now() - 301 * 1000) });
+
+    expect((await store.nearby(CENTER, 5)).map(entry => entry.driver_id)).toEqual(['busy']);
+  });
+
+  test('remove with a socket id only drops the driver while that is still their connection', async () => {
+    await store.upsert('near', { lat: 12.9726, lng: 77.5956, socketId: 'socket-reconnected' });
+
+    expect(await store.remove('near', { socketId: 'socket-near' })).toBe(false);
+    expect((await store.nearby(CENTER, 5)).map(entry => entry.driver_id)).toContain('near');
+
+    expect(await store.remove('near', { socketId: 'socket-reconnected' })).toBe(true);
+    expect((await store.nearby(CENTER, 5)).map(entry => entry.driver_id)).not.toContain('near');
+  });
+
+  test('remove without a socket id always drops the driver', async () => {
+    expect(await store.remove('busy')).toBe(true);
+    expect(await store.remove('busy')).toBe(false);
+  });
+});
@@ -0,0 +1,109 @@
+jest.mock('../src/config/database', () => ({ execute: jest.fn(), getConnection: jest.fn() }));
+
+const fakeGateway = require('../src/services/paymentProviders/fakeGateway');
+const walletProvider = require('../src/services/paymentProviders/wallet');
+const { getProvider } = require('../src/services/paymentProviders');
+const { createFakeConnection } = require('./helpers/fakeConnection');
+
+const card = (lastFour = '4242') => ({ id: 'pm_card', payment_type: 'card', card_brand: 'visa', card_last_four: lastFour });
+const upi = (handle) => ({ id: 'pm_upi', payment_type: 'upi', upi_handle: handle });
+
+const ride = { id: 'ride_1', user_id: 'user_1', ride_type: 'standard', status: 'completed', fare: '120.00' };
+const payment = (amount) => ({ id: 'pay_1', ride_id: ride.id, user_id: ride.user_id, amount: String(amount) });
+
+// Wallet provider queries: the balance row, the fares held by other unpaid rides, and the ride itself
+const walletConnection = ({ balance, held = 0, alreadyCharged = false }) => createFakeConnection([
+  ['SELECT wallet_balance FROM users', [{ wallet_balance: String(balance) }]],
+  ['AS held FROM rides', [{ held: String(held) }]],
+  ['SELECT * FROM rides', [ride]],
+  ['SELECT id FROM wallet_transactions', alreadyCharged ? [{ id: 3 }] : []],
+  ['INSERT INTO wallet_transactions', { insertId: 7 }]
+]);
+
+describe('getProvider', () => {
+  test('wallet payments settle on the ledger and cards and UPI go to the gateway', () => {
+    expect(getProvider('wallet')).toBe(walletProvider);
+    expect(getProvider('card')).toBe(fakeGateway);
+    expect(getProvider('upi')).toBe(fakeGateway);
+  });
+});
+
+describe('fake gateway', () => {
+  test('authorizes, captures and refunds with gateway references', async () => {
+    const ctx = { payment: payment(120), method: card() };
+
+    const { authorization_id } = await fakeGateway.authorize(ctx);
+    const { transaction_id } = await fakeGateway.capture(ctx);
+    const { refund_id } = await fakeGateway.refund(ctx);
+
+    expect(authorization_id).toMatch(/^fake_auth_/);
+    expect(transaction_id).toMatch(/^fake_txn_/);
+    expect(refund_id).toMatch(/^fake_refund_/);
+  });
+
+  test.each([
+    ['a card ending 0002', card('0002'), 120],
+    ['a UPI handle starting "fail"', upi('fail@okaxis'), 120],
+    ['an amount above the decline limit', card(), 50000.01]
+  ])('declines %s', async (_, method, amount) => {
+    await expect(fakeGateway.authorize({ payment: payment(amount), method })).rejects.toMatchObject({
+      status: 402,
+      code: 'PAYMENT_DECLINED'
+    });
+  });
+
+  test('approves other UPI handles', async () => {
+    await expect(fakeGateway.authorize({ payment: payment(120), method: upi('rider@okaxis') })).resolves.toHaveProperty(
+      'authorization_id'
+    );
+  });
+});
+
+describe('wallet provider', () => {
+  test('authorizes when the balance covers the fare on top of other unpaid rides', async () => {
+    const conn = walletConnection({ balance: 200, held: 80 });
+
+    await expect(walletProvider.authorize({ conn, payment: payment(120) })).resolves.toEqual({ authorization_id: null });
+    expect(conn.ran('AS held FROM rides')[0].params).toContain(ride.id);
+  });
+
+  test('declines with the available balance when it falls short', async () => {
+    const conn = walletConnection({ balance: 200, held: 150 });
+
+    await expect(walletProvider.authorize({ conn, payment: payment(120) })).rejects.toMatchObject({
+      status: 402,
+      code: 'INSUFFICIENT_BALANCE',
+      available_balance: 50,
+      required_amount: 120
+    });
+  });
+
+  test('capture debits the fare from the balance', async () => {
+    const conn = walletConnection({ balance: 200 });
+
+    const { transaction_id } = await walletProvider.capture({ conn, payment: payment(120) });
+
+    expect(transaction_id).toBe('wallet_txn_7');
+    expect(conn.ran('UPDATE users SET wallet_balance')[0].params).toEqual([80, ride.user_id]);
+    expect(conn.ran('INSERT INTO wallet_transactions')[0].params.slice(0, 5)).toEqual([
+      ride.user_id, 'ride_payment', -120, 80, ride.id
+    ]);
+  });
+
+  test('capture charges a ride only once', async () => {
+    const conn = walletConnection({ balance: 200, alreadyCharged: true });
+
+    await expect(walletProvider.capture({ conn, payment: payment(120) })).resolves.toEqual({ transaction_id: null });
+    expect(conn.ran('UPDATE users')).toHaveLength(0);
+  });
+
+  test('refund credits the captured amount back', async () => {
+    const conn = walletConnection({ balance: 80 });
+
+    const { refund_id } = await walletProvider.refund({ conn, payment: payment(120) });
+
+    expect(refund_id).toBe('wallet_txn_7');
+    expect(conn.ran('UPDATE users SET wallet_balance')[0].params).toEqual([200, ride.user_id]);
+    expect(conn.ran('INSERT INTO wallet_transactions')[0].params.slice(0, 2)).toEqual([ride.user_id, 'refund']);
+  });
+});
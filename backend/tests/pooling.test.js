@@ -0,0 +1,57 @@
+jest.mock('../src/config/database', () => ({ execute: jest.fn() }));
+
+const { traceRoute } = require('../src/services/pooling');
+
+// Rides along one road heading north; 0.01° of latitude is about 1.11 km
+const at = (lat) => ({ lat: 12.9 + lat, lng: 77.6 });
+const START = at(0);
+
+// Booked fare charges ₹10 per km per seat
+const ride = (id, seats, pickupLat, dropoffLat) => ({
+  id,
+  status: 'accepted',
+  seats,
+  pickup_lat: at(pickupLat).lat,
+  pickup_lng: at(pickupLat).lng,
+  dropoff_lat: at(dropoffLat).lat,
+  dropoff_lng: at(dropoffLat).lng,
+  distance_km: 1,
+  distance_fare: 10 * seats,
+  surge_multiplier: 1
+});
+
+const point = (rideId, kind, lat) => ({ ride_id: rideId, kind, ...at(lat) });
+
+describe('traceRoute', () => {
+  test('co-riders on the same legs split them by seats on board', () => {
+    const ridesById = { a: ride('a', 1, 0, 0.1), b: ride('b', 2, 0, 0.1) };
+    const route = [point('a', 'pickup', 0), point('b', 'pickup', 0), point('a', 'dropoff', 0.1), point('b', 'dropoff', 0.1)];
+
+    const { length, savings, peakSeats } = traceRoute(START, route, ridesById);
+
+    // a keeps 1/3 of the shared leg, b 2/3
+    expect(peakSeats).toBe(3);
+    expect(savings.a).toBeCloseTo(length * 10 * (2 / 3), 6);
+    expect(savings.b).toBeCloseTo(length * 20 * (1 / 3), 6);
+  });
+
+  test('a ride alone in the car saves nothing, however many seats it books', () => {
+    const ridesById = { a: ride('a', 2, 0, 0.05), b: ride('b', 1, 0.05, 0.1) };
+    const route = [point('a', 'pickup', 0), point('a', 'dropoff', 0.05), point('b', 'pickup', 0.05), point('b', 'dropoff', 0.1)];
+
+    const { savings, peakSeats } = traceRoute(START, route, ridesById);
+
+    expect(peakSeats).toBe(2);
+    expect(savings).toEqual({});
+  });
+
+  test('single-seat co-riders split a shared leg evenly', () => {
+    const ridesById = { a: ride('a', 1, 0, 0.1), b: ride('b', 1, 0, 0.1) };
+    const route = [point('a', 'pickup', 0), point('b', 'pickup', 0), point('a', 'dropoff', 0.1), point('b', 'dropoff', 0.1)];
+
+    const { savings } = traceRoute(START, route, ridesById);
+
+    expect(savings.a).toBeCloseTo(savings.b, 6);
+    expect(savings.a).toBeGreaterThan(0);
+  });
+});
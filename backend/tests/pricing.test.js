@@ -0,0 +1,155 @@
+jest.mock('../src/config/database', () => ({ execute: jest.fn() }));
+
+const { DEFAULT_PRICING, resolvePricing, priceTrip } = require('../src/services/pricing');
+const { encodeGeohash } = require('../src/utils/geohash');
+
+const PICKUP = { lat: 12.9716, lng: 77.5946 };
+const PICKUP_ZONE = encodeGeohash(PICKUP.lat, PICKUP.lng, 5);
+const OTHER_ZONE = encodeGeohash(13.2, 77.7, 5);
+
+// Monday 5 January 2026, local time
+const at = (hour, minute = 0, date = 5) => new Date(2026, 0, date, hour, minute);
+
+let nextId = 1;
+const rule = (fields) => ({
+  id: nextId++,
+  name: 'Rule',
+  zone_geohash: null,
+  ride_type: null,
+  start_hour: null,
+  end_hour: null,
+  days_of_week: null,
+  base_fare: null,
+  per_km_rate: null,
+  avg_speed_kmh: null,
+  per_stop_fee: null,
+  surge_multiplier: null,
+  priority: 0,
+  is_active: true,
+  ...fields
+});
+
+const resolve = (rules, options = {}) =>
+  resolvePricing(rules, { ride_type: 'standard', pickup: PICKUP, at: at(12), ...options });
+
+describe('resolvePricing precedence', () => {
+  test('falls back to the default rates when no rule applies', () => {
+    expect(resolve([])).toEqual(DEFAULT_PRICING.standard);
+    expect(resolve([], { ride_type: 'premium' })).toEqual(DEFAULT_PRICING.premium);
+  });
+
+  test('a higher priority rule wins over a more specific one', () => {
+    const pricing = resolve([
+      rule({ zone_geohash: PICKUP_ZONE, ride_type: 'standard', base_fare: 30 }),
+      rule({ priority: 10, base_fare: 45 })
+    ]);
+
+    expect(pricing.base_fare).toBe(45);
+  });
+
+  test('at equal priority the narrower zone, then the ride type, wins', () => {
+    const rules = [
+      rule({ base_fare: 30, per_km_rate: 11 }),
+      rule({ ride_type: 'standard', base_fare: 32, per_km_rate: 13 }),
+      rule({ zone_geohash: PICKUP_ZONE.slice(0, 3), base_fare: 34 }),
+      rule({ zone_geohash: PICKUP_ZONE, base_fare: 36 })
+    ];
+
+    const pricing = resolve(rules);
+    expect(pricing.base_fare).toBe(36);
+    expect(pricing.per_km_rate).toBe(13);
+    expect(pricing.avg_speed_kmh).toBe(DEFAULT_PRICING.standard.avg_speed_kmh);
+  });
+
+  test('the stop fee resolves like the other rates', () => {
+    const pricing = resolve([
+      rule({ per_stop_fee: 25 }),
+      rule({ zone_geohash: PICKUP_ZONE, per_stop_fee: 40 }),
+      rule({ ride_type: 'premium', per_stop_fee: 60 })
+    ]);
+
+    expect(pricing.per_stop_fee).toBe(40);
+    expect(resolve([]).per_stop_fee).toBe(DEFAULT_PRICING.standard.per_stop_fee);
+  });
+
+  test('a rule with a time window beats an all-day one at equal scope', () => {
+    const pricing = resolve([
+      rule({ per_km_rate: 12 }),
+      rule({ start_hour: 9, end_hour: 17, per_km_rate: 15 })
+    ]);
+
+    expect(pricing.per_km_rate).toBe(15);
+  });
+
+  test('ignores inactive rules and rules for another zone or ride type', () => {
+    const pricing = resolve([
+      rule({ base_fare: 99, is_active: false }),
+      rule({ zone_geohash: OTHER_ZONE, base_fare: 98 }),
+      rule({ ride_type: 'premium', base_fare: 97 })
+    ]);
+
+    expect(pricing.base_fare).toBe(DEFAULT_PRICING.standard.base_fare);
+  });
+
+  test('surge is the highest of the matching windows and the demand surge', () => {
+    const rules = [
+      rule({ start_hour: 7, end_hour: 14, surge_multiplier: 1.5 }),
+      rule({ zone_geohash: PICKUP_ZONE, surge_multiplier: 1.2 })
+    ];
+
+    expect(resolve(rules).surge_multiplier).toBe(1.5);
+    expect(resolve(rules, { demand_surge: 1.8 }).surge_multiplier).toBe(1.8);
+    expect(resolve([], { demand_surge: 0.5 }).surge_multiplier).toBe(1.0);
+  });
+});
+
+describe('resolvePricing time windows', () => {
+  const peak = rule({ start_hour: 7, end_hour: 11, surge_multiplier: 1.5 });
+  const lateNight = rule({ start_hour: 23, end_hour: 6, surge_multiplier: 1.3 });
+  const weekend = rule({ days_of_week: [0, 6], surge_multiplier: 1.2 });
+
+  const surgeAt = (rules, time) => resolve(rules, { at: time }).surge_multiplier;
+
+  test('hours include the start and exclude the end', () => {
+    expect(surgeAt([peak], at(6, 59))).toBe(1.0);
+    expect(surgeAt([peak], at(7))).toBe(1.5);
+    expect(surgeAt([peak], at(10, 59))).toBe(1.5);
+    expect(surgeAt([peak], at(11))).toBe(1.0);
+  });
+
+  test('a window that crosses midnight applies on both sides of it', () => {
+    expect(surgeAt([lateNight], at(22, 59))).toBe(1.0);
+    expect(surgeAt([lateNight], at(23))).toBe(1.3);
+    expect(surgeAt([lateNight], at(0, 30))).toBe(1.3);
+    expect(surgeAt([lateNight], at(5, 59))).toBe(1.3);
+    expect(surgeAt([lateNight], at(6))).toBe(1.0);
+  });
+
+  test('days of the week are matched on the local day', () => {
+    expect(surgeAt([weekend], at(12, 0, 3))).toBe(1.2); // Saturday
+    expect(surgeAt([weekend], at(12, 0, 4))).toBe(1.2); // Sunday
+    expect(surgeAt([weekend], at(12, 0, 5))).toBe(1.0); // Monday
+  });
+
+  test('hours and days must both match', () => {
+    const weekendNights = rule({ start_hour: 23, end_hour: 6, days_of_week: [6], surge_multiplier: 1.6 });
+
+    expect(surgeAt([weekendNights], at(23, 30, 3))).toBe(1.6); // Saturday night
+    expect(surgeAt([weekendNights], at(23, 30, 2))).toBe(1.0); // Friday night
+    expect(surgeAt([weekendNights], at(12, 0, 3))).toBe(1.0); // Saturday midday
+  });
+});
+
+describe('priceTrip seats', () => {
+  const pricing = { ...DEFAULT_PRICING.shared, surge_multiplier: 1.5 };
+  const route = { distance_km: 10, duration_minutes: 20, approximate: false };
+  const dropoff = { lat: 12.9352, lng: 77.6245 };
+
+  test('every extra seat pays the distance fare again, the base fare once', () => {
+    const one = priceTrip(pricing, PICKUP, dropoff, [], route);
+    const two = priceTrip(pricing, PICKUP, dropoff, [], route, 2);
+
+    expect(one).toMatchObject({ seats: 1, distance_fare: 80, total_fare: 147 });
+    expect(two).toMatchObject({ seats: 2, distance_fare: 160, base_fare: one.base_fare, total_fare: 267 });
+  });
+});
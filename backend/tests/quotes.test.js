@@ -0,0 +1,33 @@
+const { issueQuote, redeemQuote } = require('../src/services/quotes');
+
+const trip = {
+  pickup: { lat: 12.9716, lng: 77.5946 },
+  dropoff: { lat: 12.9352, lng: 77.6245 },
+  stops: [],
+  ride_type: 'shared'
+};
+const estimate = { total_fare: 147, seats: 1 };
+
+describe('quotes', () => {
+  test('redeem the estimate for the same rider and trip', () => {
+    const { quote_id } = issueQuote('user_1', trip, estimate);
+
+    expect(redeemQuote(quote_id, 'user_1', trip)).toEqual(estimate);
+  });
+
+  test('a quote for one seat cannot book more', () => {
+    const { quote_id } = issueQuote('user_1', trip, estimate);
+
+    expect(() => redeemQuote(quote_id, 'user_1', { ...trip, seats: 2 })).toThrow(
+      expect.objectContaining({ status: 400, code: 'QUOTE_MISMATCH' })
+    );
+  });
+
+  test('a quote for a scheduled pickup only covers that time', () => {
+    const pickupAt = new Date(Date.now() + 2 * 60 * 60 * 1000);
+    const { quote_id } = issueQuote('user_1', { ...trip, scheduled_for: pickupAt }, estimate);
+
+    expect(redeemQuote(quote_id, 'user_1', { ...trip, scheduled_for: new Date(pickupAt) })).toEqual(estimate);
+    expect(() => redeemQuote(quote_id, 'user_1', trip)).toThrow(expect.objectContaining({ code: 'QUOTE_MISMATCH' }));
+  });
+});
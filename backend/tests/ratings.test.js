@@ -0,0 +1,25 @@
+jest.mock('../src/config/database', () => ({ execute: jest.fn(), getConnection: jest.fn() }));
+
+const { rollingAverage } = require('../src/services/ratings');
+
+describe('rollingAverage', () => {
+  test('the first rating adjusts the starting rating instead of replacing it', () => {
+    expect(rollingAverage(4.8, 0, 1)).toBe(4.17);
+    expect(rollingAverage(5, 0, 5)).toBe(5);
+  });
+
+  test('the starting rating fades as ratings accumulate', () => {
+    let average = 5;
+    for (let count = 0; count < 20; count++) {
+      average = rollingAverage(average, count, 3);
+    }
+
+    expect(average).toBeLessThan(3.5);
+    expect(average).toBeGreaterThan(3);
+  });
+
+  test('ratings beyond the window keep moving the score by the same step', () => {
+    expect(rollingAverage(4, 100, 5)).toBe(rollingAverage(4, 5000, 5));
+    expect(rollingAverage(4, 100, 5)).toBe(4.01);
+  });
+});
@@ -0,0 +1,157 @@
+jest.mock('../src/config/database', () => ({ execute: jest.fn(), getConnection: jest.fn() }));
+jest.mock('../src/middleware/auth', () => (req, res, next) => {
+  req.user = { id: 'user_1', role: 'rider' };
+  next();
+});
+jest.mock('../src/services/pricing', () => ({ calculateEstimate: jest.fn() }));
+jest.mock('../src/services/dispatch', () => ({ dispatchRide: jest.fn() }));
+
+const express = require('express');
+const request = require('supertest');
+const db = require('../src/config/database');
+const { calculateEstimate } = require('../src/services/pricing');
+const { dispatchRide } = require('../src/services/dispatch');
+const ridesRouter = require('../src/routes/rides');
+const { createFakeConnection } = require('./helpers/fakeConnection');
+
+const app = express();
+app.use(express.json());
+app.use('/rides', ridesRouter);
+
+const booking = {
+  pickup: { lat: 12.9716, lng: 77.5946 },
+  dropoff: { lat: 12.9352, lng: 77.6245 },
+  ride_type: 'standard'
+};
+
+const estimate = {
+  distance: 5.2,
+  duration: 18,
+  base_fare: 25,
+  distance_fare: 62.4,
+  stops_fare: 0,
+  surge_multiplier: 1,
+  total_fare: 87.4,
+  currency: 'INR',
+  pickup_address: 'MG Road',
+  dropoff_address: 'Koramangala',
+  stop_addresses: []
+};
+
+// The held-fare query over the rider's other unfinished rides: only those still being paid
+// from the wallet count once the query filters on the payment method
+const heldFare = (openRides) => (params, sql) => {
+  const walletOnly = sql.includes("m.payment_type = 'wallet'") && sql.includes("p.status IN ('pending', 'authorized')");
+  const held = openRides
+    .filter(ride => !walletOnly || (ride.payment_type === 'wallet' && ['pending', 'authorized'].includes(ride.payment_status)))
+    .reduce((sum, ride) => sum + ride.fare, 0);
+  return [{ held: String(held) }];
+};
+
+// The booking transaction's connection, paying with `method` from a wallet holding `balance`
+const bookingConnection = (method, balance = 0, openRides = []) => createFakeConnection([
+  ['FROM user_payment_methods WHERE id = ?', [method]],
+  ['SELECT wallet_balance FROM users', [{ wallet_balance: String(balance) }]],
+  ['AS held FROM rides', heldFare(openRides)]
+]);
+
+const book = (paymentMethodId) => request(app).post('/rides/book').send({ ...booking, payment_method_id: paymentMethodId });
+
+describe('POST /rides/book', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    calculateEstimate.mockResolvedValue(estimate);
+    dispatchRide.mockResolvedValue();
+    db.execute.mockImplementation(async (sql) =>
+      sql.includes('FROM rides') ? [[{ id: 'ride_1', user_id: 'user_1', status: 'requested', ride_type: 'standard' }]] : [[]]
+    );
+  });
+
+  test('commits the ride with its authorized payment and starts dispatch', async () => {
+    const conn = bookingConnection({ id: 'pm_card', user_id: 'user_1', payment_type: 'card', card_last_four: '4242' });
+    db.getConnection.mockResolvedValue(conn);
+
+    const res = await book('pm_card');
+
+    expect(res.status).toBe(200);
+    expect(res.body.payment).toMatchObject({ status: 'authorized', amount: 87.4, provider: 'fake' });
+    expect(conn.commit).toHaveBeenCalled();
+    expect(conn.rollback).not.toHaveBeenCalled();
+    expect(conn.release).toHaveBeenCalled();
+    expect(dispatchRide).toHaveBeenCalled();
+  });
+
+  test('prices a scheduled ride for its pickup time and leaves it for the scheduler', async () => {
+    const conn = bookingConnection({ id: 'pm_card', user_id: 'user_1', payment_type: 'card', card_last_four: '4242' });
+    db.getConnection.mockResolvedValue(conn);
+    const pickupAt = new Date(Date.now() + 2 * 60 * 60 * 1000);
+
+    const res = await request(app)
+      .post('/rides/book')
+      .send({ ...booking, payment_method_id: 'pm_card', scheduled_for: pickupAt.toISOString() });
+
+    expect(res.status).toBe(200);
+    expect(calculateEstimate).toHaveBeenCalledWith(booking.pickup, booking.dropoff, 'standard', {
+      stops: [],
+      seats: 1,
+      at: pickupAt
+    });
+    expect(conn.ran('INSERT INTO rides')[0].params).toContain('scheduled');
+    expect(dispatchRide).not.toHaveBeenCalled();
+  });
+
+  test('rolls the whole booking back when the card is declined', async () => {
+    const conn = bookingConnection({ id: 'pm_card', user_id: 'user_1', payment_type: 'card', card_last_four: '0002' });
+    db.getConnection.mockResolvedValue(conn);
+
+    const res = await book('pm_card');
+
+    expect(res.status).toBe(402);
+    expect(res.body.code).toBe('PAYMENT_DECLINED');
+    expect(conn.ran('INSERT INTO rides')).toHaveLength(1);
+    expect(conn.ran('INSERT INTO payments')).toHaveLength(1);
+    expect(conn.rollback).toHaveBeenCalled();
+    expect(conn.commit).not.toHaveBeenCalled();
+    expect(conn.release).toHaveBeenCalled();
+    expect(dispatchRide).not.toHaveBeenCalled();
+  });
+
+  test('rolls the booking back when the wallet cannot cover the fare', async () => {
+    const conn = bookingConnection({ id: 'pm_wallet', user_id: 'user_1', payment_type: 'wallet' }, 50);
+    db.getConnection.mockResolvedValue(conn);
+
+    const res = await book('pm_wallet');
+
+    expect(res.status).toBe(402);
+    expect(res.body).toMatchObject({ code: 'INSUFFICIENT_BALANCE', available_balance: 50 });
+    expect(conn.rollback).toHaveBeenCalled();
+    expect(conn.commit).not.toHaveBeenCalled();
+    expect(dispatchRide).not.toHaveBeenCalled();
+  });
+
+  test('an open card-paid ride does not hold its fare against a wallet booking', async () => {
+    const conn = bookingConnection({ id: 'pm_wallet', user_id: 'user_1', payment_type: 'wallet' }, 100, [
+      { fare: 300, payment_type: 'card', payment_status: 'authorized' }
+    ]);
+    db.getConnection.mockResolvedValue(conn);
+
+    const res = await book('pm_wallet');
+
+    expect(res.status).toBe(200);
+    expect(res.body.payment).toMatchObject({ status: 'authorized', provider: 'wallet' });
+    expect(conn.commit).toHaveBeenCalled();
+  });
+
+  test('an open wallet-paid ride still holds its fare', async () => {
+    const conn = bookingConnection({ id: 'pm_wallet', user_id: 'user_1', payment_type: 'wallet' }, 100, [
+      { fare: 60, payment_type: 'wallet', payment_status: 'authorized' }
+    ]);
+    db.getConnection.mockResolvedValue(conn);
+
+    const res = await book('pm_wallet');
+
+    expect(res.status).toBe(402);
+    expect(res.body).toMatchObject({ code: 'INSUFFICIENT_BALANCE', available_balance: 40 });
+    expect(conn.rollback).toHaveBeenCalled();
+  });
+});
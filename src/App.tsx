@@ -7,6 +7,9 @@ import { useEffect, useState } from "react";
 import { authService } from "@/lib/auth";
 import { AuthPage } from "./pages/Auth";
 import { HomePage } from "./pages/Home";
+import { DriverDashboardPage } from "./pages/DriverDashboard";
+import { WalletPage } from "./pages/Wallet";
+import { TripHistoryPage } from "./pages/TripHistory";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -29,7 +32,8 @@ const App = () => {
 
   const handleAuthSuccess = () => {
     setIsAuthenticated(true);
-    window.location.href = '/home';
+    // Drivers land on their console, riders on the booking screen
+    window.location.href = authService.getUser()?.role === 'driver' ? '/driver' : '/home';
   };
 
   if (isLoading) {
@@ -63,6 +67,36 @@ const App = () => {
                   )
                 } 
               />
+              <Route 
+                path="/driver" 
+                element={
+                  isAuthenticated ? (
+                    <DriverDashboardPage />
+                  ) : (
+                    <AuthPage onAuthSuccess={handleAuthSuccess} />
+                  )
+                } 
+              />
+              <Route 
+                path="/wallet" 
+                element={
+                  isAuthenticated ? (
+                    <WalletPage />
+                  ) : (
+                    <AuthPage onAuthSuccess={handleAuthSuccess} />
+                  )
+                } 
+              />
+              <Route 
+                path="/history" 
+                element={
+                  isAuthenticated ? (
+                    <TripHistoryPage />
+                  ) : (
+                    <AuthPage onAuthSuccess={handleAuthSuccess} />
+                  )
+                } 
+              />
               <Route path="*" element={<NotFound />} />
             </Routes>
           </BrowserRouter>
@@ -0,0 +1,172 @@
+import React from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/enhanced-button';
+import { DriverTrip } from '@/types/driver';
+import { RiderRating } from './RiderRating';
+import { RideAction } from '@/types/ride';
+import { Car, MapPin, Flag, Phone, Navigation, Loader2, CheckCircle2, Circle } from 'lucide-react';
+
+interface CurrentTripCardProps {
+  trip: DriverTrip | null;
+  title?: string;
+  pendingAction?: RideAction | null;
+  onAction?: (trip: DriverTrip, action: Exclude<RideAction, 'accept'>) => void;
+  pendingStop?: number | null;
+  onStopArrived?: (trip: DriverTrip, stopOrder: number) => void;
+}
+
+const formatLocation = (location: DriverTrip['pickup']) =>
+  location.address || `${location.lat.toFixed(4)}, ${location.lng.toFixed(4)}`;
+
+export const CurrentTripCard: React.FC<CurrentTripCardProps> = ({
+  trip,
+  title = 'Current Trip',
+  pendingAction = null,
+  onAction,
+  pendingStop = null,
+  onStopArrived,
+}) => {
+  // Stops are visited in order, so the next one is the first not yet reached
+  const nextStop = trip?.stops?.find(stop => !stop.arrived_at);
+
+  // Navigate to the pickup before the trip starts, then through the stops to the dropoff
+  const openNavigation = () => {
+    if (!trip) return;
+    const target = trip.status !== 'in_progress'
+      ? trip.pickup
+      : nextStop ? nextStop.location : trip.dropoff;
+    const url = `https://www.google.com/maps/dir/?api=1&destination=${target.lat},${target.lng}&travelmode=driving&dir_action=navigate`;
+    window.open(url, '_blank');
+  };
+
+  return (
+    <Card className="border-card-border">
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span className="flex items-center gap-2">
+            <Car className="h-5 w-5 text-ride-primary" />
+            {title}
+          </span>
+          {trip && (
+            <Badge variant="secondary" className="capitalize">
+              {trip.status.replace('_', ' ')}
+            </Badge>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {!trip ? (
+          <p className="text-sm text-muted-foreground">No active trip. Accept a ride offer to get started.</p>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="font-semibold">{trip.rider.name}</p>
+                <RiderRating rider={trip.rider} />
+              </div>
+              <a href={`tel:${trip.rider.phone}`} className="flex items-center gap-1 text-sm text-ride-primary">
+                <Phone className="h-3 w-3" />
+                {trip.rider.phone}
+              </a>
+            </div>
+
+            <div className="space-y-2 text-sm">
+              <p className="flex items-start gap-2">
+                <MapPin className="h-4 w-4 mt-0.5 text-green-400 shrink-0" />
+                <span>{formatLocation(trip.pickup)}</span>
+              </p>
+              {trip.stops?.map(stop => (
+                <p key={stop.stop_order} className="flex items-start gap-2">
+                  {stop.arrived_at ? (
+                    <CheckCircle2 className="h-4 w-4 mt-0.5 text-green-400 shrink-0" />
+                  ) : (
+                    <Circle className="h-4 w-4 mt-0.5 text-amber-500 shrink-0" />
+                  )}
+                  <span className={stop.arrived_at ? 'text-muted-foreground' : ''}>
+                    Stop {stop.stop_order}: {formatLocation(stop.location)}
+                  </span>
+                </p>
+              ))}
+              <p className="flex items-start gap-2">
+                <Flag className="h-4 w-4 mt-0.5 text-red-400 shrink-0" />
+                <span>{formatLocation(trip.dropoff)}</span>
+              </p>
+            </div>
+
+            {trip.fare ? (
+              <p className="text-sm">
+                <span className="text-muted-foreground">Fare:</span>{' '}
+                <span className="font-semibold">₹{Math.round(trip.fare)}</span>
+              </p>
+            ) : null}
+
+            <Button variant="outline" className="w-full gap-2" onClick={openNavigation}>
+              <Navigation className="h-4 w-4" />
+              {trip.status !== 'in_progress'
+                ? 'Navigate to Pickup'
+                : nextStop ? `Navigate to Stop ${nextStop.stop_order}` : 'Navigate to Drop-off'}
+            </Button>
+
+            {onAction && (
+              <div className="grid grid-cols-2 gap-2">
+                {trip.status === 'accepted' && !trip.arrived_at && (
+                  <Button
+                    variant="secondary"
+                    onClick={() => onAction(trip, 'arrive')}
+                    disabled={!!pendingAction}
+                  >
+                    {pendingAction === 'arrive' && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+                    Arrived at pickup
+                  </Button>
+                )}
+                {trip.status === 'accepted' && (
+                  <Button
+                    variant="ride"
+                    onClick={() => onAction(trip, 'start')}
+                    disabled={!!pendingAction}
+                  >
+                    {pendingAction === 'start' && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+                    Start trip
+                  </Button>
+                )}
+                {trip.status === 'in_progress' && nextStop && onStopArrived && (
+                  <Button
+                    variant="secondary"
+                    className="col-span-2"
+                    onClick={() => onStopArrived(trip, nextStop.stop_order)}
+                    disabled={!!pendingAction || pendingStop !== null}
+                  >
+                    {pendingStop === nextStop.stop_order && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+                    Arrived at stop {nextStop.stop_order}
+                  </Button>
+                )}
+                {trip.status === 'in_progress' && (
+                  <Button
+                    variant="ride"
+                    className="col-span-2"
+                    onClick={() => onAction(trip, 'complete')}
+                    disabled={!!pendingAction}
+                  >
+                    {pendingAction === 'complete' && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+                    Complete trip
+                  </Button>
+                )}
+                {trip.status === 'accepted' && (
+                  <Button
+                    variant="outline"
+                    className="col-span-2 text-red-400"
+                    onClick={() => onAction(trip, 'cancel')}
+                    disabled={!!pendingAction}
+                  >
+                    Cancel trip
+                  </Button>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
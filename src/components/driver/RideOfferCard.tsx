@@ -0,0 +1,118 @@
+import React, { useEffect, useState } from 'react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/enhanced-button';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { RideOffer } from '@/types/driver';
+import { RiderRating } from './RiderRating';
+import { MapPin, Flag, User, Route, IndianRupee } from 'lucide-react';
+
+interface RideOfferCardProps {
+  offer: RideOffer;
+  isResponding?: boolean;
+  onAccept: (offer: RideOffer) => void;
+  onDecline: (offer: RideOffer) => void;
+  onExpire: (offer: RideOffer) => void;
+}
+
+const formatLocation = (location: RideOffer['ride']['pickup']) =>
+  location.address || `${location.lat.toFixed(4)}, ${location.lng.toFixed(4)}`;
+
+export const RideOfferCard: React.FC<RideOfferCardProps> = ({
+  offer,
+  isResponding = false,
+  onAccept,
+  onDecline,
+  onExpire,
+}) => {
+  // Count down from the server-computed remaining time
+  const [secondsLeft, setSecondsLeft] = useState(offer.seconds_remaining);
+  const [totalSeconds] = useState(Math.max(offer.seconds_remaining, 1));
+
+  useEffect(() => {
+    setSecondsLeft(offer.seconds_remaining);
+    const interval = setInterval(() => {
+      setSecondsLeft(prev => Math.max(prev - 1, 0));
+    }, 1000);
+    return () => clearInterval(interval);
+  }, [offer.id, offer.seconds_remaining]);
+
+  useEffect(() => {
+    if (secondsLeft === 0) {
+      onExpire(offer);
+    }
+  }, [secondsLeft, offer, onExpire]);
+
+  const { ride } = offer;
+
+  return (
+    <Card className="border-ride-primary/40 bg-ride-primary/5">
+      <CardContent className="p-4 space-y-4">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <Badge variant="secondary" className="capitalize">{ride.ride_type}</Badge>
+            <span className="flex items-center gap-1 text-sm text-muted-foreground">
+              <User className="h-3 w-3" />
+              {offer.rider.name}
+            </span>
+            <RiderRating rider={offer.rider} />
+          </div>
+          <span className={`text-sm font-semibold ${secondsLeft <= 5 ? 'text-red-400' : 'text-ride-primary'}`}>
+            {secondsLeft}s
+          </span>
+        </div>
+
+        <Progress value={(secondsLeft / totalSeconds) * 100} className="h-1" />
+
+        <div className="space-y-2 text-sm">
+          <p className="flex items-start gap-2">
+            <MapPin className="h-4 w-4 mt-0.5 text-green-400 shrink-0" />
+            <span>{formatLocation(ride.pickup)}</span>
+          </p>
+          {offer.stop_count > 0 && (
+            <p className="pl-6 text-xs text-muted-foreground">
+              + {offer.stop_count} {offer.stop_count === 1 ? 'stop' : 'stops'} on the way
+            </p>
+          )}
+          <p className="flex items-start gap-2">
+            <Flag className="h-4 w-4 mt-0.5 text-red-400 shrink-0" />
+            <span>{formatLocation(ride.dropoff)}</span>
+          </p>
+        </div>
+
+        <div className="flex items-center justify-between text-sm text-muted-foreground">
+          {offer.distance_km !== undefined && (
+            <span className="flex items-center gap-1">
+              <Route className="h-3 w-3" />
+              {offer.distance_km} km to pickup
+              {offer.eta_minutes !== undefined && ` • ${offer.eta_minutes} min`}
+            </span>
+          )}
+          {ride.fare ? (
+            <span className="flex items-center gap-1 font-semibold text-foreground">
+              <IndianRupee className="h-3 w-3" />
+              {Math.round(ride.fare)}
+            </span>
+          ) : null}
+        </div>
+
+        <div className="grid grid-cols-2 gap-2">
+          <Button
+            variant="outline"
+            onClick={() => onDecline(offer)}
+            disabled={isResponding || secondsLeft === 0}
+          >
+            Decline
+          </Button>
+          <Button
+            variant="ride"
+            onClick={() => onAccept(offer)}
+            disabled={isResponding || secondsLeft === 0}
+          >
+            Accept
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
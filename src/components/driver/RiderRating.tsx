@@ -0,0 +1,25 @@
+import React from 'react';
+import { RiderSummary } from '@/types/driver';
+import { Star } from 'lucide-react';
+
+interface RiderRatingProps {
+  rider: RiderSummary;
+  className?: string;
+}
+
+// Rider reputation shown to drivers; riders nobody has rated yet are marked as new
+export const RiderRating: React.FC<RiderRatingProps> = ({ rider, className }) => (
+  <span className={`flex items-center gap-1 text-xs ${className ?? ''}`}>
+    {rider.rating !== undefined ? (
+      <>
+        <Star
+          className={`h-3 w-3 ${rider.rating < 4 ? 'fill-orange-400 text-orange-400' : 'fill-yellow-400 text-yellow-400'}`}
+        />
+        <span className={rider.rating < 4 ? 'text-orange-400' : undefined}>{rider.rating.toFixed(2)}</span>
+        <span className="text-muted-foreground">({rider.rating_count})</span>
+      </>
+    ) : (
+      <span className="text-muted-foreground">New rider</span>
+    )}
+  </span>
+);
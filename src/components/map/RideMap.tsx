@@ -1,12 +1,16 @@
-import React, { useEffect, useRef, useState } from 'react';
-import { MapContainer, TileLayer, Marker, Popup, useMap, useMapEvents } from 'react-leaflet';
-import L, { LatLngExpression } from 'leaflet';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { MapContainer, TileLayer, Marker, Popup, Polyline, useMap, useMapEvents } from 'react-leaflet';
+import L, { LatLngExpression, LatLngTuple } from 'leaflet';
 import 'leaflet/dist/leaflet.css';
 import 'leaflet-control-geocoder/dist/Control.Geocoder.css';
 import 'leaflet-control-geocoder';
-import { Location, Driver } from '@/types/ride';
+import { Location, Driver, PoolStop, TripRoute, DriverRoute } from '@/types/ride';
 import { Button } from '@/components/ui/enhanced-button';
-import { MapPin, Navigation, Car } from 'lucide-react';
+import { SurgeHeatmapLayer, SurgeLegend } from '@/components/map/SurgeHeatmapLayer';
+import { useSurgeZones } from '@/hooks/use-surge-zones';
+import { LiveDriver } from '@/hooks/use-live-drivers';
+import { decodePolyline } from '@/lib/polyline';
+import { MapPin, Navigation, Car, Flame, Route, Timer } from 'lucide-react';
 
 // Fix default markers
 delete (L.Icon.Default.prototype as any)._getIconUrl;
@@ -44,17 +48,129 @@ const driverIcon = new L.Icon({
   shadowSize: [41, 41]
 });
 
+// Top-down car pointing along its heading; icons are cached per 10° step
+const carIcons = new Map<string, L.DivIcon>();
+const carIcon = (heading = 0, status: Driver['status']) => {
+  const rotation = Math.round(heading / 10) * 10 % 360;
+  const key = `${rotation}-${status}`;
+  let icon = carIcons.get(key);
+  if (!icon) {
+    const color = status === 'busy' ? '#d97706' : '#2563eb';
+    icon = L.divIcon({
+      className: '',
+      html: `<div style="transform: rotate(${rotation}deg)" class="w-7 h-7 flex items-center justify-center drop-shadow-md">
+        <svg viewBox="0 0 24 24" width="22" height="22"><rect x="6" y="2" width="12" height="20" rx="4" fill="${color}" stroke="white" stroke-width="1.5"/><rect x="8" y="6" width="8" height="4" rx="1" fill="white" opacity="0.85"/><rect x="8" y="16" width="8" height="2.5" rx="1" fill="white" opacity="0.6"/></svg>
+      </div>`,
+      iconSize: [28, 28],
+      iconAnchor: [14, 14],
+      popupAnchor: [0, -14]
+    });
+    carIcons.set(key, icon);
+  }
+  return icon;
+};
+
+// Longest a marker takes to glide to a new position; a reload snaps instead
+const MAX_DRIVER_GLIDE_MS = 15000;
+
+// Numbered marker for an intermediate stop
+const stopIcon = (order: number) => L.divIcon({
+  className: '',
+  html: `<div class="flex items-center justify-center w-6 h-6 rounded-full bg-amber-500 border-2 border-white shadow-md text-xs font-bold text-white">${order}</div>`,
+  iconSize: [24, 24],
+  iconAnchor: [12, 12],
+  popupAnchor: [0, -12]
+});
+
+// Where a co-rider in the same pool gets on (↑) or off (↓)
+const coRiderIcon = (kind: PoolStop['kind']) => L.divIcon({
+  className: '',
+  html: `<div class="flex items-center justify-center w-5 h-5 rounded-full bg-slate-500 border-2 border-white shadow-md text-xs font-bold text-white">${kind === 'pickup' ? '↑' : '↓'}</div>`,
+  iconSize: [20, 20],
+  iconAnchor: [10, 10],
+  popupAnchor: [0, -10]
+});
+
 interface RideMapProps {
   pickup?: Location;
   dropoff?: Location;
-  drivers?: Driver[];
+  stops?: Location[]; // Intermediate stops, in visiting order
+  poolStops?: PoolStop[]; // Co-riders' stops on a pooled ride; the rider's own are skipped
+  route?: TripRoute | null; // Road route through pickup, stops and dropoff from the estimate
+  driverRoute?: DriverRoute | null; // Live route of the assigned driver once a ride is accepted
+  drivers?: (Driver & Partial<Pick<LiveDriver, 'heading' | 'move_ms'>>)[];
   currentLocation?: Location;
   onLocationSelect?: (location: Location) => void;
   onPickupChange?: (location: Location) => void;
   onDropoffChange?: (location: Location) => void;
+  defaultShowSurge?: boolean;
   className?: string;
 }
 
+// Driver marker that glides from its last position to each new one over the time the update took
+function AnimatedDriverMarker({ driver, children }: {
+  driver: NonNullable<RideMapProps['drivers']>[number];
+  children: React.ReactNode;
+}) {
+  const markerRef = useRef<L.Marker>(null);
+  const positionRef = useRef<LatLngTuple>([driver.location.lat, driver.location.lng]);
+  // The marker is moved imperatively, so its position prop must never change
+  const [initialPosition] = useState(positionRef.current);
+  const { lat, lng } = driver.location;
+  const { move_ms: moveMs } = driver;
+
+  useEffect(() => {
+    const marker = markerRef.current;
+    const from = positionRef.current;
+    const to: LatLngTuple = [lat, lng];
+    const duration = Math.min(moveMs ?? 0, MAX_DRIVER_GLIDE_MS);
+
+    if (!marker || duration <= 0) {
+      positionRef.current = to;
+      marker?.setLatLng(to);
+      return;
+    }
+
+    let frame: number;
+    const startedAt = performance.now();
+    const step = (now: number) => {
+      const progress = Math.min((now - startedAt) / duration, 1);
+      positionRef.current = [from[0] + (to[0] - from[0]) * progress, from[1] + (to[1] - from[1]) * progress];
+      marker.setLatLng(positionRef.current);
+      if (progress < 1) {
+        frame = requestAnimationFrame(step);
+      }
+    };
+    frame = requestAnimationFrame(step);
+
+    return () => cancelAnimationFrame(frame);
+  }, [lat, lng, moveMs]);
+
+  return (
+    <Marker ref={markerRef} position={initialPosition} icon={carIcon(driver.heading, driver.status)}>
+      {children}
+    </Marker>
+  );
+}
+
+// Fit the view to a route whenever `fitKey` changes, not on every refresh of the same route
+function FitBounds({ points, fitKey }: { points: LatLngTuple[]; fitKey: string }) {
+  const map = useMap();
+  const pointsRef = useRef(points);
+  pointsRef.current = points;
+
+  useEffect(() => {
+    if (pointsRef.current.length >= 2) {
+      map.fitBounds(L.latLngBounds(pointsRef.current), { padding: [40, 40], maxZoom: 16 });
+    }
+  }, [map, fitKey]);
+
+  return null;
+}
+
+const formatRouteSummary = (route: TripRoute) =>
+  `${route.approximate ? '~' : ''}${route.distance_km.toFixed(1)} km • ${route.duration_minutes} min`;
+
 // Component to handle geolocation
 function LocationFinder({ onLocationFound }: { onLocationFound: (location: Location) => void }) {
   const map = useMap();
@@ -159,17 +275,42 @@ function GeocodingControl({ onLocationSelect }: { onLocationSelect?: (location:
 export const RideMap: React.FC<RideMapProps> = ({
   pickup,
   dropoff,
+  stops = [],
+  poolStops = [],
+  route,
+  driverRoute,
   drivers = [],
   currentLocation,
   onLocationSelect,
   onPickupChange,
   onDropoffChange,
+  defaultShowSurge = false,
   className = ''
 }) => {
   const [userLocation, setUserLocation] = useState<Location | null>(null);
+  const [showSurge, setShowSurge] = useState(defaultShowSurge);
+  const surge = useSurgeZones(showSurge);
   const [mapCenter, setMapCenter] = useState<LatLngExpression>([28.6139, 77.2090]); // Default to Delhi
   const [mapReady, setMapReady] = useState(false);
 
+  const routePath = useMemo(() => (route ? decodePolyline(route.polyline) : []), [route]);
+  const driverPath = useMemo(
+    () => (driverRoute?.route ? decodePolyline(driverRoute.route.polyline) : []),
+    [driverRoute]
+  );
+
+  // While a driver is on the way the view follows their leg; before that, the trip being booked
+  const fitPoints = useMemo<LatLngTuple[]>(() => {
+    if (driverPath.length > 0) return driverPath;
+    const tripPoints = [pickup, ...stops, dropoff]
+      .filter((point): point is Location => point !== undefined)
+      .map(point => [point.lat, point.lng] as LatLngTuple);
+    return [...tripPoints, ...routePath];
+  }, [driverPath, routePath, pickup, stops, dropoff]);
+  const fitKey = driverRoute?.route
+    ? `driver-${driverRoute.target}`
+    : route?.polyline ?? fitPoints.map(point => point.join(',')).join(';');
+
   // Handle current location found
   const handleLocationFound = (location: Location) => {
     setUserLocation(location);
@@ -258,6 +399,9 @@ export const RideMap: React.FC<RideMapProps> = ({
           </>
         )}
 
+        {/* Demand surge heatmap */}
+        {showSurge && <SurgeHeatmapLayer zones={surge.zones} />}
+
         {/* Current location marker */}
         {userLocation && (
           <Marker position={[userLocation.lat, userLocation.lng]}>
@@ -297,6 +441,71 @@ export const RideMap: React.FC<RideMapProps> = ({
           </Marker>
         )}
 
+        {/* Stop markers */}
+        {stops.map((stop, index) => (
+          <Marker key={`stop-${index}`} position={[stop.lat, stop.lng]} icon={stopIcon(index + 1)}>
+            <Popup>
+              <div className="text-center">
+                <span className="font-semibold">Stop {index + 1}</span>
+                {stop.address && (
+                  <p className="text-xs text-gray-600">
+                    {stop.address}
+                  </p>
+                )}
+              </div>
+            </Popup>
+          </Marker>
+        ))}
+
+        {/* Co-rider stops */}
+        {poolStops.filter(stop => !stop.is_own).map((stop, index) => (
+          <Marker
+            key={`pool-${index}`}
+            position={[stop.location.lat, stop.location.lng]}
+            icon={coRiderIcon(stop.kind)}
+          >
+            <Popup>
+              <div className="text-center">
+                <span className="font-semibold">
+                  {stop.kind === 'pickup' ? 'Co-rider pickup' : 'Co-rider drop-off'}
+                </span>
+                {stop.location.address && (
+                  <p className="text-xs text-gray-600">
+                    {stop.location.address}
+                  </p>
+                )}
+              </div>
+            </Popup>
+          </Marker>
+        ))}
+
+        {mapReady && <FitBounds points={fitPoints} fitKey={fitKey} />}
+
+        {/* Road route through the stops, or a straight dashed path until one is known */}
+        {routePath.length > 1 ? (
+          <Polyline positions={routePath} pathOptions={{ color: '#2563eb', weight: 5, opacity: 0.8 }} />
+        ) : pickup && dropoff && (
+          <Polyline
+            positions={[pickup, ...stops, dropoff].map(point => [point.lat, point.lng] as LatLngExpression)}
+            pathOptions={{ color: '#2563eb', weight: 3, dashArray: '6 6' }}
+          />
+        )}
+
+        {/* Assigned driver's live route */}
+        {driverPath.length > 1 && (
+          <Polyline positions={driverPath} pathOptions={{ color: '#7c3aed', weight: 5, opacity: 0.85 }} />
+        )}
+        {driverRoute?.driver_location && (
+          <Marker position={[driverRoute.driver_location.lat, driverRoute.driver_location.lng]} icon={driverIcon}>
+            <Popup>
+              <div className="text-center">
+                <Car className="h-4 w-4 mx-auto mb-1 text-blue-600" />
+                <p className="font-semibold">Your driver</p>
+              </div>
+            </Popup>
+          </Marker>
+        )}
+
         {/* Dropoff marker */}
         {dropoff && (
           <Marker position={[dropoff.lat, dropoff.lng]} icon={dropoffIcon}>
@@ -321,11 +530,7 @@ export const RideMap: React.FC<RideMapProps> = ({
 
         {/* Driver markers */}
         {drivers.map((driver) => (
-          <Marker
-            key={driver.id}
-            position={[driver.location.lat, driver.location.lng]}
-            icon={driverIcon}
-          >
+          <AnimatedDriverMarker key={driver.id} driver={driver}>
             <Popup>
               <div className="text-center min-w-[150px]">
                 <div className="flex items-center justify-center mb-2">
@@ -349,7 +554,7 @@ export const RideMap: React.FC<RideMapProps> = ({
                 </div>
               </div>
             </Popup>
-          </Marker>
+          </AnimatedDriverMarker>
         ))}
       </MapContainer>
 
@@ -363,15 +568,61 @@ export const RideMap: React.FC<RideMapProps> = ({
         <Navigation className="h-5 w-5" />
       </Button>
 
+      {/* Surge heatmap toggle */}
+      <Button
+        onClick={() => setShowSurge(value => !value)}
+        className={`absolute bottom-16 right-4 z-[1000] rounded-full p-3 border shadow-lg ${
+          showSurge
+            ? 'bg-orange-500 hover:bg-orange-600 text-white border-orange-500'
+            : 'bg-white hover:bg-gray-50 text-gray-700 border-gray-300'
+        }`}
+        variant="outline"
+        size="sm"
+        title={showSurge ? 'Hide demand surge' : 'Show demand surge'}
+      >
+        <Flame className="h-5 w-5" />
+      </Button>
+
+      {showSurge && (
+        <div className="absolute bottom-4 left-4 z-[1000]">
+          <SurgeLegend zoneCount={surge.zones.length} isLoading={surge.isLoading} error={surge.error} />
+        </div>
+      )}
+
+      {/* Route distance and driving time */}
+      {(driverRoute?.route || route) && (
+        <div className="absolute top-4 left-1/2 -translate-x-1/2 z-[1000] bg-white rounded-lg shadow-lg px-3 py-2 text-xs text-gray-700">
+          {driverRoute?.route ? (
+            <span className="flex items-center gap-1">
+              <Car className="h-3 w-3 text-purple-600" />
+              {driverRoute.target === 'pickup' ? 'Driver to pickup' : 'To drop-off'}: {formatRouteSummary(driverRoute.route)}
+            </span>
+          ) : route && (
+            <span className="flex items-center gap-2">
+              <span className="flex items-center gap-1">
+                <Route className="h-3 w-3 text-blue-600" />
+                {route.approximate ? '~' : ''}{route.distance_km.toFixed(1)} km
+              </span>
+              <span className="flex items-center gap-1">
+                <Timer className="h-3 w-3 text-blue-600" />
+                {route.duration_minutes} min
+              </span>
+            </span>
+          )}
+        </div>
+      )}
+
       {/* Map instructions */}
-      <div className="absolute top-4 left-4 z-[1000] bg-white rounded-lg shadow-lg p-3 max-w-[200px]">
-        <p className="text-xs text-gray-600">
-          🗺️ Click on the map to set pickup/dropoff locations
-        </p>
-        <p className="text-xs text-gray-600 mt-1">
-          📍 Use the search box to find specific addresses
-        </p>
-      </div>
+      {onLocationSelect && (
+        <div className="absolute top-4 left-4 z-[1000] bg-white rounded-lg shadow-lg p-3 max-w-[200px]">
+          <p className="text-xs text-gray-600">
+            🗺️ Click on the map to set pickup/dropoff locations
+          </p>
+          <p className="text-xs text-gray-600 mt-1">
+            📍 Use the search box to find specific addresses
+          </p>
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,73 @@
+import React from 'react';
+import { Rectangle, Tooltip } from 'react-leaflet';
+import { SurgeZone } from '@/types/ride';
+
+// Colour bands by surge multiplier, lowest first
+const surgeBands = [
+  { min: 1.0, label: 'Normal', color: '#22c55e' },
+  { min: 1.2, label: '1.2x+', color: '#eab308' },
+  { min: 1.5, label: '1.5x+', color: '#f97316' },
+  { min: 2.0, label: '2x+', color: '#ef4444' },
+  { min: 2.5, label: '2.5x+', color: '#991b1b' },
+];
+
+const bandFor = (multiplier: number) =>
+  [...surgeBands].reverse().find(band => multiplier >= band.min) ?? surgeBands[0];
+
+interface SurgeHeatmapLayerProps {
+  zones: SurgeZone[];
+}
+
+export const SurgeHeatmapLayer: React.FC<SurgeHeatmapLayerProps> = ({ zones }) => (
+  <>
+    {zones.map(zone => {
+      const { color } = bandFor(zone.multiplier);
+
+      return (
+        <Rectangle
+          key={zone.geohash}
+          bounds={[
+            [zone.bounds.south, zone.bounds.west],
+            [zone.bounds.north, zone.bounds.east],
+          ]}
+          pathOptions={{ color, weight: 1, fillColor: color, fillOpacity: 0.35 }}
+        >
+          <Tooltip>
+            <div className="text-xs">
+              <p className="font-semibold">{zone.multiplier.toFixed(2)}x surge</p>
+              <p>{zone.open_requests} open requests</p>
+              <p>{zone.online_drivers} drivers available</p>
+            </div>
+          </Tooltip>
+        </Rectangle>
+      );
+    })}
+  </>
+);
+
+interface SurgeLegendProps {
+  zoneCount: number;
+  isLoading: boolean;
+  error?: string;
+}
+
+export const SurgeLegend: React.FC<SurgeLegendProps> = ({ zoneCount, isLoading, error }) => (
+  <div className="bg-white rounded-lg shadow-lg p-3 text-xs text-gray-700 space-y-1">
+    <p className="font-semibold">Demand surge</p>
+    {surgeBands.map(band => (
+      <div key={band.label} className="flex items-center gap-2">
+        <span className="inline-block w-3 h-3 rounded-sm" style={{ backgroundColor: band.color }} />
+        <span>{band.label}</span>
+      </div>
+    ))}
+    <p className="text-gray-500 pt-1">
+      {error
+        ? error
+        : isLoading && zoneCount === 0
+          ? 'Loading...'
+          : zoneCount === 0
+            ? 'No surge right now'
+            : `${zoneCount} busy ${zoneCount === 1 ? 'zone' : 'zones'}`}
+    </p>
+  </div>
+);
@@ -0,0 +1,81 @@
+import React from 'react';
+import { Location } from '@/types/ride';
+
+const TILE_SIZE = 256;
+const MAX_ZOOM = 16;
+
+// Web Mercator world pixel coordinates at a zoom level
+const project = (point: Location, zoom: number) => {
+  const scale = TILE_SIZE * 2 ** zoom;
+  const sinLat = Math.sin((point.lat * Math.PI) / 180);
+  return {
+    x: ((point.lng + 180) / 360) * scale,
+    y: (0.5 - Math.log((1 + sinLat) / (1 - sinLat)) / (4 * Math.PI)) * scale,
+  };
+};
+
+interface TripThumbnailProps {
+  pickup: Location;
+  dropoff: Location;
+  width?: number;
+  height?: number;
+}
+
+// Static map preview built from a few OSM tiles, cheap enough to render once per table row
+export const TripThumbnail: React.FC<TripThumbnailProps> = ({ pickup, dropoff, width = 120, height = 72 }) => {
+  const padding = 12;
+
+  // Closest zoom that still fits both ends of the trip
+  let zoom = MAX_ZOOM;
+  while (zoom > 1) {
+    const a = project(pickup, zoom);
+    const b = project(dropoff, zoom);
+    if (Math.abs(a.x - b.x) <= width - padding * 2 && Math.abs(a.y - b.y) <= height - padding * 2) break;
+    zoom--;
+  }
+
+  const start = project(pickup, zoom);
+  const end = project(dropoff, zoom);
+  const left = (start.x + end.x) / 2 - width / 2;
+  const top = (start.y + end.y) / 2 - height / 2;
+
+  const tiles: { x: number; y: number }[] = [];
+  for (let x = Math.floor(left / TILE_SIZE); x <= Math.floor((left + width) / TILE_SIZE); x++) {
+    for (let y = Math.floor(top / TILE_SIZE); y <= Math.floor((top + height) / TILE_SIZE); y++) {
+      tiles.push({ x, y });
+    }
+  }
+
+  return (
+    <div className="relative overflow-hidden rounded-md bg-muted" style={{ width, height }}>
+      {tiles.map(tile => (
+        <img
+          key={`${tile.x}-${tile.y}`}
+          src={`https://tile.openstreetmap.org/${zoom}/${tile.x}/${tile.y}.png`}
+          alt=""
+          loading="lazy"
+          className="absolute max-w-none"
+          style={{
+            left: tile.x * TILE_SIZE - left,
+            top: tile.y * TILE_SIZE - top,
+            width: TILE_SIZE,
+            height: TILE_SIZE,
+          }}
+        />
+      ))}
+      <svg className="absolute inset-0" width={width} height={height}>
+        <line
+          x1={start.x - left}
+          y1={start.y - top}
+          x2={end.x - left}
+          y2={end.y - top}
+          stroke="#2563eb"
+          strokeWidth={2}
+          strokeDasharray="4 3"
+        />
+        <circle cx={start.x - left} cy={start.y - top} r={4} fill="#16a34a" stroke="white" strokeWidth={1.5} />
+        <circle cx={end.x - left} cy={end.y - top} r={4} fill="#dc2626" stroke="white" strokeWidth={1.5} />
+      </svg>
+    </div>
+  );
+};
@@ -0,0 +1,228 @@
+import React, { useState } from 'react';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import { Button } from '@/components/ui/enhanced-button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { paymentMethodAPI, getApiErrorMessage } from '@/lib/api';
+import { cardBrands, paymentMethodLabel } from '@/lib/payment-methods';
+import { CardBrand, NewPaymentMethod, PaymentMethod } from '@/types/payment';
+import { useToast } from '@/hooks/use-toast';
+import { CreditCard, Loader2, Smartphone, Star, Trash2, Wallet } from 'lucide-react';
+
+export const PaymentMethodIcon: React.FC<{ type: PaymentMethod['payment_type']; className?: string }> = ({ type, className }) => {
+  if (type === 'wallet') return <Wallet className={className} />;
+  if (type === 'upi') return <Smartphone className={className} />;
+  return <CreditCard className={className} />;
+};
+
+interface PaymentMethodsSheetProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  methods: PaymentMethod[];
+  onMethodsChange: () => void;
+}
+
+export const PaymentMethodsSheet: React.FC<PaymentMethodsSheetProps> = ({
+  open,
+  onOpenChange,
+  methods,
+  onMethodsChange,
+}) => {
+  const [paymentType, setPaymentType] = useState<NewPaymentMethod['payment_type']>('card');
+  const [cardLastFour, setCardLastFour] = useState('');
+  const [cardBrand, setCardBrand] = useState<CardBrand>('visa');
+  const [upiHandle, setUpiHandle] = useState('');
+  const [label, setLabel] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [busyMethodId, setBusyMethodId] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const isValid = paymentType === 'card'
+    ? /^\d{4}$/.test(cardLastFour)
+    : /^[\w.-]{2,64}@[a-zA-Z]{2,32}$/.test(upiHandle.trim());
+
+  const resetForm = () => {
+    setCardLastFour('');
+    setUpiHandle('');
+    setLabel('');
+  };
+
+  const addMethod = async () => {
+    setIsSaving(true);
+    try {
+      const method: NewPaymentMethod = paymentType === 'card'
+        ? { payment_type: 'card', card_last_four: cardLastFour, card_brand: cardBrand }
+        : { payment_type: 'upi', upi_handle: upiHandle.trim() };
+      if (label.trim()) {
+        method.label = label.trim();
+      }
+
+      const { method: added } = await paymentMethodAPI.addMethod(method);
+      toast({
+        title: "Payment method added",
+        description: `${paymentMethodLabel(added)} is ready to use`,
+      });
+      resetForm();
+      onMethodsChange();
+    } catch (error) {
+      toast({
+        title: "Could not add payment method",
+        description: getApiErrorMessage(error, "Please check the details and try again"),
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const updateMethod = async (method: PaymentMethod, action: 'default' | 'remove') => {
+    setBusyMethodId(method.id);
+    try {
+      if (action === 'default') {
+        await paymentMethodAPI.setDefault(method.id);
+      } else {
+        await paymentMethodAPI.removeMethod(method.id);
+      }
+      onMethodsChange();
+    } catch (error) {
+      toast({
+        title: action === 'default' ? "Could not set default" : "Could not remove payment method",
+        description: getApiErrorMessage(error, "Please try again"),
+        variant: "destructive",
+      });
+    } finally {
+      setBusyMethodId(null);
+    }
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>Payment methods</SheetTitle>
+          <SheetDescription>Your default method is used when you book unless you pick another.</SheetDescription>
+        </SheetHeader>
+
+        <div className="space-y-3 py-6">
+          {methods.map(method => (
+            <div key={method.id} className="flex items-center justify-between p-3 rounded-lg border border-border">
+              <div className="flex items-center gap-3 min-w-0">
+                <PaymentMethodIcon type={method.payment_type} className="h-5 w-5 text-muted-foreground shrink-0" />
+                <span className="text-sm font-medium truncate">{paymentMethodLabel(method)}</span>
+                {method.is_default && <Badge variant="secondary">Default</Badge>}
+              </div>
+              <div className="flex items-center gap-1">
+                {busyMethodId === method.id ? (
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                ) : (
+                  <>
+                    {!method.is_default && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-8 w-8 p-0"
+                        title="Make default"
+                        onClick={() => updateMethod(method, 'default')}
+                      >
+                        <Star className="h-4 w-4" />
+                      </Button>
+                    )}
+                    {method.payment_type !== 'wallet' && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-8 w-8 p-0 text-red-500"
+                        title="Remove"
+                        onClick={() => updateMethod(method, 'remove')}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {/* Add a card or UPI handle */}
+        <div className="space-y-4 border-t border-border pt-6">
+          <div className="grid grid-cols-2 gap-2">
+            <Button
+              variant={paymentType === 'card' ? 'default' : 'outline'}
+              className="gap-2"
+              onClick={() => setPaymentType('card')}
+            >
+              <CreditCard className="h-4 w-4" />
+              Card
+            </Button>
+            <Button
+              variant={paymentType === 'upi' ? 'default' : 'outline'}
+              className="gap-2"
+              onClick={() => setPaymentType('upi')}
+            >
+              <Smartphone className="h-4 w-4" />
+              UPI
+            </Button>
+          </div>
+
+          {paymentType === 'card' ? (
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label>Brand</Label>
+                <Select value={cardBrand} onValueChange={(value) => setCardBrand(value as CardBrand)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {cardBrands.map(brand => (
+                      <SelectItem key={brand.id} value={brand.id}>{brand.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="card-last-four">Last 4 digits</Label>
+                <Input
+                  id="card-last-four"
+                  inputMode="numeric"
+                  maxLength={4}
+                  value={cardLastFour}
+                  onChange={(e) => setCardLastFour(e.target.value.replace(/\D/g, ''))}
+                  placeholder="4242"
+                />
+              </div>
+            </div>
+          ) : (
+            <div className="space-y-2">
+              <Label htmlFor="upi-handle">UPI ID</Label>
+              <Input
+                id="upi-handle"
+                value={upiHandle}
+                onChange={(e) => setUpiHandle(e.target.value)}
+                placeholder="name@okaxis"
+              />
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="payment-label">Nickname (optional)</Label>
+            <Input
+              id="payment-label"
+              maxLength={50}
+              value={label}
+              onChange={(e) => setLabel(e.target.value)}
+              placeholder="Personal card"
+            />
+          </div>
+
+          <Button className="w-full" onClick={addMethod} disabled={!isValid || isSaving}>
+            {isSaving ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Add payment method'}
+          </Button>
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+};
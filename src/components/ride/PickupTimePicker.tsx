@@ -0,0 +1,112 @@
+import React, { useState } from 'react';
+import { addDays, addMinutes, format, startOfDay } from 'date-fns';
+import { Button } from '@/components/ui/enhanced-button';
+import { Calendar } from '@/components/ui/calendar';
+import { Input } from '@/components/ui/input';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { SCHEDULE_MAX_DAYS_AHEAD, SCHEDULE_MIN_LEAD_MINUTES, scheduledPickupError } from '@/lib/rides';
+import { CalendarClock, CalendarIcon, Clock } from 'lucide-react';
+
+interface PickupTimePickerProps {
+  value: Date | null; // null books the ride now
+  onChange: (value: Date | null) => void;
+}
+
+// Earliest bookable time, rounded up to the next quarter hour
+const earliestPickup = () => {
+  const earliest = addMinutes(new Date(), SCHEDULE_MIN_LEAD_MINUTES);
+  const remainder = earliest.getMinutes() % 15;
+  const rounded = remainder === 0 ? earliest : addMinutes(earliest, 15 - remainder);
+  rounded.setSeconds(0, 0);
+  return rounded;
+};
+
+export const PickupTimePicker: React.FC<PickupTimePickerProps> = ({ value, onChange }) => {
+  const [isCalendarOpen, setIsCalendarOpen] = useState(false);
+  const error = value ? scheduledPickupError(value) : null;
+
+  const selectDay = (day?: Date) => {
+    if (!day || !value) return;
+    const next = new Date(day);
+    next.setHours(value.getHours(), value.getMinutes(), 0, 0);
+    onChange(next);
+    setIsCalendarOpen(false);
+  };
+
+  const selectTime = (time: string) => {
+    if (!value || !time) return;
+    const [hours, minutes] = time.split(':').map(Number);
+    const next = new Date(value);
+    next.setHours(hours, minutes, 0, 0);
+    onChange(next);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2">
+        <CalendarClock className="h-4 w-4 text-gray-600" />
+        <span className="text-sm font-medium">Pickup time</span>
+      </div>
+      <div className="grid grid-cols-2 gap-2">
+        <Button
+          type="button"
+          variant={value ? 'outline' : 'default'}
+          size="sm"
+          onClick={() => onChange(null)}
+        >
+          Now
+        </Button>
+        <Button
+          type="button"
+          variant={value ? 'default' : 'outline'}
+          size="sm"
+          onClick={() => !value && onChange(earliestPickup())}
+        >
+          Schedule
+        </Button>
+      </div>
+
+      {value && (
+        <div className="grid grid-cols-2 gap-2">
+          <Popover open={isCalendarOpen} onOpenChange={setIsCalendarOpen}>
+            <PopoverTrigger asChild>
+              <Button type="button" variant="outline" className="justify-start gap-2 font-normal">
+                <CalendarIcon className="h-4 w-4" />
+                {format(value, 'EEE, d MMM')}
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-auto p-0" align="start">
+              <Calendar
+                mode="single"
+                selected={value}
+                onSelect={selectDay}
+                disabled={[
+                  { before: startOfDay(new Date()) },
+                  { after: addDays(new Date(), SCHEDULE_MAX_DAYS_AHEAD) },
+                ]}
+                initialFocus
+              />
+            </PopoverContent>
+          </Popover>
+          <div className="relative">
+            <Clock className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+            <Input
+              type="time"
+              step={300}
+              className="pl-9"
+              value={format(value, 'HH:mm')}
+              onChange={(e) => selectTime(e.target.value)}
+            />
+          </div>
+        </div>
+      )}
+
+      {error && <p className="text-xs text-red-600">{error}</p>}
+      {value && !error && (
+        <p className="text-xs text-muted-foreground">
+          We'll start finding your driver shortly before pickup. Cancelling close to pickup time may incur a fee.
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,165 @@
+import React, { useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/enhanced-button';
+import { Textarea } from '@/components/ui/textarea';
+import { rideAPI, getApiErrorMessage } from '@/lib/api';
+import { negativeDriverTags, negativeRiderTags, positiveDriverTags, positiveRiderTags, ratingLabels } from '@/lib/ratings';
+import { DriverRatingTag, RiderRatingTag } from '@/types/ride';
+import { useToast } from '@/hooks/use-toast';
+import { Loader2, Star } from 'lucide-react';
+
+type RatingTag = DriverRatingTag | RiderRatingTag;
+
+// Tag choices and copy for each side of the trip being rated
+const subjects = {
+  driver: {
+    positiveTags: positiveDriverTags as { id: RatingTag; label: string }[],
+    negativeTags: negativeDriverTags as { id: RatingTag; label: string }[],
+    title: 'How was your trip?',
+    describe: (name?: string) => (name ? `Rate your ride with ${name}` : 'Rate your driver'),
+  },
+  rider: {
+    positiveTags: positiveRiderTags as { id: RatingTag; label: string }[],
+    negativeTags: negativeRiderTags as { id: RatingTag; label: string }[],
+    title: 'How was your rider?',
+    describe: (name?: string) => (name ? `Rate ${name}` : 'Rate your rider'),
+  },
+};
+
+interface RatingDialogProps {
+  rideId: string;
+  subject: keyof typeof subjects; // Who is being rated
+  name?: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onRated?: (rating: number) => void;
+}
+
+export const RatingDialog: React.FC<RatingDialogProps> = ({
+  rideId,
+  subject,
+  name,
+  open,
+  onOpenChange,
+  onRated,
+}) => {
+  const [rating, setRating] = useState(0);
+  const [hoverRating, setHoverRating] = useState(0);
+  const [tags, setTags] = useState<RatingTag[]>([]);
+  const [comment, setComment] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const { toast } = useToast();
+
+  const shownRating = hoverRating || rating;
+  const { positiveTags, negativeTags, title, describe } = subjects[subject];
+  const tagOptions = rating >= 4 ? positiveTags : negativeTags;
+
+  const selectRating = (stars: number) => {
+    // Tags describe a good or a poor trip, so switching sides clears them
+    if ((stars >= 4) !== (rating >= 4)) {
+      setTags([]);
+    }
+    setRating(stars);
+  };
+
+  const toggleTag = (tag: RatingTag) => {
+    setTags(prev => (prev.includes(tag) ? prev.filter(t => t !== tag) : [...prev, tag]));
+  };
+
+  const submit = async () => {
+    setIsSubmitting(true);
+    try {
+      const request = { rating, comment: comment.trim() || undefined };
+      if (subject === 'driver') {
+        await rideAPI.rateDriver(rideId, { ...request, tags: tags as DriverRatingTag[] });
+      } else {
+        await rideAPI.rateRider(rideId, { ...request, tags: tags as RiderRatingTag[] });
+      }
+      toast({
+        title: "Thanks for your feedback",
+        description: name ? `Your rating for ${name} has been saved` : "Your rating has been saved",
+      });
+      onRated?.(rating);
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        title: "Could not save rating",
+        description: getApiErrorMessage(error, "Please try again"),
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>{describe(name)}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex flex-col items-center gap-2">
+            <div className="flex gap-1" onMouseLeave={() => setHoverRating(0)}>
+              {[1, 2, 3, 4, 5].map(stars => (
+                <button
+                  key={stars}
+                  type="button"
+                  aria-label={`${stars} star${stars > 1 ? 's' : ''}`}
+                  onMouseEnter={() => setHoverRating(stars)}
+                  onClick={() => selectRating(stars)}
+                  className="p-1"
+                >
+                  <Star
+                    className={`h-8 w-8 transition-colors ${
+                      stars <= shownRating ? 'fill-yellow-400 text-yellow-400' : 'text-muted-foreground'
+                    }`}
+                  />
+                </button>
+              ))}
+            </div>
+            <p className="text-sm text-muted-foreground h-5">{ratingLabels[shownRating]}</p>
+          </div>
+
+          {rating > 0 && (
+            <>
+              <div className="flex flex-wrap gap-2 justify-center">
+                {tagOptions.map(tag => (
+                  <Button
+                    key={tag.id}
+                    type="button"
+                    size="sm"
+                    variant={tags.includes(tag.id) ? 'default' : 'outline'}
+                    className="rounded-full"
+                    onClick={() => toggleTag(tag.id)}
+                  >
+                    {tag.label}
+                  </Button>
+                ))}
+              </div>
+
+              <Textarea
+                value={comment}
+                onChange={(e) => setComment(e.target.value)}
+                placeholder="Anything else you'd like to share? (optional)"
+                maxLength={500}
+                rows={3}
+              />
+            </>
+          )}
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSubmitting}>
+            Skip
+          </Button>
+          <Button onClick={submit} disabled={rating === 0 || isSubmitting}>
+            {isSubmitting ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Submit rating'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
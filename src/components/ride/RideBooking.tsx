@@ -2,9 +2,16 @@ import React, { useState, useEffect, useRef } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/enhanced-button';
 import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { LocationPicker } from './LocationPicker';
-import { rideAPI } from '@/lib/api';
-import { Location, RideRequest, RideEstimate, RideBookingResponse } from '@/types/ride';
+import { PickupTimePicker } from './PickupTimePicker';
+import { PaymentMethodIcon } from '@/components/payment/PaymentMethodsSheet';
+import { paymentMethodLabel } from '@/lib/payment-methods';
+import { MAX_POOL_SEATS, MAX_RIDE_STOPS, scheduledPickupError } from '@/lib/rides';
+import { rideAPI, getApiErrorMessage } from '@/lib/api';
+import { Location, Ride, RideRequest, RideType, RideEstimate, RideBookingResponse, QuoteErrorResponse, PromoError, TripRoute } from '@/types/ride';
+import { PaymentMethod } from '@/types/payment';
 import { useToast } from '@/hooks/use-toast';
 import { 
   MapPin, 
@@ -22,7 +29,11 @@ import {
   IndianRupee,
   AlertCircle,
   CheckCircle2,
-  Loader2
+  Loader2,
+  Tag,
+  X,
+  CreditCard,
+  Plus
 } from 'lucide-react';
 
 interface RideBookingProps {
@@ -31,6 +42,11 @@ interface RideBookingProps {
   onLocationChange?: (type: 'pickup' | 'dropoff', location: Location) => void;
   onPickupChange?: (location: Location) => void;
   onDropoffChange?: (location: Location) => void;
+  onStopsChange?: (stops: Location[]) => void;
+  onRouteChange?: (route: TripRoute | null) => void; // Road route of the current estimate
+  onRideBooked?: (ride: Ride) => void;
+  paymentMethods?: PaymentMethod[];
+  onManagePaymentMethods?: () => void;
 }
 
 export const RideBooking: React.FC<RideBookingProps> = ({
@@ -39,20 +55,52 @@ export const RideBooking: React.FC<RideBookingProps> = ({
   onLocationChange,
   onPickupChange,
   onDropoffChange,
+  onStopsChange,
+  onRouteChange,
+  onRideBooked,
+  paymentMethods = [],
+  onManagePaymentMethods,
 }) => {
   const [pickupLocation, setPickupLocation] = useState<Location | undefined>(pickup);
   const [dropoffLocation, setDropoffLocation] = useState<Location | undefined>(dropoff);
-  const [rideType, setRideType] = useState<'standard' | 'premium' | 'shared'>('standard');
-  const [estimate, setEstimate] = useState<RideEstimate | null>(null);
+  // Slots the rider has added; empty ones are left out of the route
+  const [stopSlots, setStopSlots] = useState<(Location | undefined)[]>([]);
+  const [rideType, setRideType] = useState<RideType>('standard');
+  const [seats, setSeats] = useState(1);
+  const [estimates, setEstimates] = useState<RideEstimate[]>([]);
+  const [route, setRoute] = useState<TripRoute | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [bookingMethod, setBookingMethod] = useState<'sequential' | 'parallel'>('parallel');
   const [performanceResults, setPerformanceResults] = useState<RideBookingResponse['performance'] | null>(null);
   const [isEstimating, setIsEstimating] = useState(false);
   const [estimateError, setEstimateError] = useState<string | null>(null);
+  const [quoteRefreshKey, setQuoteRefreshKey] = useState(0);
+  const [promoInput, setPromoInput] = useState('');
+  const [appliedPromo, setAppliedPromo] = useState<string | null>(null);
+  const [promoError, setPromoError] = useState<string | null>(null);
+  const [isApplyingPromo, setIsApplyingPromo] = useState(false);
+  const [paymentMethodId, setPaymentMethodId] = useState<string | null>(null);
+  const [scheduledFor, setScheduledFor] = useState<Date | null>(null);
   
   const { toast } = useToast();
   const estimateTimeoutRef = useRef<NodeJS.Timeout>();
 
+  const stops = React.useMemo(
+    () => stopSlots.filter((stop): stop is Location => stop !== undefined),
+    [stopSlots]
+  );
+
+  // Server-priced estimate for the selected ride type
+  const estimate = estimates.find(e => e.ride_type === rideType) ?? null;
+
+  // The rider's pick, else their default; falls back if the picked method was removed
+  const paymentMethod = paymentMethods.find(m => m.id === paymentMethodId)
+    ?? paymentMethods.find(m => m.is_default)
+    ?? paymentMethods[0];
+
+  // What the rider pays once an applicable promo is taken off
+  const payableFare = (e: RideEstimate) => (e.promo ? e.promo.final_fare : e.total_fare);
+
   // Sync with props
   useEffect(() => {
     setPickupLocation(pickup);
@@ -75,7 +123,8 @@ export const RideBooking: React.FC<RideBookingProps> = ({
         getEstimate();
       }, 500);
     } else {
-      setEstimate(null);
+      setEstimates([]);
+      setRoute(null);
       setEstimateError(null);
     }
     
@@ -84,7 +133,29 @@ export const RideBooking: React.FC<RideBookingProps> = ({
         clearTimeout(estimateTimeoutRef.current);
       }
     };
-  }, [pickupLocation, dropoffLocation, rideType]);
+  }, [pickupLocation, dropoffLocation, stops, seats, quoteRefreshKey, appliedPromo, scheduledFor]);
+
+  useEffect(() => {
+    onStopsChange?.(stops);
+  }, [stops, onStopsChange]);
+
+  useEffect(() => {
+    onRouteChange?.(route);
+  }, [route, onRouteChange]);
+
+  // Re-quote shortly before the locked price expires so booking never uses a stale quote
+  const quoteExpiresAt = estimates.length > 0
+    ? Math.min(...estimates.map(e => new Date(e.quote_expires_at).getTime()))
+    : null;
+
+  useEffect(() => {
+    if (!quoteExpiresAt) return;
+
+    const refreshIn = quoteExpiresAt - Date.now() - 5000;
+    const timer = setTimeout(() => setQuoteRefreshKey(key => key + 1), Math.max(refreshIn, 0));
+
+    return () => clearTimeout(timer);
+  }, [quoteExpiresAt]);
 
   const handlePickupChange = (location: Location) => {
     console.log('Pickup location changed:', location);
@@ -108,6 +179,14 @@ export const RideBooking: React.FC<RideBookingProps> = ({
     }
   };
 
+  const updateStop = (index: number, location?: Location) => {
+    setStopSlots(prev => prev.map((stop, i) => (i === index ? location : stop)));
+  };
+
+  const removeStop = (index: number) => {
+    setStopSlots(prev => prev.filter((_, i) => i !== index));
+  };
+
   const getEstimate = async () => {
     if (!pickupLocation || !dropoffLocation) return;
     
@@ -115,16 +194,21 @@ export const RideBooking: React.FC<RideBookingProps> = ({
     setEstimateError(null);
     
     try {
-      const rideRequest: RideRequest = {
+      const locations = {
         pickup: pickupLocation,
         dropoff: dropoffLocation,
-        ride_type: rideType,
+        stops,
+        seats, // Priced on the shared estimate only
+        promo_code: appliedPromo ?? undefined,
+        // Scheduled rides are quoted for their pickup time; booking is blocked while the time is invalid
+        scheduled_for: scheduledFor && !scheduledPickupError(scheduledFor) ? scheduledFor.toISOString() : undefined,
       };
       
-      console.log('Getting estimate for:', rideRequest);
-      const estimateData = await rideAPI.getEstimate(rideRequest);
-      console.log('Estimate received:', estimateData);
-      setEstimate(estimateData);
+      console.log('Getting estimates for:', locations);
+      const estimateData = await rideAPI.getEstimates(locations);
+      console.log('Estimates received:', estimateData);
+      setEstimates(estimateData.estimates);
+      setRoute(estimateData.route);
     } catch (error: any) {
       console.error('Estimate error:', error);
       const errorMessage = error.response?.data?.message || error.message || 'Failed to calculate estimate';
@@ -139,6 +223,39 @@ export const RideBooking: React.FC<RideBookingProps> = ({
     }
   };
 
+  const applyPromo = async () => {
+    const code = promoInput.trim().toUpperCase();
+    if (!code) return;
+
+    setIsApplyingPromo(true);
+    setPromoError(null);
+    try {
+      const trip = pickupLocation && dropoffLocation
+        ? { pickup: pickupLocation, dropoff: dropoffLocation, stops, ride_type: rideType, seats: rideType === 'shared' ? seats : undefined }
+        : undefined;
+      const promo = await rideAPI.validatePromo(code, trip);
+
+      setAppliedPromo(promo.code);
+      setPromoInput(promo.code);
+      toast({
+        title: "Promo applied",
+        description: promo.discount_amount !== undefined
+          ? `You save ₹${Math.round(promo.discount_amount)} on this ride`
+          : `${promo.code} will be applied to your fare`,
+      });
+    } catch (error) {
+      setPromoError(getApiErrorMessage(error, "Could not apply promo code"));
+    } finally {
+      setIsApplyingPromo(false);
+    }
+  };
+
+  const removePromo = () => {
+    setAppliedPromo(null);
+    setPromoInput('');
+    setPromoError(null);
+  };
+
   const bookRide = async () => {
     if (!pickupLocation || !dropoffLocation) {
       toast({
@@ -163,7 +280,13 @@ export const RideBooking: React.FC<RideBookingProps> = ({
       const rideRequest: RideRequest = {
         pickup: pickupLocation,
         dropoff: dropoffLocation,
+        stops,
         ride_type: rideType,
+        seats: rideType === 'shared' ? seats : undefined,
+        quote_id: estimate.quote_id,
+        promo_code: estimate.promo ? estimate.promo.code : undefined,
+        payment_method_id: paymentMethod?.id,
+        scheduled_for: scheduledFor ? scheduledFor.toISOString() : undefined,
       };
 
       const startTime = performance.now();
@@ -185,16 +308,61 @@ export const RideBooking: React.FC<RideBookingProps> = ({
       } as RideBookingResponse['performance']);
 
       toast({
-        title: "🎉 Ride booked successfully!",
-        description: `Your ${rideType} ride has been confirmed. Ride ID: ${response.ride_id}`,
+        title: scheduledFor ? "Ride scheduled" : "🎉 Ride booked successfully!",
+        description: scheduledFor
+          ? `Your ${rideType} ride is booked for pickup at ${scheduledFor.toLocaleString()}`
+          : `Your ${rideType} ride has been confirmed. Ride ID: ${response.ride_id}`,
       });
 
+      if (onRideBooked) {
+        onRideBooked(response.ride);
+      }
+
       // Clear locations after successful booking
       setPickupLocation(undefined);
       setDropoffLocation(undefined);
-      setEstimate(null);
+      setStopSlots([]);
+      setEstimates([]);
+      setRoute(null);
+      setScheduledFor(null);
+      removePromo();
     } catch (error: any) {
       console.error('Booking error:', error);
+
+      // The promo was used up or became invalid since the estimate: drop it and show why
+      const promoFailure: PromoError | undefined = error.response?.data;
+      if (promoFailure?.code?.startsWith('PROMO_')) {
+        setAppliedPromo(null);
+        setPromoError(promoFailure.message);
+        toast({
+          title: "Promo not applied",
+          description: `${promoFailure.message}. Review the updated fare and confirm again.`,
+          variant: "destructive",
+        });
+        return;
+      }
+
+      // The quote expired: show the fresh price and let the rider confirm again
+      const quoteError: QuoteErrorResponse | undefined = error.response?.data;
+      if (quoteError?.code === 'QUOTE_EXPIRED' && quoteError.quote) {
+        const freshQuote = quoteError.quote;
+        if (appliedPromo) {
+          // The fresh quote carries no promo preview, so re-estimate with the promo
+          setQuoteRefreshKey(key => key + 1);
+        } else {
+          setEstimates(prev => prev.map(e => (e.ride_type === freshQuote.ride_type ? freshQuote : e)));
+        }
+        toast({
+          title: "Price updated",
+          description: `Your quote expired. The new fare is ₹${Math.round(quoteError.quote.total_fare)} - confirm to book.`,
+        });
+        return;
+      }
+
+      if (error.response?.data?.code === 'PAYMENT_METHOD_INVALID') {
+        setPaymentMethodId(null);
+      }
+
       toast({
         title: "Booking failed",
         description: error.response?.data?.message || "Please try again",
@@ -211,6 +379,8 @@ export const RideBooking: React.FC<RideBookingProps> = ({
     const temp = pickupLocation;
     setPickupLocation(dropoffLocation);
     setDropoffLocation(temp);
+    // The route runs backwards, so the stops do too
+    setStopSlots(prev => [...prev].reverse());
     
     if (onLocationChange) {
       onLocationChange('pickup', dropoffLocation);
@@ -235,12 +405,22 @@ export const RideBooking: React.FC<RideBookingProps> = ({
     window.open(url, '_blank');
   };
 
-  const rideTypes = [
+  const rideTypes: {
+    id: RideType;
+    name: string;
+    icon: React.ReactNode;
+    description: string;
+    features: string[];
+    eta: string;
+    bgColor: string;
+    borderColor: string;
+    textColor: string;
+    iconColor: string;
+  }[] = [
     { 
       id: 'standard', 
       name: 'RideShare Go', 
       icon: <Car className="h-5 w-5" />, 
-      multiplier: 1.0,
       description: 'Affordable everyday rides',
       features: ['AC', '4 seats', 'Affordable'],
       eta: '2-5 min',
@@ -253,7 +433,6 @@ export const RideBooking: React.FC<RideBookingProps> = ({
       id: 'premium', 
       name: 'RideShare Premier', 
       icon: <Crown className="h-5 w-5" />, 
-      multiplier: 1.6,
       description: 'Premium cars with top drivers',
       features: ['Premium AC', 'Luxury seats', 'Top rated drivers'],
       eta: '3-7 min',
@@ -266,7 +445,6 @@ export const RideBooking: React.FC<RideBookingProps> = ({
       id: 'shared', 
       name: 'RideShare Pool', 
       icon: <Users className="h-5 w-5" />, 
-      multiplier: 0.7,
       description: 'Share rides, save money',
       features: ['Shared ride', 'Eco-friendly', 'Budget saver'],
       eta: '5-10 min',
@@ -326,6 +504,36 @@ export const RideBooking: React.FC<RideBookingProps> = ({
             <div className="absolute left-4 top-4 w-0.5 h-4 bg-gray-300"></div>
           </div>
 
+          {/* Stops */}
+          {stopSlots.map((stop, index) => (
+            <div key={index} className="relative mb-2">
+              <div className="absolute left-4 top-4 w-3 h-3 bg-amber-500 rounded-full border-2 border-white shadow-md z-10"></div>
+              <div className="pl-12 pr-4 py-3 bg-gray-50 border border-gray-200 rounded-lg hover:bg-gray-100 transition-colors">
+                <div className="flex items-center justify-between mb-1">
+                  <label className="text-xs font-medium text-gray-600 block uppercase tracking-wide">
+                    Stop {index + 1}
+                  </label>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    className="h-6 w-6 p-0"
+                    title="Remove stop"
+                    onClick={() => removeStop(index)}
+                  >
+                    <X className="h-3 w-3" />
+                  </Button>
+                </div>
+                <LocationPicker
+                  value={stop}
+                  placeholder="Add a stop"
+                  onLocationChange={(location) => updateStop(index, location)}
+                  showCurrentLocation={false}
+                />
+              </div>
+            </div>
+          ))}
+
           {/* Dropoff Location */}
           <div className="relative">
             <div className="absolute left-4 top-4 w-3 h-3 bg-red-500 rounded-full border-2 border-white shadow-md z-10"></div>
@@ -341,6 +549,19 @@ export const RideBooking: React.FC<RideBookingProps> = ({
               />
             </div>
           </div>
+
+          {stopSlots.length < MAX_RIDE_STOPS && (
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              className="mt-2 gap-1 text-ride-primary"
+              onClick={() => setStopSlots(prev => [...prev, undefined])}
+            >
+              <Plus className="h-4 w-4" />
+              Add stop
+            </Button>
+          )}
         </div>
 
         {/* Ride Type Selection - Uber Style */}
@@ -353,12 +574,12 @@ export const RideBooking: React.FC<RideBookingProps> = ({
           <div className="space-y-3">
             {rideTypes.map((type) => {
               const isSelected = rideType === type.id;
-              const fareForType = estimate ? estimate.total_fare * type.multiplier : 0;
+              const estimateForType = estimates.find(e => e.ride_type === type.id);
               
               return (
                 <button
                   key={type.id}
-                  onClick={() => setRideType(type.id as any)}
+                  onClick={() => setRideType(type.id)}
                   className={`w-full p-4 rounded-xl border-2 transition-all text-left hover:shadow-md ${
                     isSelected
                       ? 'border-ride-primary bg-ride-primary/5 shadow-lg'
@@ -390,16 +611,21 @@ export const RideBooking: React.FC<RideBookingProps> = ({
                           <Loader2 className="h-4 w-4 animate-spin" />
                           <span className="text-sm text-gray-500">Calculating...</span>
                         </div>
-                      ) : estimate ? (
+                      ) : estimateForType ? (
                         <>
                           <div className="flex items-center gap-1">
                             <IndianRupee className="h-4 w-4" />
                             <span className="text-xl font-bold">
-                              {Math.round(fareForType)}
+                              {Math.round(payableFare(estimateForType))}
                             </span>
                           </div>
+                          {estimateForType.promo && (
+                            <p className="text-xs text-gray-400 line-through">
+                              ₹{Math.round(estimateForType.total_fare)}
+                            </p>
+                          )}
                           <p className="text-xs text-gray-500 mt-1">
-                            {estimate.duration} min trip
+                            {estimateForType.duration} min trip
                           </p>
                         </>
                       ) : (
@@ -411,8 +637,109 @@ export const RideBooking: React.FC<RideBookingProps> = ({
               );
             })}
           </div>
+
+          {rideType === 'shared' && (
+            <div className="flex items-center justify-between p-3 rounded-lg border border-green-200 bg-green-50">
+              <span className="text-sm font-medium text-green-800">Seats</span>
+              <div className="flex gap-2">
+                {Array.from({ length: MAX_POOL_SEATS }, (_, i) => i + 1).map(count => (
+                  <Button
+                    key={count}
+                    type="button"
+                    size="sm"
+                    variant={seats === count ? 'default' : 'outline'}
+                    onClick={() => setSeats(count)}
+                  >
+                    {count}
+                  </Button>
+                ))}
+              </div>
+            </div>
+          )}
+          {rideType === 'shared' && stops.length > 0 && (
+            <p className="text-xs text-gray-500">Rides with stops aren't shared with co-riders.</p>
+          )}
         </div>
 
+        {/* Promo code */}
+        <div className="space-y-2">
+          <div className="flex items-center gap-2">
+            <Tag className="h-4 w-4 text-gray-600" />
+            <label htmlFor="promo-code" className="text-sm font-medium">Promo code</label>
+          </div>
+          {appliedPromo ? (
+            <div className="flex items-center justify-between p-3 rounded-lg border border-green-200 bg-green-50">
+              <span className="text-sm font-medium text-green-800">{appliedPromo} applied</span>
+              <Button type="button" variant="ghost" size="sm" onClick={removePromo} className="h-7 w-7 p-0">
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+          ) : (
+            <div className="flex gap-2">
+              <Input
+                id="promo-code"
+                value={promoInput}
+                onChange={(e) => {
+                  setPromoInput(e.target.value);
+                  setPromoError(null);
+                }}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') applyPromo();
+                }}
+                placeholder="Enter promo code"
+                className="uppercase"
+                maxLength={20}
+              />
+              <Button
+                type="button"
+                variant="outline"
+                onClick={applyPromo}
+                disabled={!promoInput.trim() || isApplyingPromo}
+              >
+                {isApplyingPromo ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Apply'}
+              </Button>
+            </div>
+          )}
+          {promoError && (
+            <p className="text-xs text-red-600">{promoError}</p>
+          )}
+        </div>
+
+        {/* Pickup time */}
+        <PickupTimePicker value={scheduledFor} onChange={setScheduledFor} />
+
+        {/* Payment method */}
+        {paymentMethods.length > 0 && (
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-2">
+                <CreditCard className="h-4 w-4 text-gray-600" />
+                <span className="text-sm font-medium">Pay with</span>
+              </div>
+              {onManagePaymentMethods && (
+                <Button type="button" variant="link" size="sm" className="h-auto p-0" onClick={onManagePaymentMethods}>
+                  Manage
+                </Button>
+              )}
+            </div>
+            <Select value={paymentMethod?.id} onValueChange={setPaymentMethodId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Choose a payment method" />
+              </SelectTrigger>
+              <SelectContent>
+                {paymentMethods.map(method => (
+                  <SelectItem key={method.id} value={method.id}>
+                    <div className="flex items-center gap-2">
+                      <PaymentMethodIcon type={method.payment_type} className="h-4 w-4" />
+                      <span>{paymentMethodLabel(method)}</span>
+                    </div>
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
         {/* Estimate Display - Uber Style */}
         {isEstimating && (
           <Card className="border-blue-200 bg-gradient-to-r from-blue-50 to-blue-100">
@@ -474,7 +801,7 @@ export const RideBooking: React.FC<RideBookingProps> = ({
                     <IndianRupee className="h-5 w-5 text-green-600" />
                   </div>
                   <p className="text-lg font-bold text-green-800">
-                    ₹{Math.round(estimate.total_fare * selectedRideType!.multiplier)}
+                    ₹{Math.round(payableFare(estimate))}
                   </p>
                   <p className="text-xs text-green-600 uppercase tracking-wide">Total Fare</p>
                 </div>
@@ -499,6 +826,25 @@ export const RideBooking: React.FC<RideBookingProps> = ({
                 {/* ✅ FIXED: Use optional chaining and provide default */}
                 <span>Distance Fare: ₹{Math.round(estimate.distance_fare ?? 0)}</span>
               </div>
+
+              {(estimate.stops_fare ?? 0) > 0 && (
+                <div className="flex items-center justify-between text-xs text-green-600 mt-2">
+                  <span>{stops.length} {stops.length === 1 ? 'stop' : 'stops'} (incl. wait time)</span>
+                  <span>₹{Math.round(estimate.stops_fare ?? 0)}</span>
+                </div>
+              )}
+
+              {estimate.promo && (
+                <div className="flex items-center justify-between text-xs text-green-700 mt-2">
+                  <span>Promo {estimate.promo.code}</span>
+                  <span>-₹{Math.round(estimate.promo.discount_amount)}</span>
+                </div>
+              )}
+              {estimate.promo_error && (
+                <p className="text-xs text-red-600 mt-2">
+                  Promo not applied: {estimate.promo_error.message}
+                </p>
+              )}
             </CardContent>
           </Card>
         )}
@@ -544,7 +890,10 @@ export const RideBooking: React.FC<RideBookingProps> = ({
         <div className="space-y-3">
           <Button
             onClick={bookRide}
-            disabled={!pickupLocation || !dropoffLocation || isLoading || isEstimating || !!estimateError}
+            disabled={
+              !pickupLocation || !dropoffLocation || isLoading || isEstimating || !!estimateError ||
+              (!!scheduledFor && !!scheduledPickupError(scheduledFor))
+            }
             className="w-full h-14 bg-gradient-to-r from-ride-primary to-ride-secondary hover:from-ride-primary/90 hover:to-ride-secondary/90 text-lg font-semibold rounded-xl shadow-lg"
           >
             {isLoading ? (
@@ -554,8 +903,8 @@ export const RideBooking: React.FC<RideBookingProps> = ({
               </div>
             ) : estimate ? (
               <div className="flex items-center gap-2">
-                <span>Confirm {selectedRideType?.name}</span>
-                <span>• ₹{Math.round(estimate.total_fare * selectedRideType!.multiplier)}</span>
+                <span>{scheduledFor ? 'Schedule' : 'Confirm'} {selectedRideType?.name}</span>
+                <span>• ₹{Math.round(payableFare(estimate))}</span>
               </div>
             ) : (
               'Select pickup & dropoff locations'
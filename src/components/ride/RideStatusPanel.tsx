@@ -0,0 +1,306 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/enhanced-button';
+import { Badge } from '@/components/ui/badge';
+import { RatingDialog } from './RatingDialog';
+import { rideAPI, getApiErrorMessage } from '@/lib/api';
+import { rideStatusBadge } from '@/lib/rides';
+import { useRideStatus } from '@/hooks/use-ride-status';
+import { useToast } from '@/hooks/use-toast';
+import { Ride, RidePool, RideStatus, RideStop } from '@/types/ride';
+import {
+  CalendarClock,
+  Car,
+  CheckCircle2,
+  Loader2,
+  MapPin,
+  Phone,
+  Star,
+  XCircle,
+  Navigation,
+  Flag,
+  Circle,
+  Users,
+} from 'lucide-react';
+
+interface RideStatusPanelProps {
+  rideId: string;
+  rideType: Ride['ride_type'];
+  fare?: number;
+  scheduledFor?: string; // Pickup time of a ride booked in advance
+  stops?: RideStop[];
+  pool?: RidePool | null; // Shared rides only
+  initialStatus?: RideStatus;
+  onStatusChange?: (status: RideStatus) => void;
+  onClose?: () => void;
+}
+
+// Progress steps follow the Ride.status union; "arriving" is a phase of `accepted`
+const steps = [
+  { key: 'requested', label: 'Finding driver', icon: Loader2 },
+  { key: 'accepted', label: 'Driver on the way', icon: Car },
+  { key: 'arriving', label: 'Driver arriving', icon: MapPin },
+  { key: 'in_progress', label: 'On trip', icon: Navigation },
+  { key: 'completed', label: 'Arrived', icon: Flag },
+] as const;
+
+type StepKey = typeof steps[number]['key'];
+
+export const RideStatusPanel: React.FC<RideStatusPanelProps> = ({
+  rideId,
+  rideType,
+  fare,
+  scheduledFor,
+  stops = [],
+  pool,
+  initialStatus = 'requested',
+  onStatusChange,
+  onClose,
+}) => {
+  const rideStatus = useRideStatus(rideId, initialStatus);
+  const [isCancelling, setIsCancelling] = useState(false);
+  const [showRating, setShowRating] = useState(false);
+  const [givenRating, setGivenRating] = useState<number | null>(null);
+  const { toast } = useToast();
+
+  const { status, driver, eta, isDriverArriving } = rideStatus;
+
+  React.useEffect(() => {
+    onStatusChange?.(status);
+  }, [status, onStatusChange]);
+
+  // Ask for a rating when the trip finishes while the panel is open
+  const previousStatus = React.useRef(status);
+  React.useEffect(() => {
+    if (status === 'completed' && previousStatus.current !== 'completed') {
+      setShowRating(true);
+    }
+    previousStatus.current = status;
+  }, [status]);
+
+  const currentStep: StepKey = status === 'accepted' && isDriverArriving
+    ? 'arriving'
+    : status === 'cancelled' || status === 'scheduled'
+      ? 'requested'
+      : status;
+  const currentIndex = steps.findIndex(step => step.key === currentStep);
+  const canCancel = status === 'scheduled' || status === 'requested' || status === 'accepted';
+  const isFinished = status === 'completed' || status === 'cancelled';
+
+  const cancelRide = async () => {
+    setIsCancelling(true);
+    try {
+      const { ride } = await rideAPI.cancelRide(rideId);
+      toast({
+        title: "Ride cancelled",
+        description: ride.cancellation_fee
+          ? `A late cancellation fee of ₹${ride.cancellation_fee.toFixed(2)} was charged`
+          : "Your ride request has been cancelled",
+      });
+    } catch (error) {
+      toast({
+        title: "Failed to cancel ride",
+        description: getApiErrorMessage(error, "Please try again"),
+        variant: "destructive",
+      });
+    } finally {
+      setIsCancelling(false);
+    }
+  };
+
+  return (
+    <Card className="border-card-border shadow-lg">
+      <CardHeader className="pb-4">
+        <CardTitle className="flex items-center justify-between">
+          <span className="flex items-center gap-2">
+            <Car className="h-5 w-5 text-ride-primary" />
+            Your {rideType} ride
+          </span>
+          <Badge variant="secondary" className={rideStatusBadge[status].className}>
+            {rideStatusBadge[status].label}
+          </Badge>
+        </CardTitle>
+        <p className="text-xs text-muted-foreground">Ride ID: {rideId}</p>
+      </CardHeader>
+
+      <CardContent className="space-y-6">
+        {status === 'scheduled' && (
+          <div className="flex items-center gap-3 p-4 rounded-lg border border-sky-900/30 bg-sky-950/20">
+            <CalendarClock className="h-5 w-5 text-sky-400" />
+            <div>
+              <p className="font-medium text-sky-400">
+                Pickup {scheduledFor ? `at ${new Date(scheduledFor).toLocaleString()}` : 'scheduled'}
+              </p>
+              <p className="text-sm text-muted-foreground">
+                We'll start finding your driver shortly before pickup.
+              </p>
+            </div>
+          </div>
+        )}
+
+        {/* Progress */}
+        {status !== 'cancelled' && status !== 'scheduled' && (
+          <ol className="space-y-3">
+            {steps.map((step, index) => {
+              const Icon = step.icon;
+              const isDone = index < currentIndex || status === 'completed';
+              const isActive = index === currentIndex && status !== 'completed';
+
+              return (
+                <li key={step.key} className="flex items-center gap-3">
+                  <div
+                    className={`p-2 rounded-full ${
+                      isDone
+                        ? 'bg-green-900/30 text-green-400'
+                        : isActive
+                          ? 'bg-ride-primary/20 text-ride-primary'
+                          : 'bg-muted text-muted-foreground'
+                    }`}
+                  >
+                    {isDone ? (
+                      <CheckCircle2 className="h-4 w-4" />
+                    ) : (
+                      <Icon className={`h-4 w-4 ${isActive && step.key === 'requested' ? 'animate-spin' : ''}`} />
+                    )}
+                  </div>
+                  <span className={`text-sm ${isActive ? 'font-semibold' : 'text-muted-foreground'}`}>
+                    {step.label}
+                    {isActive && step.key === 'accepted' && eta !== undefined && ` • ${eta} min away`}
+                  </span>
+                </li>
+              );
+            })}
+          </ol>
+        )}
+
+        {stops.length > 0 && status !== 'cancelled' && (
+          <div className="space-y-2">
+            <p className="text-sm font-medium">Stops</p>
+            {stops.map(stop => {
+              const reached = !!stop.arrived_at
+                || (rideStatus.lastStopReached !== undefined && stop.stop_order <= rideStatus.lastStopReached)
+                || status === 'completed';
+
+              return (
+                <div key={stop.stop_order} className="flex items-center gap-2 text-sm">
+                  {reached ? (
+                    <CheckCircle2 className="h-4 w-4 text-green-400 shrink-0" />
+                  ) : (
+                    <Circle className="h-4 w-4 text-amber-500 shrink-0" />
+                  )}
+                  <span className={`truncate ${reached ? 'text-muted-foreground' : ''}`}>
+                    {stop.location.address || `Stop ${stop.stop_order}`}
+                  </span>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {status === 'cancelled' && (
+          <div className="flex items-center gap-3 p-4 rounded-lg border border-red-900/30 bg-red-950/20">
+            <XCircle className="h-5 w-5 text-red-400" />
+            <div>
+              <p className="font-medium text-red-400">Ride cancelled</p>
+              <p className="text-sm text-muted-foreground">
+                {rideStatus.reason || (rideStatus.cancelledBy === 'rider'
+                  ? 'You cancelled this ride'
+                  : 'This ride was cancelled')}
+              </p>
+            </div>
+          </div>
+        )}
+
+        {/* Driver details */}
+        {driver && status !== 'cancelled' && (
+          <div className="p-4 rounded-lg border border-border bg-muted/30 space-y-1">
+            <div className="flex items-center justify-between">
+              <p className="font-semibold">{driver.name}</p>
+              <span className="flex items-center gap-1 text-sm">
+                <Star className="h-3 w-3 text-yellow-400" />
+                {driver.rating}
+              </span>
+            </div>
+            <p className="text-sm text-muted-foreground">
+              {driver.vehicle_type} • {driver.license_plate}
+            </p>
+            {driver.phone && (
+              <p className="flex items-center gap-1 text-sm text-muted-foreground">
+                <Phone className="h-3 w-3" />
+                {driver.phone}
+              </p>
+            )}
+          </div>
+        )}
+
+        {pool && (pool.co_riders > 0 || pool.pool_discount > 0) && (
+          <div className="flex items-center gap-3 p-3 rounded-lg border border-green-900/30 bg-green-950/20 text-sm">
+            <Users className="h-4 w-4 text-green-400 shrink-0" />
+            <div>
+              {pool.co_riders > 0 && (
+                <p className="font-medium text-green-400">
+                  Sharing with {pool.co_riders} co-rider{pool.co_riders === 1 ? '' : 's'}
+                </p>
+              )}
+              {pool.pool_discount > 0 && (
+                <p className="text-muted-foreground">You save ₹{Math.round(pool.pool_discount)} by sharing</p>
+              )}
+            </div>
+          </div>
+        )}
+
+        {fare !== undefined && (
+          <div className="flex items-center justify-between text-sm">
+            <span className="text-muted-foreground">Fare</span>
+            <span className="font-semibold">₹{Math.round(fare)}</span>
+          </div>
+        )}
+
+        {rideStatus.error && (
+          <p className="text-xs text-red-400">Live updates unavailable: {rideStatus.error}</p>
+        )}
+
+        <div className="space-y-2">
+          {canCancel && (
+            <Button
+              variant="outline"
+              className="w-full"
+              onClick={cancelRide}
+              disabled={isCancelling}
+            >
+              {isCancelling ? 'Cancelling...' : 'Cancel ride'}
+            </Button>
+          )}
+          {status === 'completed' && (
+            givenRating ? (
+              <p className="flex items-center justify-center gap-1 text-sm text-muted-foreground">
+                You rated this trip {givenRating}
+                <Star className="h-3 w-3 fill-yellow-400 text-yellow-400" />
+              </p>
+            ) : (
+              <Button variant="outline" className="w-full gap-2" onClick={() => setShowRating(true)}>
+                <Star className="h-4 w-4" />
+                Rate your driver
+              </Button>
+            )
+          )}
+          {/* A scheduled ride stays in trip history, so the rider can book another in the meantime */}
+          {(isFinished || status === 'scheduled') && onClose && (
+            <Button className="w-full" onClick={onClose}>
+              Book another ride
+            </Button>
+          )}
+        </div>
+      </CardContent>
+
+      <RatingDialog
+        rideId={rideId}
+        subject="driver"
+        name={driver?.name}
+        open={showRating}
+        onOpenChange={setShowRating}
+        onRated={setGivenRating}
+      />
+    </Card>
+  );
+};
@@ -0,0 +1,203 @@
+import React, { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/enhanced-button';
+import { Separator } from '@/components/ui/separator';
+import { TripThumbnail } from '@/components/map/TripThumbnail';
+import { PaymentMethodIcon } from '@/components/payment/PaymentMethodsSheet';
+import { rideAPI, getApiErrorMessage } from '@/lib/api';
+import { paymentMethodLabel } from '@/lib/payment-methods';
+import { formatRupees, rideStatusBadge, rideTypeNames } from '@/lib/rides';
+import { saveBlob } from '@/lib/utils';
+import { TripReceipt } from '@/types/ride';
+import { useToast } from '@/hooks/use-toast';
+import { Car, Circle, Download, Loader2, MapPin, Navigation } from 'lucide-react';
+
+interface TripReceiptDialogProps {
+  rideId: string | null;
+  onClose: () => void;
+}
+
+const ReceiptLine: React.FC<{ label: string; amount: string; className?: string }> = ({ label, amount, className }) => (
+  <div className={`flex justify-between text-sm ${className ?? ''}`}>
+    <span>{label}</span>
+    <span>{amount}</span>
+  </div>
+);
+
+export const TripReceiptDialog: React.FC<TripReceiptDialogProps> = ({ rideId, onClose }) => {
+  const [receipt, setReceipt] = useState<TripReceipt | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isDownloading, setIsDownloading] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!rideId) return;
+
+    let cancelled = false;
+    setReceipt(null);
+    setError(null);
+
+    rideAPI.getReceipt(rideId)
+      .then(data => {
+        if (!cancelled) setReceipt(data);
+      })
+      .catch(err => {
+        if (!cancelled) setError(getApiErrorMessage(err, 'Failed to load receipt'));
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [rideId]);
+
+  const downloadPdf = async () => {
+    if (!receipt) return;
+
+    setIsDownloading(true);
+    try {
+      const pdf = await rideAPI.downloadReceiptPdf(receipt.ride.id);
+      saveBlob(pdf, `receipt-${receipt.ride.id}.pdf`);
+    } catch (err) {
+      toast({
+        title: "Download failed",
+        description: getApiErrorMessage(err, "Could not download the receipt"),
+        variant: "destructive",
+      });
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
+  const breakdown = receipt?.fare_breakdown;
+
+  return (
+    <Dialog open={!!rideId} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Trip receipt</DialogTitle>
+          <DialogDescription>
+            {receipt ? new Date(receipt.ride.created_at).toLocaleString() : 'Loading trip details...'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {error && <p className="text-sm text-red-400">{error}</p>}
+
+        {!receipt && !error && (
+          <div className="flex justify-center py-8">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-ride-primary"></div>
+          </div>
+        )}
+
+        {receipt && breakdown && (
+          <div className="space-y-4">
+            <div className="flex items-start gap-4">
+              <TripThumbnail pickup={receipt.ride.pickup} dropoff={receipt.ride.dropoff} width={140} height={90} />
+              <div className="space-y-2 text-sm min-w-0">
+                <div className="flex items-start gap-2">
+                  <MapPin className="h-4 w-4 text-green-500 mt-0.5 shrink-0" />
+                  <span className="truncate">{receipt.ride.pickup.address}</span>
+                </div>
+                {receipt.ride.stops?.map(stop => (
+                  <div key={stop.stop_order} className="flex items-start gap-2 text-muted-foreground">
+                    <Circle className="h-4 w-4 text-amber-500 mt-0.5 shrink-0" />
+                    <span className="truncate">{stop.location.address}</span>
+                  </div>
+                ))}
+                <div className="flex items-start gap-2">
+                  <Navigation className="h-4 w-4 text-red-500 mt-0.5 shrink-0" />
+                  <span className="truncate">{receipt.ride.dropoff.address}</span>
+                </div>
+              </div>
+            </div>
+
+            <div className="flex items-center justify-between text-sm">
+              <span className="flex items-center gap-2">
+                <Car className="h-4 w-4" />
+                {rideTypeNames[receipt.ride.ride_type]}
+                {receipt.ride.distance_km !== undefined && ` • ${receipt.ride.distance_km} km`}
+                {receipt.ride.duration_minutes !== undefined && ` • ${receipt.ride.duration_minutes} min`}
+              </span>
+              <Badge variant="secondary" className={rideStatusBadge[receipt.ride.status].className}>
+                {rideStatusBadge[receipt.ride.status].label}
+              </Badge>
+            </div>
+
+            {receipt.driver && (
+              <p className="text-sm text-muted-foreground">
+                {receipt.driver.name} • {receipt.driver.vehicle_type} • {receipt.driver.license_plate}
+              </p>
+            )}
+
+            <Separator />
+
+            <div className="space-y-2">
+              {breakdown.base_fare !== undefined && breakdown.distance_fare !== undefined ? (
+                <>
+                  <ReceiptLine label="Base fare" amount={formatRupees(breakdown.base_fare)} />
+                  <ReceiptLine label="Distance" amount={formatRupees(breakdown.distance_fare)} />
+                </>
+              ) : (
+                <ReceiptLine label="Trip fare" amount={formatRupees(breakdown.subtotal)} />
+              )}
+              {breakdown.stops_fare > 0 && (
+                <ReceiptLine label={`Stops (${receipt.ride.stops?.length ?? 0})`} amount={formatRupees(breakdown.stops_fare)} />
+              )}
+              {breakdown.surge_multiplier > 1 && (
+                <ReceiptLine
+                  label={`Surge (${breakdown.surge_multiplier.toFixed(2)}x)`}
+                  amount={formatRupees(breakdown.surge_amount)}
+                  className="text-orange-400"
+                />
+              )}
+              {breakdown.discount_amount > 0 && (
+                <ReceiptLine
+                  label={breakdown.promo_code ? `Promo ${breakdown.promo_code}` : 'Discount'}
+                  amount={`-${formatRupees(breakdown.discount_amount)}`}
+                  className="text-green-400"
+                />
+              )}
+              {breakdown.pool_discount > 0 && (
+                <ReceiptLine
+                  label="Shared with co-riders"
+                  amount={`-${formatRupees(breakdown.pool_discount)}`}
+                  className="text-green-400"
+                />
+              )}
+              <Separator />
+              {breakdown.cancellation_fee > 0 ? (
+                <ReceiptLine
+                  label="Late cancellation fee charged"
+                  amount={formatRupees(breakdown.total)}
+                  className="font-semibold text-base text-red-400"
+                />
+              ) : (
+                <ReceiptLine label="Total" amount={formatRupees(breakdown.total)} className="font-semibold text-base" />
+              )}
+              <ReceiptLine
+                label={`Includes GST (${Math.round(breakdown.tax_rate * 100)}%)`}
+                amount={formatRupees(breakdown.tax_amount)}
+                className="text-muted-foreground text-xs"
+              />
+            </div>
+
+            {receipt.payment && (
+              <div className="flex items-center justify-between p-3 rounded-lg bg-muted/30 text-sm">
+                <span className="flex items-center gap-2">
+                  <PaymentMethodIcon type={receipt.payment.payment_type ?? 'wallet'} className="h-4 w-4" />
+                  {receipt.payment.method ? paymentMethodLabel(receipt.payment.method) : receipt.payment.provider}
+                </span>
+                <span className="capitalize text-muted-foreground">{receipt.payment.status}</span>
+              </div>
+            )}
+
+            <Button variant="outline" className="w-full gap-2" onClick={downloadPdf} disabled={isDownloading}>
+              {isDownloading ? <Loader2 className="h-4 w-4 animate-spin" /> : <Download className="h-4 w-4" />}
+              Download PDF
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,40 @@
+import * as React from "react";
+import { rideAPI } from "@/lib/api";
+import { DriverRoute, RideStatus } from "@/types/ride";
+
+const ROUTED_STATUSES: RideStatus[] = ["accepted", "in_progress"];
+
+// The driver keeps moving, so the route is re-fetched on this interval as well as on status changes
+const DRIVER_ROUTE_REFRESH_MS = 15000;
+
+// Road route of the assigned driver while a ride is accepted or under way
+export function useDriverRoute(rideId?: string, status?: RideStatus) {
+  const [driverRoute, setDriverRoute] = React.useState<DriverRoute | null>(null);
+  const isRouted = !!rideId && !!status && ROUTED_STATUSES.includes(status);
+
+  React.useEffect(() => {
+    if (!rideId || !isRouted) {
+      setDriverRoute(null);
+      return;
+    }
+
+    let cancelled = false;
+    const refresh = async () => {
+      try {
+        const data = await rideAPI.getDriverRoute(rideId);
+        if (!cancelled) setDriverRoute(data);
+      } catch (error) {
+        console.error("Failed to load driver route:", error);
+      }
+    };
+
+    refresh();
+    const timer = setInterval(refresh, DRIVER_ROUTE_REFRESH_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+    };
+  }, [rideId, status, isRouted]);
+
+  return driverRoute;
+}
@@ -0,0 +1,121 @@
+import * as React from "react";
+import { rideAPI } from "@/lib/api";
+import { socketService } from "@/lib/socket";
+import { bearingDegrees, distanceKm } from "@/lib/geo";
+import { Driver, Location } from "@/types/ride";
+import { DriverMovedPayload } from "@/types/socket";
+
+export interface LiveDriver extends Driver {
+  heading?: number; // Degrees clockwise from north, from the last two positions
+  moved_at: number; // When the current position was received
+  move_ms?: number; // Time between the last two positions; markers glide over it
+}
+
+// Matches the nearby-drivers search radius
+const NEARBY_RADIUS_KM = 5;
+
+// Drivers who haven't reported for this long have likely lost connection; parked drivers still
+// re-send their position every 15s from the driver console
+const STALE_DRIVER_MS = 2 * 60 * 1000;
+const STALE_CHECK_INTERVAL_MS = 15000;
+
+// A driver we don't know yet moved close by; their details come from a reload, at most this often
+const RELOAD_THROTTLE_MS = 10000;
+
+// Movements shorter than this (GPS jitter) keep the previous heading
+const MIN_HEADING_DISTANCE_KM = 0.005;
+
+// Nearby drivers around `center`, kept live from the driver-moved / driver-offline stream
+export function useLiveDrivers(center?: Location) {
+  const [drivers, setDrivers] = React.useState<LiveDriver[]>([]);
+  const [isLoading, setIsLoading] = React.useState(false);
+  const lastLoadRef = React.useRef(0);
+  const driversRef = React.useRef(drivers);
+
+  React.useEffect(() => {
+    driversRef.current = drivers;
+  }, [drivers]);
+
+  const load = React.useCallback(async (at: Location) => {
+    lastLoadRef.current = Date.now();
+    setIsLoading(true);
+    try {
+      const nearby = await rideAPI.getNearbyDrivers(at.lat, at.lng, NEARBY_RADIUS_KM);
+      const loadedAt = Date.now();
+      setDrivers((prev) => nearby.map((driver) => ({
+        ...driver,
+        heading: prev.find((d) => d.id === driver.id)?.heading,
+        moved_at: loadedAt,
+      })));
+    } catch (error) {
+      // Not critical; the map just shows fewer drivers
+      console.error("Failed to load drivers:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  const lat = center?.lat;
+  const lng = center?.lng;
+
+  React.useEffect(() => {
+    if (lat !== undefined && lng !== undefined) {
+      load({ lat, lng });
+    }
+  }, [lat, lng, load]);
+
+  React.useEffect(() => {
+    const socket = socketService.connect();
+
+    const onDriverMoved = ({ driverId, location, status }: DriverMovedPayload) => {
+      const now = Date.now();
+      const isKnown = driversRef.current.some((driver) => driver.id === driverId);
+
+      setDrivers((prev) => prev.flatMap((driver) => {
+        if (driver.id !== driverId) return [driver];
+        if (status === "offline") return [];
+
+        const moved = distanceKm(driver.location, location) >= MIN_HEADING_DISTANCE_KM;
+        return [{
+          ...driver,
+          status,
+          location,
+          heading: moved ? bearingDegrees(driver.location, location) : driver.heading,
+          move_ms: now - driver.moved_at,
+          moved_at: now,
+        }];
+      }));
+
+      if (!isKnown && status === "online" && lat !== undefined && lng !== undefined &&
+          distanceKm({ lat, lng }, location) <= NEARBY_RADIUS_KM &&
+          now - lastLoadRef.current > RELOAD_THROTTLE_MS) {
+        load({ lat, lng });
+      }
+    };
+
+    const onDriverOffline = ({ driverId }: { driverId: string }) => {
+      setDrivers((prev) => prev.filter((driver) => driver.id !== driverId));
+    };
+
+    socket.on("driver-moved", onDriverMoved);
+    socket.on("driver-offline", onDriverOffline);
+    return () => {
+      socket.off("driver-moved", onDriverMoved);
+      socket.off("driver-offline", onDriverOffline);
+    };
+  }, [lat, lng, load]);
+
+  React.useEffect(() => {
+    const timer = setInterval(() => {
+      const cutoff = Date.now() - STALE_DRIVER_MS;
+      setDrivers((prev) => {
+        const fresh = prev.filter((driver) => driver.moved_at >= cutoff);
+        return fresh.length === prev.length ? prev : fresh;
+      });
+    }, STALE_CHECK_INTERVAL_MS);
+
+    return () => clearInterval(timer);
+  }, []);
+
+  return { drivers, isLoading };
+}
@@ -0,0 +1,31 @@
+import * as React from "react";
+import { paymentMethodAPI } from "@/lib/api";
+import { PaymentMethod } from "@/types/payment";
+
+// The rider's saved payment methods, default first
+export function usePaymentMethods(enabled: boolean) {
+  const [methods, setMethods] = React.useState<PaymentMethod[]>([]);
+  const [isLoading, setIsLoading] = React.useState(false);
+
+  const refresh = React.useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const data = await paymentMethodAPI.getMethods();
+      setMethods(data.methods);
+    } catch (error) {
+      console.error("Failed to load payment methods:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  React.useEffect(() => {
+    if (enabled) {
+      refresh();
+    }
+  }, [enabled, refresh]);
+
+  const defaultMethod = methods.find(method => method.is_default) ?? methods[0];
+
+  return { methods, defaultMethod, isLoading, refresh };
+}
@@ -0,0 +1,53 @@
+import * as React from "react";
+import { rideAPI } from "@/lib/api";
+import { socketService } from "@/lib/socket";
+import { RidePool, RideStatus } from "@/types/ride";
+import { RidePoolUpdatedPayload } from "@/types/socket";
+
+const POOLED_STATUSES: RideStatus[] = ["accepted", "in_progress"];
+
+// Pool of an active shared ride, reloaded as the ride moves on and whenever co-riders join or leave
+export function useRidePool(rideId?: string, status?: RideStatus) {
+  const [pool, setPool] = React.useState<RidePool | null>(null);
+  const isPooled = !!status && POOLED_STATUSES.includes(status);
+
+  const refresh = React.useCallback(async () => {
+    if (!rideId) return;
+    try {
+      setPool(await rideAPI.getPool(rideId));
+    } catch (error) {
+      console.error("Failed to load ride pool:", error);
+    }
+  }, [rideId]);
+
+  React.useEffect(() => {
+    setPool(null);
+  }, [rideId]);
+
+  React.useEffect(() => {
+    if (rideId && isPooled) {
+      refresh();
+    } else {
+      // Nothing left to share once the ride is over; the discount stays
+      setPool((prev) => prev && { ...prev, co_riders: 0, route: [] });
+    }
+  }, [rideId, status, isPooled, refresh]);
+
+  React.useEffect(() => {
+    if (!rideId) return;
+
+    const socket = socketService.connect();
+    const onPoolUpdated = (payload: RidePoolUpdatedPayload) => {
+      if (payload.ride_id === rideId) {
+        refresh();
+      }
+    };
+
+    socket.on("ride:pool_updated", onPoolUpdated);
+    return () => {
+      socket.off("ride:pool_updated", onPoolUpdated);
+    };
+  }, [rideId, refresh]);
+
+  return pool;
+}
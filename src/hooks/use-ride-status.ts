@@ -0,0 +1,85 @@
+import * as React from "react";
+import { socketService } from "@/lib/socket";
+import { RideStatus } from "@/types/ride";
+import { RideDriver, RideEventPayload, RideLifecycleEvent } from "@/types/socket";
+
+export interface RideStatusState {
+  status: RideStatus;
+  driver?: RideDriver;
+  eta?: number;
+  isDriverArriving: boolean;
+  lastStopReached?: number; // stop_order of the latest stop the driver reached
+  cancelledBy?: RideEventPayload["cancelled_by"];
+  reason?: string;
+  updatedAt?: string;
+  error?: string;
+}
+
+function applyRideEvent(
+  state: RideStatusState,
+  event: RideLifecycleEvent,
+  payload: RideEventPayload
+): RideStatusState {
+  const next: RideStatusState = {
+    ...state,
+    driver: payload.driver ?? state.driver,
+    eta: payload.eta ?? state.eta,
+    updatedAt: payload.timestamp,
+    error: undefined,
+  };
+
+  switch (event) {
+    case "ride:released":
+      // A scheduled ride has entered dispatch
+      return { ...next, status: "requested", isDriverArriving: false };
+    case "ride:accepted":
+      return { ...next, status: "accepted", isDriverArriving: false };
+    case "ride:driver_arriving":
+      // Arriving is a phase of `accepted`, not a separate ride status
+      return { ...next, status: "accepted", isDriverArriving: true };
+    case "ride:started":
+      return { ...next, status: "in_progress", isDriverArriving: false };
+    case "ride:stop_arrived":
+      return { ...next, status: "in_progress", lastStopReached: payload.stop_order ?? state.lastStopReached };
+    case "ride:completed":
+      return { ...next, status: "completed", isDriverArriving: false };
+    case "ride:cancelled":
+      return {
+        ...next,
+        status: "cancelled",
+        isDriverArriving: false,
+        cancelledBy: payload.cancelled_by,
+        reason: payload.reason,
+      };
+    default:
+      return next;
+  }
+}
+
+export function useRideStatus(rideId?: string, initialStatus: RideStatus = "requested") {
+  const [state, setState] = React.useState<RideStatusState>({
+    status: initialStatus,
+    isDriverArriving: false,
+  });
+
+  React.useEffect(() => {
+    if (!rideId) return;
+
+    setState({ status: initialStatus, isDriverArriving: false });
+
+    return socketService.subscribeToRide(rideId, {
+      onEvent: (event, payload) => setState((prev) => applyRideEvent(prev, event, payload)),
+      onSnapshot: (payload) =>
+        setState((prev) => ({
+          ...prev,
+          status: payload.status,
+          driver: payload.driver ?? prev.driver,
+          updatedAt: payload.timestamp,
+          error: undefined,
+        })),
+      onError: (payload) => setState((prev) => ({ ...prev, error: payload.message })),
+    });
+  }, [rideId, initialStatus]);
+
+  return state;
+}
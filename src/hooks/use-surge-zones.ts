@@ -0,0 +1,56 @@
+import * as React from "react";
+import { rideAPI, getApiErrorMessage } from "@/lib/api";
+import { SurgeZone } from "@/types/ride";
+
+// Surge is recomputed server-side about once a minute
+const SURGE_REFRESH_INTERVAL_MS = 60000;
+
+export interface SurgeZonesState {
+  zones: SurgeZone[];
+  maxMultiplier: number;
+  isLoading: boolean;
+  error?: string;
+}
+
+// Polls per-zone demand surge while `enabled`
+export function useSurgeZones(enabled: boolean): SurgeZonesState {
+  const [state, setState] = React.useState<SurgeZonesState>({
+    zones: [],
+    maxMultiplier: 3,
+    isLoading: false,
+  });
+
+  React.useEffect(() => {
+    if (!enabled) return;
+
+    let cancelled = false;
+
+    const load = async () => {
+      setState(prev => ({ ...prev, isLoading: true }));
+      try {
+        const data = await rideAPI.getSurgeZones();
+        if (!cancelled) {
+          setState({ zones: data.zones, maxMultiplier: data.max_multiplier, isLoading: false });
+        }
+      } catch (error) {
+        if (!cancelled) {
+          setState(prev => ({
+            ...prev,
+            isLoading: false,
+            error: getApiErrorMessage(error, "Failed to load surge zones"),
+          }));
+        }
+      }
+    };
+
+    load();
+    const interval = setInterval(load, SURGE_REFRESH_INTERVAL_MS);
+
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [enabled]);
+
+  return state;
+}
@@ -0,0 +1,26 @@
+import * as React from "react";
+import { authService } from "@/lib/auth";
+import { walletAPI } from "@/lib/api";
+
+// Live wallet balance; starts from the stored user and writes fresh values back to it
+export function useWalletBalance(enabled: boolean) {
+  const [balance, setBalance] = React.useState(() => authService.getUser()?.wallet_balance ?? 0);
+
+  const refresh = React.useCallback(async () => {
+    try {
+      const wallet = await walletAPI.getWallet({ limit: 1 });
+      setBalance(wallet.balance);
+      authService.updateUser({ wallet_balance: wallet.balance });
+    } catch (error) {
+      console.error("Failed to refresh wallet balance:", error);
+    }
+  }, []);
+
+  React.useEffect(() => {
+    if (enabled) {
+      refresh();
+    }
+  }, [enabled, refresh]);
+
+  return { balance, refresh };
+}
@@ -1,7 +1,10 @@
 import axios, { AxiosResponse } from 'axios';
 import { authService } from './auth';
-import { RideRequest, RideEstimate, Driver, RideBookingResponse } from '@/types/ride';
+import { RideRequest, RideEstimatesResponse, Driver, Ride, RideAction, RideBookingResponse, RideTransitionResponse, GeoBounds, SurgeZonesResponse, PromoValidationResponse, TripHistory, TripHistoryFilters, TripReceipt, TripExportParams, DriverRatingRequest, RateDriverResponse, RiderRatingRequest, RateRiderResponse, RideStop, RidePool, DriverRoute } from '@/types/ride';
 import { SignupRequest, LoginRequest, AuthResponse } from '@/types/auth';
+import { DriverDashboard, DriverStatus, RideOffer } from '@/types/driver';
+import { WalletSummary, TopUpResponse } from '@/types/wallet';
+import { PaymentMethod, NewPaymentMethod } from '@/types/payment';
 
 const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001/api';
 
@@ -39,6 +42,14 @@ apiClient.interceptors.response.use(
   }
 );
 
+// Extract the backend's `message` from a failed request, falling back to a generic text
+export const getApiErrorMessage = (error: unknown, fallback: string): string => {
+  if (axios.isAxiosError(error)) {
+    return error.response?.data?.message || error.message || fallback;
+  }
+  return error instanceof Error ? error.message : fallback;
+};
+
 export const authAPI = {
   signup: (data: SignupRequest): Promise<AuthResponse> =>
     apiClient.post('/auth/signup', data).then(res => res.data),
@@ -51,7 +62,7 @@ export const authAPI = {
 };
 
 export const rideAPI = {
-  getEstimate: (data: RideRequest): Promise<RideEstimate> => {
+  getEstimates: (data: Pick<RideRequest, 'pickup' | 'dropoff' | 'stops' | 'seats' | 'promo_code' | 'scheduled_for'>): Promise<RideEstimatesResponse> => {
     console.log('Sending estimate request:', data);
     return apiClient.post('/rides/estimate', data).then(res => {
       console.log('Estimate response:', res.data);
@@ -71,17 +82,89 @@ export const rideAPI = {
   getNearbyDrivers: (lat: number, lng: number, radius: number = 5): Promise<Driver[]> =>
     apiClient.get(`/rides/nearby-drivers?lat=${lat}&lng=${lng}&radius=${radius}`).then(res => res.data),
   
-  getTripHistory: (): Promise<any> =>
-    apiClient.get('/rides/history').then(res => res.data),
+  validatePromo: (code: string, trip?: Pick<RideRequest, 'pickup' | 'dropoff' | 'stops' | 'seats' | 'ride_type'>): Promise<PromoValidationResponse> =>
+    apiClient.post('/rides/promo/validate', { code, ...trip }).then(res => res.data),
+  
+  getSurgeZones: (bounds?: GeoBounds): Promise<SurgeZonesResponse> =>
+    apiClient.get('/rides/surge-zones', { params: bounds }).then(res => res.data),
+  
+  getTripHistory: (params?: TripHistoryFilters & { limit?: number; before?: string }): Promise<TripHistory> =>
+    apiClient.get('/rides/history', { params }).then(res => res.data),
+  
+  getReceipt: (rideId: string): Promise<TripReceipt> =>
+    apiClient.get(`/rides/${rideId}/receipt/details`).then(res => res.data),
+  
+  downloadReceiptPdf: (rideId: string): Promise<Blob> =>
+    apiClient.get(`/rides/${rideId}/receipt`, { responseType: 'blob' }).then(res => res.data),
+  
+  exportTrips: (params?: TripExportParams): Promise<Blob> =>
+    apiClient.get('/rides/export', { params: { ...params, format: 'csv' }, responseType: 'blob' }).then(res => res.data),
+  
+  rateDriver: (rideId: string, rating: DriverRatingRequest): Promise<RateDriverResponse> =>
+    apiClient.post(`/rides/${rideId}/rating`, rating).then(res => res.data),
+  
+  rateRider: (rideId: string, rating: RiderRatingRequest): Promise<RateRiderResponse> =>
+    apiClient.post(`/rides/${rideId}/rider-rating`, rating).then(res => res.data),
+  
+  cancelRide: (rideId: string, reason?: string): Promise<RideTransitionResponse> =>
+    apiClient.post(`/rides/${rideId}/cancel`, { reason }).then(res => res.data),
+  
+  // Driver-side lifecycle moves; the server rejects illegal transitions with 409
+  transitionRide: (rideId: string, action: Exclude<RideAction, 'cancel'>): Promise<RideTransitionResponse> =>
+    apiClient.post(`/rides/${rideId}/${action}`).then(res => res.data),
+  
+  getPool: (rideId: string): Promise<RidePool> =>
+    apiClient.get(`/rides/${rideId}/pool`).then(res => res.data),
   
-  cancelRide: (rideId: string): Promise<{ message: string }> =>
-    apiClient.delete(`/rides/${rideId}`).then(res => res.data),
+  // Live road route from the assigned driver to where they are heading next
+  getDriverRoute: (rideId: string): Promise<DriverRoute> =>
+    apiClient.get(`/rides/${rideId}/route`).then(res => res.data),
+  
+  // Driver reached an intermediate stop; stops must be reached in order
+  arriveAtStop: (rideId: string, stopOrder: number): Promise<{ message: string; stops: RideStop[] }> =>
+    apiClient.post(`/rides/${rideId}/stops/${stopOrder}/arrive`).then(res => res.data),
 };
 
 export const driverAPI = {
-  updateLocation: (lat: number, lng: number): Promise<{ message: string }> =>
-    apiClient.post('/driver/location', { lat, lng }).then(res => res.data),
+  updateLocation: (lat: number, lng: number, status?: DriverStatus): Promise<{ message: string }> =>
+    apiClient.post('/drivers/location', { lat, lng, status }).then(res => res.data),
+  
+  updateStatus: (status: DriverStatus): Promise<{ message: string; status: DriverStatus }> =>
+    apiClient.post('/drivers/status', { status }).then(res => res.data),
+  
+  getDashboard: (): Promise<DriverDashboard> =>
+    apiClient.get('/drivers/me/dashboard').then(res => res.data),
+  
+  getOffers: (): Promise<RideOffer[]> =>
+    apiClient.get('/drivers/me/offers').then(res => res.data),
+  
+  acceptOffer: (offerId: number): Promise<{ message: string; ride: Ride }> =>
+    apiClient.post(`/drivers/offers/${offerId}/accept`).then(res => res.data),
+  
+  declineOffer: (offerId: number): Promise<{ message: string }> =>
+    apiClient.post(`/drivers/offers/${offerId}/decline`).then(res => res.data),
+};
+
+export const walletAPI = {
+  getWallet: (params?: { limit?: number; before?: number }): Promise<WalletSummary> =>
+    apiClient.get('/wallet', { params }).then(res => res.data),
+  
+  // Charged to a card or UPI method
+  topUp: (amount: number, paymentMethodId: string): Promise<TopUpResponse> =>
+    apiClient.post('/wallet/topup', { amount, payment_method_id: paymentMethodId }).then(res => res.data),
+};
+
+// Payment method API calls
+export const paymentMethodAPI = {
+  getMethods: (): Promise<{ methods: PaymentMethod[] }> =>
+    apiClient.get('/payment-methods').then(res => res.data),
+  
+  addMethod: (method: NewPaymentMethod): Promise<{ method: PaymentMethod }> =>
+    apiClient.post('/payment-methods', method).then(res => res.data),
+  
+  setDefault: (methodId: string): Promise<{ method: PaymentMethod }> =>
+    apiClient.post(`/payment-methods/${methodId}/default`).then(res => res.data),
   
-  updateStatus: (status: 'online' | 'offline' | 'busy'): Promise<{ message: string }> =>
-    apiClient.post('/driver/status', { status }).then(res => res.data),
+  removeMethod: (methodId: string): Promise<{ message: string }> =>
+    apiClient.delete(`/payment-methods/${methodId}`).then(res => res.data),
 };
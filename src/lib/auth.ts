@@ -37,6 +37,16 @@ export const authService = {
     }
   },
 
+  // Keep the stored user in step with server data (e.g. the live wallet balance)
+  updateUser: (changes: Partial<User>): User | null => {
+    const user = authService.getUser();
+    if (!user) return null;
+
+    const updatedUser = normalizeUser({ ...user, ...changes });
+    localStorage.setItem(USER_KEY, JSON.stringify(updatedUser));
+    return updatedUser;
+  },
+
   isAuthenticated: (): boolean => {
     const token = authService.getToken();
     if (!token) return false;
@@ -0,0 +1,19 @@
+import { CardBrand, PaymentMethod } from '@/types/payment';
+
+export const cardBrands: { id: CardBrand; name: string }[] = [
+  { id: 'visa', name: 'Visa' },
+  { id: 'mastercard', name: 'Mastercard' },
+  { id: 'rupay', name: 'RuPay' },
+  { id: 'amex', name: 'American Express' },
+  { id: 'other', name: 'Other' },
+];
+
+// Short human label for a method, e.g. "Visa •••• 4242" or "name@okaxis"
+export const paymentMethodLabel = (method: PaymentMethod) => {
+  if (method.label) return method.label;
+  if (method.payment_type === 'wallet') return 'Wallet';
+  if (method.payment_type === 'upi') return method.upi_handle ?? 'UPI';
+
+  const brand = cardBrands.find(b => b.id === method.card_brand)?.name ?? 'Card';
+  return `${brand} •••• ${method.card_last_four}`;
+};
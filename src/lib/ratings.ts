@@ -0,0 +1,36 @@
+import { DriverRatingTag, RiderRatingTag } from '@/types/ride';
+
+// Tags offered for a good trip (4-5 stars) and for a poor one (1-3 stars)
+export const positiveDriverTags: { id: DriverRatingTag; label: string }[] = [
+  { id: 'safe_driving', label: 'Safe driving' },
+  { id: 'clean_car', label: 'Clean car' },
+  { id: 'friendly', label: 'Friendly' },
+  { id: 'on_time', label: 'On time' },
+  { id: 'good_navigation', label: 'Good navigation' },
+];
+
+export const negativeDriverTags: { id: DriverRatingTag; label: string }[] = [
+  { id: 'unsafe_driving', label: 'Unsafe driving' },
+  { id: 'late_pickup', label: 'Late pickup' },
+  { id: 'unprofessional', label: 'Unprofessional' },
+  { id: 'dirty_car', label: 'Dirty car' },
+  { id: 'wrong_route', label: 'Wrong route' },
+];
+
+// Tags a driver can give a rider
+export const positiveRiderTags: { id: RiderRatingTag; label: string }[] = [
+  { id: 'polite', label: 'Polite' },
+  { id: 'on_time', label: 'Ready on time' },
+  { id: 'respectful', label: 'Respectful' },
+  { id: 'easy_pickup', label: 'Easy pickup' },
+];
+
+export const negativeRiderTags: { id: RiderRatingTag; label: string }[] = [
+  { id: 'kept_waiting', label: 'Kept me waiting' },
+  { id: 'rude', label: 'Rude' },
+  { id: 'messy', label: 'Left a mess' },
+  { id: 'wrong_pickup', label: 'Wrong pickup spot' },
+  { id: 'unsafe_behaviour', label: 'Unsafe behaviour' },
+];
+
+export const ratingLabels = ['', 'Terrible', 'Bad', 'Okay', 'Good', 'Excellent'];
@@ -0,0 +1,39 @@
+import { RideStatus, RideType } from '@/types/ride';
+
+export const rideStatusBadge: Record<RideStatus, { label: string; className: string }> = {
+  scheduled: { label: 'Scheduled', className: 'bg-sky-900/30 text-sky-400' },
+  requested: { label: 'Requested', className: 'bg-blue-900/30 text-blue-400' },
+  accepted: { label: 'Accepted', className: 'bg-purple-900/30 text-purple-400' },
+  in_progress: { label: 'In progress', className: 'bg-amber-900/30 text-amber-400' },
+  completed: { label: 'Completed', className: 'bg-green-900/30 text-green-400' },
+  cancelled: { label: 'Cancelled', className: 'bg-red-900/30 text-red-400' },
+};
+
+export const rideTypeNames: Record<RideType, string> = {
+  standard: 'RideShare Go',
+  premium: 'RideShare Premier',
+  shared: 'RideShare Pool',
+};
+
+// Intermediate stops a ride can have; the backend enforces the same limit
+export const MAX_RIDE_STOPS = 3;
+
+// Seats one shared booking can take
+export const MAX_POOL_SEATS = 2;
+
+export const formatRupees = (amount: number) => `₹${amount.toFixed(2)}`;
+
+// Booking window for scheduled rides; mirrors the backend defaults, which have the final say
+export const SCHEDULE_MIN_LEAD_MINUTES = 30;
+export const SCHEDULE_MAX_DAYS_AHEAD = 7;
+
+export const scheduledPickupError = (pickupAt: Date): string | null => {
+  const minutesAhead = (pickupAt.getTime() - Date.now()) / 60000;
+  if (minutesAhead < SCHEDULE_MIN_LEAD_MINUTES) {
+    return `Pick a time at least ${SCHEDULE_MIN_LEAD_MINUTES} minutes from now`;
+  }
+  if (minutesAhead > SCHEDULE_MAX_DAYS_AHEAD * 24 * 60) {
+    return `Rides can be scheduled up to ${SCHEDULE_MAX_DAYS_AHEAD} days ahead`;
+  }
+  return null;
+};
@@ -0,0 +1,99 @@
+import { io, Socket } from 'socket.io-client';
+import { authService } from './auth';
+import {
+  ServerToClientEvents,
+  ClientToServerEvents,
+  RideEventPayload,
+  RideLifecycleEvent,
+  RideStatusPayload,
+  RideErrorPayload,
+} from '@/types/socket';
+
+const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001/api';
+const SOCKET_URL = import.meta.env.VITE_SOCKET_URL || API_BASE_URL.replace(/\/api\/?$/, '');
+
+export type RideSocket = Socket<ServerToClientEvents, ClientToServerEvents>;
+
+export const RIDE_LIFECYCLE_EVENTS: RideLifecycleEvent[] = [
+  'ride:released',
+  'ride:accepted',
+  'ride:driver_arriving',
+  'ride:started',
+  'ride:stop_arrived',
+  'ride:completed',
+  'ride:cancelled',
+];
+
+export interface RideSubscriptionHandlers {
+  onEvent: (event: RideLifecycleEvent, payload: RideEventPayload) => void;
+  onSnapshot?: (payload: RideStatusPayload) => void;
+  onError?: (payload: RideErrorPayload) => void;
+}
+
+let socket: RideSocket | null = null;
+
+export const socketService = {
+  // Lazily open a single shared connection, authenticated with the current token
+  connect: (): RideSocket => {
+    if (!socket) {
+      socket = io(SOCKET_URL, {
+        auth: (cb) => cb({ token: authService.getToken() }),
+        transports: ['websocket', 'polling'],
+      });
+    }
+    return socket;
+  },
+
+  disconnect: () => {
+    socket?.disconnect();
+    socket = null;
+  },
+
+  // Follow a ride's lifecycle; returns a cleanup function that unsubscribes
+  subscribeToRide: (rideId: string, handlers: RideSubscriptionHandlers): (() => void) => {
+    const client = socketService.connect();
+
+    const subscribe = () => client.emit('ride:subscribe', { rideId });
+
+    const lifecycleListeners = RIDE_LIFECYCLE_EVENTS.map((event) => {
+      const listener = (payload: RideEventPayload) => {
+        if (payload.ride_id === rideId) {
+          handlers.onEvent(event, payload);
+        }
+      };
+      client.on(event, listener);
+      return { event, listener };
+    });
+
+    const snapshotListener = (payload: RideStatusPayload) => {
+      if (payload.ride_id === rideId) {
+        handlers.onSnapshot?.(payload);
+      }
+    };
+
+    const errorListener = (payload: RideErrorPayload) => {
+      if (!payload.ride_id || payload.ride_id === rideId) {
+        handlers.onError?.(payload);
+      }
+    };
+
+    client.on('ride:status', snapshotListener);
+    client.on('ride:error', errorListener);
+    // Rooms are lost on reconnect, so subscribe again every time we connect
+    client.on('connect', subscribe);
+
+    if (client.connected) {
+      subscribe();
+    }
+
+    return () => {
+      lifecycleListeners.forEach(({ event, listener }) => client.off(event, listener));
+      client.off('ride:status', snapshotListener);
+      client.off('ride:error', errorListener);
+      client.off('connect', subscribe);
+      if (client.connected) {
+        client.emit('ride:unsubscribe', { rideId });
+      }
+    };
+  },
+};
@@ -0,0 +1,453 @@
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { Navigate } from 'react-router-dom';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/enhanced-button';
+import { Badge } from '@/components/ui/badge';
+import { RideOfferCard } from '@/components/driver/RideOfferCard';
+import { CurrentTripCard } from '@/components/driver/CurrentTripCard';
+import { RideMap } from '@/components/map/RideMap';
+import { RatingDialog } from '@/components/ride/RatingDialog';
+import { authService } from '@/lib/auth';
+import { driverAPI, rideAPI, getApiErrorMessage } from '@/lib/api';
+import { socketService } from '@/lib/socket';
+import { DriverDashboard, DriverStatus, DriverTrip, RideOffer } from '@/types/driver';
+import { RideAction } from '@/types/ride';
+import { useToast } from '@/hooks/use-toast';
+import { LogOut, User, Inbox, IndianRupee, Power, Star, Flame } from 'lucide-react';
+
+// Minimum gap between location pushes while sharing location
+const LOCATION_UPDATE_INTERVAL_MS = 15000;
+
+const statusOptions: { value: DriverStatus; label: string; className: string }[] = [
+  { value: 'online', label: 'Online', className: 'bg-green-900/30 text-green-400' },
+  { value: 'busy', label: 'Busy', className: 'bg-yellow-900/30 text-yellow-400' },
+  { value: 'offline', label: 'Offline', className: 'bg-gray-800 text-gray-400' },
+];
+
+export const DriverDashboardPage: React.FC = () => {
+  const [dashboard, setDashboard] = useState<DriverDashboard | null>(null);
+  const [offers, setOffers] = useState<RideOffer[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isUpdatingStatus, setIsUpdatingStatus] = useState(false);
+  const [respondingOfferId, setRespondingOfferId] = useState<number | null>(null);
+  const [pendingTripAction, setPendingTripAction] = useState<RideAction | null>(null);
+  const [pendingStop, setPendingStop] = useState<number | null>(null);
+  const [tripToRate, setTripToRate] = useState<DriverTrip | null>(null);
+  const lastLocationUpdateRef = useRef(0);
+  const user = authService.getUser();
+  const driverId = user?.role === 'driver' ? user.id : undefined;
+  const { toast } = useToast();
+
+  const status = dashboard?.driver.status ?? 'offline';
+
+  const loadDashboard = useCallback(async () => {
+    try {
+      const [dashboardData, offerData] = await Promise.all([
+        driverAPI.getDashboard(),
+        driverAPI.getOffers(),
+      ]);
+      setDashboard(dashboardData);
+      setOffers(offerData);
+    } catch (error) {
+      console.error('Failed to load driver dashboard:', error);
+      toast({
+        title: "Failed to load dashboard",
+        description: getApiErrorMessage(error, "Please refresh the page"),
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    if (driverId) {
+      loadDashboard();
+    }
+  }, [loadDashboard, driverId]);
+
+  // Live ride offers pushed to this driver's socket room
+  useEffect(() => {
+    if (!driverId) return;
+
+    const socket = socketService.connect();
+
+    const handleOffer = ({ offer }: { offer: RideOffer }) => {
+      setOffers(prev => [...prev.filter(o => o.id !== offer.id), offer]);
+      toast({
+        title: "New ride request",
+        description: `${offer.rider.name} • ${offer.ride.ride_type}`,
+      });
+    };
+
+    const handleWithdrawn = ({ offer_id }: { offer_id: number }) => {
+      setOffers(prev => prev.filter(o => o.id !== offer_id));
+    };
+
+    socket.on('ride:offer', handleOffer);
+    socket.on('ride:offer_withdrawn', handleWithdrawn);
+
+    return () => {
+      socket.off('ride:offer', handleOffer);
+      socket.off('ride:offer_withdrawn', handleWithdrawn);
+    };
+  }, [toast, driverId]);
+
+  // Shared riders are added to a pooling driver's car without an offer
+  useEffect(() => {
+    if (!driverId) return;
+
+    const socket = socketService.connect();
+    const handleRiderAdded = () => {
+      toast({
+        title: "New co-rider added",
+        description: "Another shared rider is joining your trip",
+      });
+      loadDashboard();
+    };
+
+    socket.on('pool:rider_added', handleRiderAdded);
+    return () => {
+      socket.off('pool:rider_added', handleRiderAdded);
+    };
+  }, [toast, driverId, loadDashboard]);
+
+  // Share location while available so riders can be matched to this driver
+  useEffect(() => {
+    if (status === 'offline' || !navigator.geolocation || !driverId) return;
+
+    let lastPosition: { lat: number; lng: number } | null = null;
+
+    const report = () => {
+      const now = Date.now();
+      if (!lastPosition || now - lastLocationUpdateRef.current < LOCATION_UPDATE_INTERVAL_MS) return;
+      lastLocationUpdateRef.current = now;
+
+      const { lat, lng } = lastPosition;
+      driverAPI.updateLocation(lat, lng).catch(error => {
+        console.error('Failed to update location:', error);
+      });
+      socketService.connect().emit('driver-location-update', { lat, lng });
+    };
+
+    const watchId = navigator.geolocation.watchPosition(
+      (position) => {
+        lastPosition = { lat: position.coords.latitude, lng: position.coords.longitude };
+        report();
+      },
+      (error) => console.error('Geolocation error:', error),
+      { enableHighAccuracy: true }
+    );
+
+    // watchPosition goes quiet while parked; keep re-sending the last fix so riders' maps don't drop us as stale
+    const heartbeat = setInterval(report, LOCATION_UPDATE_INTERVAL_MS);
+
+    return () => {
+      navigator.geolocation.clearWatch(watchId);
+      clearInterval(heartbeat);
+    };
+  }, [status, driverId]);
+
+  const changeStatus = async (nextStatus: DriverStatus) => {
+    if (!dashboard || nextStatus === status) return;
+
+    setIsUpdatingStatus(true);
+    try {
+      await driverAPI.updateStatus(nextStatus);
+      setDashboard({ ...dashboard, driver: { ...dashboard.driver, status: nextStatus } });
+      if (nextStatus === 'offline') {
+        setOffers([]);
+      }
+    } catch (error) {
+      toast({
+        title: "Failed to update status",
+        description: getApiErrorMessage(error, "Please try again"),
+        variant: "destructive",
+      });
+    } finally {
+      setIsUpdatingStatus(false);
+    }
+  };
+
+  const removeOffer = useCallback((offer: RideOffer) => {
+    setOffers(prev => prev.filter(o => o.id !== offer.id));
+  }, []);
+
+  const acceptOffer = async (offer: RideOffer) => {
+    setRespondingOfferId(offer.id);
+    try {
+      await driverAPI.acceptOffer(offer.id);
+      toast({
+        title: "Ride accepted",
+        description: `Head to ${offer.rider.name}'s pickup location`,
+      });
+      setOffers([]);
+      await loadDashboard();
+    } catch (error) {
+      removeOffer(offer);
+      toast({
+        title: "Could not accept ride",
+        description: getApiErrorMessage(error, "Please try again"),
+        variant: "destructive",
+      });
+    } finally {
+      setRespondingOfferId(null);
+    }
+  };
+
+  const declineOffer = async (offer: RideOffer) => {
+    setRespondingOfferId(offer.id);
+    try {
+      await driverAPI.declineOffer(offer.id);
+    } catch (error) {
+      console.error('Failed to decline offer:', error);
+    } finally {
+      removeOffer(offer);
+      setRespondingOfferId(null);
+    }
+  };
+
+  const tripActionMessages: Record<Exclude<RideAction, 'accept'>, string> = {
+    arrive: 'Rider has been notified that you arrived',
+    start: 'Trip started',
+    complete: 'Trip completed',
+    cancel: 'Trip cancelled',
+  };
+
+  const handleTripAction = async (trip: DriverTrip, action: Exclude<RideAction, 'accept'>) => {
+    setPendingTripAction(action);
+    try {
+      if (action === 'cancel') {
+        await rideAPI.cancelRide(trip.id, 'Cancelled by driver');
+      } else {
+        await rideAPI.transitionRide(trip.id, action);
+      }
+      toast({ title: tripActionMessages[action] });
+      if (action === 'complete') {
+        setTripToRate(trip);
+      }
+      await loadDashboard();
+    } catch (error) {
+      toast({
+        title: "Trip update failed",
+        description: getApiErrorMessage(error, "Please try again"),
+        variant: "destructive",
+      });
+      await loadDashboard();
+    } finally {
+      setPendingTripAction(null);
+    }
+  };
+
+  const handleStopArrived = async (trip: DriverTrip, stopOrder: number) => {
+    setPendingStop(stopOrder);
+    try {
+      await rideAPI.arriveAtStop(trip.id, stopOrder);
+      toast({ title: `Arrived at stop ${stopOrder}` });
+      await loadDashboard();
+    } catch (error) {
+      toast({
+        title: "Trip update failed",
+        description: getApiErrorMessage(error, "Please try again"),
+        variant: "destructive",
+      });
+      await loadDashboard();
+    } finally {
+      setPendingStop(null);
+    }
+  };
+
+  const handleLogout = () => {
+    authService.logout();
+    socketService.disconnect();
+    window.location.reload();
+  };
+
+  if (!user) {
+    return <Navigate to="/login" replace />;
+  }
+
+  if (user.role !== 'driver') {
+    return <Navigate to="/home" replace />;
+  }
+
+  const currentStatus = statusOptions.find(option => option.value === status)!;
+
+  return (
+    <div className="min-h-screen bg-background text-foreground">
+      {/* Header */}
+      <header className="border-b border-border bg-card">
+        <div className="container mx-auto px-4 py-4">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-4">
+              <h1 className="text-2xl font-bold text-ride-primary">RideShare</h1>
+              <Badge variant="secondary">Driver Console</Badge>
+            </div>
+
+            <div className="flex items-center gap-4">
+              <div className="flex items-center gap-2 text-sm">
+                <User className="h-4 w-4" />
+                <span>{user.name}</span>
+              </div>
+
+              {dashboard && (
+                <div className="flex items-center gap-1 text-sm">
+                  <Star className="h-4 w-4 text-yellow-400" />
+                  <span>{dashboard.driver.rating.toFixed(2)}</span>
+                </div>
+              )}
+
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleLogout}
+                className="gap-2"
+              >
+                <LogOut className="h-4 w-4" />
+                Logout
+              </Button>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <div className="container mx-auto px-4 py-8">
+        {isLoading ? (
+          <div className="flex justify-center py-16">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-ride-primary"></div>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+            <div className="space-y-4">
+              {/* Availability */}
+              <Card className="border-card-border">
+                <CardHeader>
+                  <CardTitle className="flex items-center justify-between">
+                    <span className="flex items-center gap-2">
+                      <Power className="h-5 w-5 text-green-400" />
+                      Availability
+                    </span>
+                    <Badge variant="secondary" className={currentStatus.className}>
+                      {currentStatus.label}
+                    </Badge>
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="grid grid-cols-3 gap-2">
+                    {statusOptions.map(option => (
+                      <Button
+                        key={option.value}
+                        variant={status === option.value ? 'default' : 'outline'}
+                        onClick={() => changeStatus(option.value)}
+                        disabled={isUpdatingStatus}
+                      >
+                        {option.label}
+                      </Button>
+                    ))}
+                  </div>
+                </CardContent>
+              </Card>
+
+              {/* Ride offers */}
+              <Card className="border-card-border">
+                <CardHeader>
+                  <CardTitle className="flex items-center justify-between">
+                    <span className="flex items-center gap-2">
+                      <Inbox className="h-5 w-5 text-blue-400" />
+                      Ride Requests
+                    </span>
+                    <Badge variant="outline">{offers.length} pending</Badge>
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  {offers.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">
+                      {status === 'online'
+                        ? 'Waiting for ride requests nearby...'
+                        : 'Go online to receive ride requests.'}
+                    </p>
+                  ) : (
+                    offers.map(offer => (
+                      <RideOfferCard
+                        key={offer.id}
+                        offer={offer}
+                        isResponding={respondingOfferId === offer.id}
+                        onAccept={acceptOffer}
+                        onDecline={declineOffer}
+                        onExpire={removeOffer}
+                      />
+                    ))
+                  )}
+                </CardContent>
+              </Card>
+            </div>
+
+            <div className="space-y-4">
+              <CurrentTripCard
+                trip={dashboard?.current_trip ?? null}
+                pendingAction={pendingTripAction}
+                onAction={handleTripAction}
+                pendingStop={pendingStop}
+                onStopArrived={handleStopArrived}
+              />
+              {dashboard?.pool_trips.map(poolTrip => (
+                <CurrentTripCard
+                  key={poolTrip.id}
+                  title="Pooled Trip"
+                  trip={poolTrip}
+                  pendingAction={pendingTripAction}
+                  onAction={handleTripAction}
+                />
+              ))}
+
+              {/* Earnings */}
+              <Card className="border-card-border">
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <IndianRupee className="h-5 w-5 text-green-400" />
+                    Today's Earnings
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="grid grid-cols-2 gap-4 text-center">
+                    <div className="p-3 rounded-lg bg-muted/30">
+                      <p className="text-2xl font-bold">₹{Math.round(dashboard?.earnings.today_total ?? 0)}</p>
+                      <p className="text-xs text-muted-foreground uppercase tracking-wide">Earned</p>
+                    </div>
+                    <div className="p-3 rounded-lg bg-muted/30">
+                      <p className="text-2xl font-bold">{dashboard?.earnings.today_trips ?? 0}</p>
+                      <p className="text-xs text-muted-foreground uppercase tracking-wide">Trips</p>
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+
+              {/* Demand map so drivers can reposition toward busy zones */}
+              <Card className="border-card-border">
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <Flame className="h-5 w-5 text-orange-400" />
+                    Demand Map
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="p-0">
+                  <RideMap defaultShowSurge className="h-[400px]" />
+                </CardContent>
+              </Card>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {tripToRate && (
+        <RatingDialog
+          rideId={tripToRate.id}
+          subject="rider"
+          name={tripToRate.rider.name}
+          open={!!tripToRate}
+          onOpenChange={(open) => !open && setTripToRate(null)}
+        />
+      )}
+    </div>
+  );
+};
@@ -1,57 +1,39 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { RideMap } from '@/components/map/RideMap';
 import { RideBooking } from '@/components/ride/RideBooking';
+import { RideStatusPanel } from '@/components/ride/RideStatusPanel';
+import { PaymentMethodsSheet } from '@/components/payment/PaymentMethodsSheet';
 import { Button } from '@/components/ui/enhanced-button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { authService } from '@/lib/auth';
-import { rideAPI } from '@/lib/api';
-import { Location, Driver } from '@/types/ride';
+import { socketService } from '@/lib/socket';
+import { Location, Ride, RideStatus, TripRoute } from '@/types/ride';
+import { RideReminderPayload } from '@/types/socket';
 import { useToast } from '@/hooks/use-toast';
-import { LogOut, User, Wallet, History, Activity } from 'lucide-react';
+import { useWalletBalance } from '@/hooks/use-wallet-balance';
+import { usePaymentMethods } from '@/hooks/use-payment-methods';
+import { useRidePool } from '@/hooks/use-ride-pool';
+import { useDriverRoute } from '@/hooks/use-driver-route';
+import { useLiveDrivers } from '@/hooks/use-live-drivers';
+import { LogOut, User, Wallet, History, Activity, Star } from 'lucide-react';
 import { Badge } from '@/components/ui/badge';
-import { Navigate } from 'react-router-dom';
-
-// ✅ FIX: Helper function to safely format wallet balance
-const formatWalletBalance = (balance: any): string => {
-  if (balance === null || balance === undefined) {
-    return '0.00';
-  }
-  
-  const numBalance = Number(balance);
-  if (isNaN(numBalance)) {
-    return '0.00';
-  }
-  
-  return numBalance.toFixed(2);
-};
+import { Link, Navigate } from 'react-router-dom';
 
 export const HomePage: React.FC = () => {
   const [pickup, setPickup] = useState<Location>();
   const [dropoff, setDropoff] = useState<Location>();
-  const [drivers, setDrivers] = useState<Driver[]>([]);
-  const [isLoadingDrivers, setIsLoadingDrivers] = useState(false);
+  const [stops, setStops] = useState<Location[]>([]);
+  const [route, setRoute] = useState<TripRoute | null>(null);
+  const [activeRide, setActiveRide] = useState<Ride | null>(null);
+  const [activeRideStatus, setActiveRideStatus] = useState<RideStatus>();
   const user = authService.getUser();
+  const wallet = useWalletBalance(user?.role === 'rider');
+  const paymentMethods = usePaymentMethods(user?.role === 'rider');
+  const [showPaymentMethods, setShowPaymentMethods] = useState(false);
   const { toast } = useToast();
 
-  // Load nearby drivers
-  useEffect(() => {
-    if (pickup) {
-      loadNearbyDrivers(pickup.lat, pickup.lng);
-    }
-  }, [pickup]);
-
-  const loadNearbyDrivers = async (lat: number, lng: number) => {
-    setIsLoadingDrivers(true);
-    try {
-      const nearbyDrivers = await rideAPI.getNearbyDrivers(lat, lng);
-      setDrivers(nearbyDrivers);
-    } catch (error: any) {
-      console.error('Failed to load drivers:', error);
-      // Don't show error toast for driver loading as it's not critical
-    } finally {
-      setIsLoadingDrivers(false);
-    }
-  };
+  // Nearby drivers, moving live on the map
+  const { drivers, isLoading: isLoadingDrivers } = useLiveDrivers(pickup);
 
   const handleLocationChange = (type: 'pickup' | 'dropoff', location: Location) => {
     if (type === 'pickup') {
@@ -61,8 +43,41 @@ export const HomePage: React.FC = () => {
     }
   };
 
+  // Completed rides and late cancellations are charged to the wallet
+  const refreshWallet = wallet.refresh;
+  const handleRideStatusChange = useCallback((status: RideStatus) => {
+    setActiveRideStatus(status);
+    if (status === 'completed' || status === 'cancelled') {
+      refreshWallet();
+    }
+  }, [refreshWallet]);
+
+  const pool = useRidePool(activeRide?.ride_type === 'shared' ? activeRide.id : undefined, activeRideStatus);
+  const driverRoute = useDriverRoute(activeRide?.id, activeRideStatus ?? activeRide?.status);
+
+  // Reminders for upcoming scheduled rides arrive on the rider's own socket room
+  useEffect(() => {
+    if (user?.role !== 'rider') return;
+
+    const socket = socketService.connect();
+    const onReminder = (reminder: RideReminderPayload) => {
+      toast({
+        title: "Upcoming scheduled ride",
+        description: `Pickup in ${reminder.minutes_until_pickup} min${
+          reminder.pickup_address ? ` at ${reminder.pickup_address}` : ''
+        }. Free cancellation until ${new Date(reminder.free_cancellation_until).toLocaleTimeString()}.`,
+      });
+    };
+
+    socket.on('ride:reminder', onReminder);
+    return () => {
+      socket.off('ride:reminder', onReminder);
+    };
+  }, [user?.role, toast]);
+
   const handleLogout = () => {
     authService.logout();
+    socketService.disconnect();
     window.location.reload();
   };
 
@@ -70,6 +85,10 @@ export const HomePage: React.FC = () => {
     return <Navigate to="/login" replace />;
   }
 
+  if (user.role === 'driver') {
+    return <Navigate to="/driver" replace />;
+  }
+
   return (
     <div className="min-h-screen bg-background text-foreground">
       {/* Header */}
@@ -87,13 +106,21 @@ export const HomePage: React.FC = () => {
               <div className="flex items-center gap-2 text-sm">
                 <User className="h-4 w-4" />
                 <span>{user.name}</span>
+                {user.rider_rating !== undefined && (
+                  <span className="flex items-center gap-1 text-muted-foreground" title="Your rating from drivers">
+                    <Star className="h-3 w-3 fill-yellow-400 text-yellow-400" />
+                    {user.rider_rating.toFixed(2)}
+                  </span>
+                )}
               </div>
               
-              <div className="flex items-center gap-2 text-sm">
+              <Link
+                to="/wallet"
+                className="flex items-center gap-2 text-sm hover:text-ride-primary transition-colors"
+              >
                 <Wallet className="h-4 w-4 text-green-400" />
-                {/* ✅ FIX: Use safe formatting function */}
-                <span>${formatWalletBalance(user.wallet_balance)}</span>
-              </div>
+                <span>₹{wallet.balance.toFixed(2)}</span>
+              </Link>
               
               <Button 
                 variant="outline" 
@@ -133,6 +160,10 @@ export const HomePage: React.FC = () => {
                 <RideMap
                   pickup={pickup}
                   dropoff={dropoff}
+                  stops={activeRide ? activeRide.stops?.map(stop => stop.location) : stops}
+                  poolStops={pool?.route}
+                  route={activeRide ? null : route}
+                  driverRoute={driverRoute}
                   drivers={drivers}
                   onLocationSelect={(location) => {
                     if (!pickup) {
@@ -157,11 +188,38 @@ export const HomePage: React.FC = () => {
 
           {/* Booking Section */}
           <div className="space-y-4">
-            <RideBooking
-              pickup={pickup}
-              dropoff={dropoff}
-              onLocationChange={handleLocationChange}
-            />
+            {activeRide ? (
+              <RideStatusPanel
+                rideId={activeRide.id}
+                rideType={activeRide.ride_type}
+                fare={activeRide.fare !== undefined
+                  ? activeRide.fare - (activeRide.discount_amount ?? 0) - (pool?.pool_discount ?? 0)
+                  : undefined}
+                pool={pool}
+                scheduledFor={activeRide.scheduled_for}
+                stops={activeRide.stops}
+                initialStatus={activeRide.status}
+                onStatusChange={handleRideStatusChange}
+                onClose={() => {
+                  setActiveRide(null);
+                  setActiveRideStatus(undefined);
+                }}
+              />
+            ) : (
+              <RideBooking
+                pickup={pickup}
+                dropoff={dropoff}
+                onLocationChange={handleLocationChange}
+                onStopsChange={setStops}
+                onRouteChange={setRoute}
+                onRideBooked={(ride) => {
+                  setActiveRide(ride);
+                  setDropoff(undefined);
+                }}
+                paymentMethods={paymentMethods.methods}
+                onManagePaymentMethods={() => setShowPaymentMethods(true)}
+              />
+            )}
 
             {/* Quick Actions */}
             <Card className="border-card-border">
@@ -169,11 +227,17 @@ export const HomePage: React.FC = () => {
                 <CardTitle>Quick Actions</CardTitle>
               </CardHeader>
               <CardContent className="space-y-3">
-                <Button variant="outline" className="w-full justify-start gap-2">
-                  <History className="h-4 w-4" />
-                  View Trip History
+                <Button asChild variant="outline" className="w-full justify-start gap-2">
+                  <Link to="/history">
+                    <History className="h-4 w-4" />
+                    View Trip History
+                  </Link>
                 </Button>
-                <Button variant="outline" className="w-full justify-start gap-2">
+                <Button
+                  variant="outline"
+                  className="w-full justify-start gap-2"
+                  onClick={() => setShowPaymentMethods(true)}
+                >
                   <Wallet className="h-4 w-4" />
                   Add Payment Method
                 </Button>
@@ -205,6 +269,13 @@ export const HomePage: React.FC = () => {
           </div>
         </div>
       </div>
+
+      <PaymentMethodsSheet
+        open={showPaymentMethods}
+        onOpenChange={setShowPaymentMethods}
+        methods={paymentMethods.methods}
+        onMethodsChange={paymentMethods.refresh}
+      />
     </div>
   );
 };
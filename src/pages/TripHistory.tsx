@@ -0,0 +1,315 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Link, Navigate } from 'react-router-dom';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/enhanced-button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { TripThumbnail } from '@/components/map/TripThumbnail';
+import { TripReceiptDialog } from '@/components/ride/TripReceiptDialog';
+import { authService } from '@/lib/auth';
+import { rideAPI, getApiErrorMessage } from '@/lib/api';
+import { formatRupees, rideStatusBadge, rideTypeNames } from '@/lib/rides';
+import { saveBlob } from '@/lib/utils';
+import { Ride, RideStatus, RideType, TripHistory, TripHistoryFilters } from '@/types/ride';
+import { useToast } from '@/hooks/use-toast';
+import { ArrowLeft, Download, History, Loader2, X } from 'lucide-react';
+
+// Radix selects can't hold an empty value, so "all" stands in for no filter
+const ALL = 'all';
+
+const statusOptions = Object.entries(rideStatusBadge) as [RideStatus, { label: string }][];
+const rideTypeOptions = Object.entries(rideTypeNames) as [RideType, string][];
+
+export const TripHistoryPage: React.FC = () => {
+  const [filters, setFilters] = useState<TripHistoryFilters>({});
+  const [history, setHistory] = useState<TripHistory | null>(null);
+  const [rides, setRides] = useState<Ride[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [receiptRideId, setReceiptRideId] = useState<string | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+  const user = authService.getUser();
+  const isRider = user?.role === 'rider';
+  const { toast } = useToast();
+
+  const loadHistory = useCallback(async (activeFilters: TripHistoryFilters) => {
+    setIsLoading(true);
+    try {
+      const data = await rideAPI.getTripHistory(activeFilters);
+      setHistory(data);
+      setRides(data.rides);
+    } catch (error) {
+      toast({
+        title: "Failed to load trips",
+        description: getApiErrorMessage(error, "Please refresh the page"),
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    if (isRider) {
+      loadHistory(filters);
+    }
+  }, [isRider, filters, loadHistory]);
+
+  const loadMore = async () => {
+    if (!history?.next_cursor) return;
+
+    setIsLoadingMore(true);
+    try {
+      const data = await rideAPI.getTripHistory({ ...filters, before: history.next_cursor });
+      setHistory(data);
+      setRides(prev => [...prev, ...data.rides]);
+    } catch (error) {
+      toast({
+        title: "Failed to load trips",
+        description: getApiErrorMessage(error, "Please try again"),
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoadingMore(false);
+    }
+  };
+
+  // Export follows the date and status filters; the ride type filter only narrows the table
+  const exportCsv = async () => {
+    setIsExporting(true);
+    try {
+      const { from, to, status } = filters;
+      const csv = await rideAPI.exportTrips({ from, to, status });
+      saveBlob(csv, `rides${from || to ? `-${from ?? 'start'}-to-${to ?? 'today'}` : ''}.csv`);
+    } catch (error) {
+      toast({
+        title: "Export failed",
+        description: getApiErrorMessage(error, "Please try again"),
+        variant: "destructive",
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const updateFilter = <K extends keyof TripHistoryFilters>(key: K, value: TripHistoryFilters[K] | typeof ALL | '') => {
+    setFilters(prev => {
+      const next = { ...prev };
+      if (!value || value === ALL) {
+        delete next[key];
+      } else {
+        next[key] = value as TripHistoryFilters[K];
+      }
+      return next;
+    });
+  };
+
+  if (!user) {
+    return <Navigate to="/login" replace />;
+  }
+
+  if (!isRider) {
+    return <Navigate to="/driver" replace />;
+  }
+
+  const hasFilters = Object.keys(filters).length > 0;
+
+  return (
+    <div className="min-h-screen bg-background text-foreground">
+      {/* Header */}
+      <header className="border-b border-border bg-card">
+        <div className="container mx-auto px-4 py-4">
+          <div className="flex items-center gap-4">
+            <Button asChild variant="outline" size="sm" className="gap-2">
+              <Link to="/home">
+                <ArrowLeft className="h-4 w-4" />
+                Back
+              </Link>
+            </Button>
+            <h1 className="text-2xl font-bold text-ride-primary">Trip History</h1>
+          </div>
+        </div>
+      </header>
+
+      <div className="container mx-auto px-4 py-8 space-y-6">
+        {/* Summary */}
+        {history && (
+          <div className="grid grid-cols-3 gap-4">
+            <Card className="border-card-border">
+              <CardContent className="p-4">
+                <p className="text-sm text-muted-foreground">Completed trips</p>
+                <p className="text-2xl font-bold">{history.total_trips}</p>
+              </CardContent>
+            </Card>
+            <Card className="border-card-border">
+              <CardContent className="p-4">
+                <p className="text-sm text-muted-foreground">Total spent</p>
+                <p className="text-2xl font-bold">{formatRupees(history.total_spent)}</p>
+              </CardContent>
+            </Card>
+            <Card className="border-card-border">
+              <CardContent className="p-4">
+                <p className="text-sm text-muted-foreground">Average rating given</p>
+                <p className="text-2xl font-bold">
+                  {history.average_rating !== null ? history.average_rating.toFixed(1) : '—'}
+                </p>
+              </CardContent>
+            </Card>
+          </div>
+        )}
+
+        <Card className="border-card-border">
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <CardTitle className="flex items-center gap-2">
+                <History className="h-5 w-5 text-blue-400" />
+                Your trips
+              </CardTitle>
+              <Button variant="outline" size="sm" className="gap-2" onClick={exportCsv} disabled={isExporting}>
+                {isExporting ? <Loader2 className="h-4 w-4 animate-spin" /> : <Download className="h-4 w-4" />}
+                Export CSV
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {/* Filters */}
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-3 items-end">
+              <div className="space-y-2">
+                <Label>Status</Label>
+                <Select value={filters.status ?? ALL} onValueChange={(value) => updateFilter('status', value as RideStatus)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL}>All statuses</SelectItem>
+                    {statusOptions.map(([status, { label }]) => (
+                      <SelectItem key={status} value={status}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Ride type</Label>
+                <Select value={filters.ride_type ?? ALL} onValueChange={(value) => updateFilter('ride_type', value as RideType)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL}>All types</SelectItem>
+                    {rideTypeOptions.map(([type, name]) => (
+                      <SelectItem key={type} value={type}>{name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="history-from">From</Label>
+                <Input
+                  id="history-from"
+                  type="date"
+                  value={filters.from ?? ''}
+                  max={filters.to}
+                  onChange={(e) => updateFilter('from', e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="history-to">To</Label>
+                <Input
+                  id="history-to"
+                  type="date"
+                  value={filters.to ?? ''}
+                  min={filters.from}
+                  onChange={(e) => updateFilter('to', e.target.value)}
+                />
+              </div>
+              <Button variant="outline" className="gap-2" onClick={() => setFilters({})} disabled={!hasFilters}>
+                <X className="h-4 w-4" />
+                Clear
+              </Button>
+            </div>
+
+            {isLoading ? (
+              <div className="flex justify-center py-16">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-ride-primary"></div>
+              </div>
+            ) : rides.length === 0 ? (
+              <p className="text-sm text-muted-foreground py-8 text-center">
+                {hasFilters ? 'No trips match these filters.' : 'You have not taken any trips yet.'}
+              </p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Route</TableHead>
+                    <TableHead>Trip</TableHead>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Fare</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rides.map(ride => (
+                    <TableRow
+                      key={ride.id}
+                      className="cursor-pointer"
+                      onClick={() => setReceiptRideId(ride.id)}
+                    >
+                      <TableCell>
+                        <TripThumbnail pickup={ride.pickup} dropoff={ride.dropoff} />
+                      </TableCell>
+                      <TableCell className="max-w-xs">
+                        <p className="text-sm font-medium truncate">{ride.dropoff.address}</p>
+                        <p className="text-xs text-muted-foreground truncate">from {ride.pickup.address}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {rideTypeNames[ride.ride_type]}
+                          {ride.distance_km !== undefined && ` • ${ride.distance_km} km`}
+                        </p>
+                      </TableCell>
+                      <TableCell className="text-sm whitespace-nowrap">
+                        {new Date(ride.created_at).toLocaleString()}
+                        {ride.scheduled_for && (
+                          <p className="text-xs text-muted-foreground">
+                            Pickup {new Date(ride.scheduled_for).toLocaleString()}
+                          </p>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant="secondary" className={rideStatusBadge[ride.status].className}>
+                          {rideStatusBadge[ride.status].label}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <p className="font-semibold">
+                          {formatRupees((ride.fare ?? 0) - (ride.discount_amount ?? 0) - (ride.pool_discount ?? 0))}
+                        </p>
+                        {ride.surge_multiplier !== undefined && ride.surge_multiplier > 1 && (
+                          <p className="text-xs text-orange-400">{ride.surge_multiplier.toFixed(1)}x surge</p>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+
+            {history?.next_cursor && !isLoading && (
+              <Button
+                variant="outline"
+                className="w-full"
+                onClick={loadMore}
+                disabled={isLoadingMore}
+              >
+                {isLoadingMore ? 'Loading...' : 'Load older trips'}
+              </Button>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <TripReceiptDialog rideId={receiptRideId} onClose={() => setReceiptRideId(null)} />
+    </div>
+  );
+};
@@ -0,0 +1,305 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Link, Navigate } from 'react-router-dom';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/enhanced-button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { PaymentMethodIcon, PaymentMethodsSheet } from '@/components/payment/PaymentMethodsSheet';
+import { authService } from '@/lib/auth';
+import { walletAPI, getApiErrorMessage } from '@/lib/api';
+import { paymentMethodLabel } from '@/lib/payment-methods';
+import { WalletSummary, WalletTransaction } from '@/types/wallet';
+import { useToast } from '@/hooks/use-toast';
+import { usePaymentMethods } from '@/hooks/use-payment-methods';
+import { ArrowLeft, ArrowDownLeft, ArrowUpRight, Loader2, Plus, Wallet } from 'lucide-react';
+
+const QUICK_TOPUP_AMOUNTS = [100, 200, 500, 1000];
+
+const transactionLabels: Record<WalletTransaction['type'], string> = {
+  topup: 'Top-up',
+  ride_payment: 'Ride payment',
+  refund: 'Refund',
+  adjustment: 'Adjustment',
+};
+
+const formatAmount = (amount: number) => `₹${Math.abs(amount).toFixed(2)}`;
+const formatBalance = (balance: number) => `${balance < 0 ? '-' : ''}${formatAmount(balance)}`;
+
+export const WalletPage: React.FC = () => {
+  const [wallet, setWallet] = useState<WalletSummary | null>(null);
+  const [transactions, setTransactions] = useState<WalletTransaction[]>([]);
+  const [nextCursor, setNextCursor] = useState<number | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [topUpAmount, setTopUpAmount] = useState('');
+  const [isToppingUp, setIsToppingUp] = useState(false);
+  const [fundingMethodId, setFundingMethodId] = useState<string>();
+  const [isManagingMethods, setIsManagingMethods] = useState(false);
+  const user = authService.getUser();
+  const isRider = user?.role === 'rider';
+  const { toast } = useToast();
+  const { methods, refresh: refreshMethods } = usePaymentMethods(isRider);
+
+  // Top-ups are charged to a card or UPI, never to the wallet itself
+  const fundingMethods = methods.filter(method => method.payment_type !== 'wallet');
+  const fundingMethod = fundingMethods.find(method => method.id === fundingMethodId)
+    ?? fundingMethods.find(method => method.is_default)
+    ?? fundingMethods[0];
+
+  const loadWallet = useCallback(async () => {
+    try {
+      const data = await walletAPI.getWallet();
+      setWallet(data);
+      setTransactions(data.transactions);
+      setNextCursor(data.next_cursor);
+      authService.updateUser({ wallet_balance: data.balance });
+    } catch (error) {
+      toast({
+        title: "Failed to load wallet",
+        description: getApiErrorMessage(error, "Please refresh the page"),
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    if (isRider) {
+      loadWallet();
+    }
+  }, [isRider, loadWallet]);
+
+  const loadMore = async () => {
+    if (!nextCursor) return;
+
+    setIsLoadingMore(true);
+    try {
+      const data = await walletAPI.getWallet({ before: nextCursor });
+      setTransactions(prev => [...prev, ...data.transactions]);
+      setNextCursor(data.next_cursor);
+    } catch (error) {
+      toast({
+        title: "Failed to load transactions",
+        description: getApiErrorMessage(error, "Please try again"),
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoadingMore(false);
+    }
+  };
+
+  const topUp = async (amount: number) => {
+    if (!fundingMethod) return;
+
+    setIsToppingUp(true);
+    try {
+      const result = await walletAPI.topUp(amount, fundingMethod.id);
+      toast({
+        title: "Wallet topped up",
+        description: `${formatAmount(amount)} added. New balance ${formatBalance(result.balance)}`,
+      });
+      setTopUpAmount('');
+      await loadWallet();
+    } catch (error) {
+      toast({
+        title: "Top-up failed",
+        description: getApiErrorMessage(error, "Please try again"),
+        variant: "destructive",
+      });
+    } finally {
+      setIsToppingUp(false);
+    }
+  };
+
+  if (!user) {
+    return <Navigate to="/login" replace />;
+  }
+
+  if (!isRider) {
+    return <Navigate to="/driver" replace />;
+  }
+
+  const customAmount = Number(topUpAmount);
+
+  return (
+    <div className="min-h-screen bg-background text-foreground">
+      {/* Header */}
+      <header className="border-b border-border bg-card">
+        <div className="container mx-auto px-4 py-4">
+          <div className="flex items-center gap-4">
+            <Button asChild variant="outline" size="sm" className="gap-2">
+              <Link to="/home">
+                <ArrowLeft className="h-4 w-4" />
+                Back
+              </Link>
+            </Button>
+            <h1 className="text-2xl font-bold text-ride-primary">Wallet</h1>
+          </div>
+        </div>
+      </header>
+
+      <div className="container mx-auto px-4 py-8 max-w-3xl space-y-6">
+        {isLoading ? (
+          <div className="flex justify-center py-16">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-ride-primary"></div>
+          </div>
+        ) : (
+          <>
+            {/* Balance */}
+            <Card className="border-card-border">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Wallet className="h-5 w-5 text-green-400" />
+                  Balance
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                <p className="text-4xl font-bold">{formatBalance(wallet?.balance ?? 0)}</p>
+                {wallet && wallet.held_amount > 0 && (
+                  <p className="text-sm text-muted-foreground">
+                    {formatAmount(wallet.held_amount)} reserved for rides in progress •{' '}
+                    {formatBalance(wallet.available_balance)} available
+                  </p>
+                )}
+                {wallet && wallet.balance < 0 && (
+                  <p className="text-sm text-red-400">Top up to clear your outstanding balance before your next ride.</p>
+                )}
+              </CardContent>
+            </Card>
+
+            {/* Top up */}
+            <Card className="border-card-border">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Plus className="h-5 w-5 text-blue-400" />
+                  Add money
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm text-muted-foreground">Pay with</span>
+                    <Button variant="link" size="sm" className="h-auto p-0" onClick={() => setIsManagingMethods(true)}>
+                      Manage
+                    </Button>
+                  </div>
+                  {fundingMethods.length > 0 ? (
+                    <Select value={fundingMethod?.id} onValueChange={setFundingMethodId}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Choose a card or UPI" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {fundingMethods.map(method => (
+                          <SelectItem key={method.id} value={method.id}>
+                            <div className="flex items-center gap-2">
+                              <PaymentMethodIcon type={method.payment_type} className="h-4 w-4" />
+                              <span>{paymentMethodLabel(method)}</span>
+                            </div>
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  ) : (
+                    <p className="text-sm text-muted-foreground">Add a card or UPI to top up your wallet.</p>
+                  )}
+                </div>
+                <div className="grid grid-cols-4 gap-2">
+                  {QUICK_TOPUP_AMOUNTS.map(amount => (
+                    <Button
+                      key={amount}
+                      variant="outline"
+                      onClick={() => topUp(amount)}
+                      disabled={isToppingUp || !fundingMethod}
+                    >
+                      +₹{amount}
+                    </Button>
+                  ))}
+                </div>
+                <div className="flex gap-2">
+                  <Input
+                    type="number"
+                    min={10}
+                    max={10000}
+                    value={topUpAmount}
+                    onChange={(e) => setTopUpAmount(e.target.value)}
+                    placeholder="Other amount (₹10 - ₹10,000)"
+                  />
+                  <Button
+                    onClick={() => topUp(customAmount)}
+                    disabled={isToppingUp || !fundingMethod || !customAmount || customAmount <= 0}
+                  >
+                    {isToppingUp ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Top up'}
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+
+            {/* History */}
+            <Card className="border-card-border">
+              <CardHeader>
+                <CardTitle>Transactions</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {transactions.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No wallet activity yet.</p>
+                ) : (
+                  transactions.map(transaction => {
+                    const isCredit = transaction.amount >= 0;
+
+                    return (
+                      <div
+                        key={transaction.id}
+                        className="flex items-center justify-between p-3 rounded-lg bg-muted/30"
+                      >
+                        <div className="flex items-center gap-3">
+                          <div className={`p-2 rounded-full ${isCredit ? 'bg-green-900/30 text-green-400' : 'bg-red-900/30 text-red-400'}`}>
+                            {isCredit ? <ArrowDownLeft className="h-4 w-4" /> : <ArrowUpRight className="h-4 w-4" />}
+                          </div>
+                          <div>
+                            <p className="text-sm font-medium">
+                              {transaction.description || transactionLabels[transaction.type]}
+                            </p>
+                            <p className="text-xs text-muted-foreground">
+                              {new Date(transaction.created_at).toLocaleString()}
+                            </p>
+                          </div>
+                        </div>
+                        <div className="text-right">
+                          <p className={`font-semibold ${isCredit ? 'text-green-400' : 'text-red-400'}`}>
+                            {isCredit ? '+' : '-'}{formatAmount(transaction.amount)}
+                          </p>
+                          <p className="text-xs text-muted-foreground">
+                            Balance {formatBalance(transaction.balance_after)}
+                          </p>
+                        </div>
+                      </div>
+                    );
+                  })
+                )}
+
+                {nextCursor && (
+                  <Button
+                    variant="outline"
+                    className="w-full"
+                    onClick={loadMore}
+                    disabled={isLoadingMore}
+                  >
+                    {isLoadingMore ? 'Loading...' : 'Load older transactions'}
+                  </Button>
+                )}
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </div>
+
+      <PaymentMethodsSheet
+        open={isManagingMethods}
+        onOpenChange={setIsManagingMethods}
+        methods={methods}
+        onMethodsChange={refreshMethods}
+      />
+    </div>
+  );
+};
@@ -5,6 +5,7 @@ export interface User {
   phone: string;
   role: 'rider' | 'driver'; // Add role support
   wallet_balance: number;
+  rider_rating?: number; // Average of drivers' ratings (riders only)
   created_at: string;
   // Driver-specific fields (optional)
   license_number?: string;
@@ -0,0 +1,50 @@
+import { Ride } from './ride';
+
+export type DriverStatus = 'online' | 'offline' | 'busy';
+
+// What a driver sees of a rider; `rating` is missing until the rider has been rated
+export interface RiderSummary {
+  name: string;
+  rating?: number;
+  rating_count: number;
+}
+
+export interface RideOffer {
+  id: number;
+  ride_id: string;
+  status: 'pending' | 'accepted' | 'declined' | 'expired' | 'withdrawn';
+  distance_km?: number; // Driver's distance to the pickup when offered
+  eta_minutes?: number; // Driving time to the pickup when offered
+  offered_at: string;
+  expires_at: string;
+  seconds_remaining: number; // Computed by the server to avoid clock skew
+  stop_count: number; // Intermediate stops between pickup and dropoff
+  ride: Ride;
+  rider: RiderSummary;
+}
+
+export interface DriverTrip extends Ride {
+  rider: RiderSummary & {
+    phone: string;
+  };
+}
+
+export interface DriverEarnings {
+  today_total: number;
+  today_trips: number;
+  currency: string;
+}
+
+export interface DriverDashboard {
+  driver: {
+    id: string;
+    name: string;
+    vehicle_type: string;
+    license_plate: string;
+    rating: number;
+    status: DriverStatus;
+  };
+  current_trip: DriverTrip | null;
+  pool_trips: DriverTrip[]; // Co-riders' trips when the driver is pooling
+  earnings: DriverEarnings;
+}
@@ -0,0 +1,38 @@
+export type PaymentType = 'card' | 'wallet' | 'upi';
+
+// pending → authorized at booking → completed when the trip completes; voided/refunded on cancel
+export type PaymentStatus = 'pending' | 'authorized' | 'completed' | 'failed' | 'voided' | 'refunded';
+
+export interface RidePayment {
+  id: string;
+  ride_id: string;
+  amount: number;
+  status: PaymentStatus;
+  payment_method_id: string;
+  payment_type?: PaymentType;
+  provider: string;
+  created_at: string;
+  completed_at?: string;
+}
+
+export type CardBrand = 'visa' | 'mastercard' | 'rupay' | 'amex' | 'other';
+
+export interface PaymentMethod {
+  id: string;
+  payment_type: PaymentType;
+  card_last_four?: string;
+  card_brand?: CardBrand;
+  upi_handle?: string;
+  label?: string;
+  is_default: boolean;
+  created_at: string;
+}
+
+export interface NewPaymentMethod {
+  payment_type: Exclude<PaymentType, 'wallet'>;
+  card_last_four?: string;
+  card_brand?: CardBrand;
+  upi_handle?: string;
+  label?: string;
+  is_default?: boolean;
+}
@@ -1,3 +1,5 @@
+import { PaymentMethod, RidePayment } from './payment';
+
 export interface Location {
   lat: number;
   lng: number;
@@ -18,23 +20,108 @@ export interface Driver {
   distance?: number; // Distance from user in km
 }
 
+export type RideType = 'standard' | 'premium' | 'shared';
+
 export interface RideRequest {
   pickup: Location;
   dropoff: Location;
-  ride_type: 'standard' | 'premium' | 'shared';
+  stops?: Location[]; // Intermediate stops, visited in order
+  ride_type: RideType;
+  seats?: number; // Shared rides only, up to MAX_POOL_SEATS
+  quote_id?: string; // Locks the price from a previous estimate
+  promo_code?: string;
+  payment_method_id?: string; // Defaults to the rider's default method, else their wallet
+  scheduled_for?: string; // ISO pickup time for a ride booked in advance; omitted for "now"
 }
 
 // ✅ FIXED: Add missing properties that backend returns
 export interface RideEstimate {
+  ride_type: RideType;
   distance: number;
   duration: number;
   base_fare: number;
   distance_fare?: number; // ✅ Add this property
+  stops_fare?: number; // Per-stop wait charges
+  seats?: number; // Seats priced in; each pays the distance fare
   surge_multiplier: number;
   total_fare: number;
   currency: string;
   pickup_address?: string; // ✅ Add this property  
   dropoff_address?: string; // ✅ Add this property
+  stop_addresses?: string[];
+  quote_id: string; // Signed quote honoured by booking until it expires
+  quote_expires_at: string;
+  promo?: PromoDiscount; // Present when the requested promo applies to this ride type
+  promo_error?: PromoError; // Why the requested promo doesn't apply to this ride type
+}
+
+export type PromoErrorCode =
+  | 'PROMO_NOT_FOUND'
+  | 'PROMO_EXPIRED'
+  | 'PROMO_EXHAUSTED'
+  | 'PROMO_ALREADY_USED'
+  | 'PROMO_BELOW_MIN_FARE';
+
+export interface PromoError {
+  code: PromoErrorCode;
+  message: string;
+}
+
+export interface PromoDiscount {
+  code: string;
+  discount_amount: number;
+  final_fare: number;
+}
+
+export interface PromoValidationResponse {
+  valid: true;
+  code: string;
+  discount_type: 'percentage' | 'fixed';
+  discount_value: number;
+  min_fare: number;
+  max_discount: number | null;
+  expires_at: string;
+  discount_amount?: number; // Only when a trip was sent
+  final_fare?: number;
+}
+
+// One estimate per ride type, priced server-side
+// Road route through the pickup, stops and dropoff shared by every estimate
+export interface TripRoute {
+  distance_km: number;
+  duration_minutes: number;
+  polyline: string; // Google encoded polyline, precision 5
+  provider: string;
+  approximate: boolean; // Straight lines; no road router answered
+}
+
+export interface RideEstimatesResponse {
+  estimates: RideEstimate[];
+  route: TripRoute;
+}
+
+// Where the assigned driver is heading right now: the pickup, then the dropoff via remaining stops
+export interface DriverRoute {
+  status: RideStatus;
+  target?: 'pickup' | 'dropoff';
+  driver_location?: Location;
+  route: TripRoute | null; // Null until a driver with a known position is on the ride
+}
+
+// Error body returned by booking when the quote can't be honoured
+export interface QuoteErrorResponse {
+  message: string;
+  code: 'QUOTE_EXPIRED' | 'QUOTE_INVALID' | 'QUOTE_MISMATCH';
+  quote?: RideEstimate; // Fresh quote to confirm when the old one expired
+}
+
+// `scheduled` rides become `requested` when the scheduler releases them into dispatch shortly before pickup
+export type RideStatus = 'scheduled' | 'requested' | 'accepted' | 'in_progress' | 'completed' | 'cancelled';
+
+export interface RideStop {
+  stop_order: number; // 1-based visiting order
+  location: Location;
+  arrived_at?: string;
 }
 
 export interface Ride {
@@ -43,22 +130,40 @@ export interface Ride {
   driver_id?: string;
   pickup: Location;
   dropoff: Location;
-  ride_type: 'standard' | 'premium' | 'shared';
-  status: 'requested' | 'accepted' | 'in_progress' | 'completed' | 'cancelled';
+  stops?: RideStop[]; // Included where the route matters (booking, receipts, the driver's current trip)
+  ride_type: RideType;
+  status: RideStatus;
   fare?: number;
+  discount_amount?: number; // Promo discount off `fare`
+  cancellation_fee?: number; // Charged when a scheduled ride is cancelled late
+  pool_id?: string; // Shared ride carried together with co-riders
+  seats?: number;
+  pool_discount?: number; // Share of the distance fare saved by riding with co-riders
   surge_multiplier?: number;
   distance_km?: number;
   duration_minutes?: number;
   rating?: number;
   created_at: string;
+  scheduled_for?: string; // Requested pickup time of a ride booked in advance
   accepted_at?: string;
+  arrived_at?: string; // Driver reached the pickup (ride stays `accepted`)
   started_at?: string;
   completed_at?: string;
+  cancelled_at?: string;
+}
+
+export type RideAction = 'accept' | 'arrive' | 'start' | 'complete' | 'cancel';
+
+export interface RideTransitionResponse {
+  message: string;
+  ride: Ride;
 }
 
 export interface RideBookingResponse {
   ride_id: string;
-  status: string;
+  status: RideStatus;
+  ride: Ride; // Persisted ride with the server-side fare and trip details
+  payment?: RidePayment; // Authorized at booking, captured when the ride completes
   message?: string;
   performance?: {
     method: 'sequential' | 'parallel';
@@ -70,3 +175,139 @@ export interface RideBookingResponse {
     clientTime?: number;
   };
 }
+
+export interface GeoBounds {
+  south: number;
+  west: number;
+  north: number;
+  east: number;
+}
+
+// Demand surge for one geohash cell
+export interface SurgeZone {
+  geohash: string;
+  bounds: GeoBounds;
+  multiplier: number;
+  open_requests: number;
+  online_drivers: number;
+  updated_at: string;
+}
+
+export interface SurgeZonesResponse {
+  zones: SurgeZone[];
+  max_multiplier: number;
+  generated_at: string;
+}
+
+export interface TripHistoryFilters {
+  status?: RideStatus;
+  ride_type?: RideType;
+  from?: string; // YYYY-MM-DD, inclusive
+  to?: string; // YYYY-MM-DD, inclusive
+}
+
+export interface TripExportParams {
+  from?: string;
+  to?: string;
+  status?: RideStatus;
+}
+
+export interface TripHistory {
+  rides: Ride[];
+  next_cursor: string | null; // Pass as `before` to load the next page
+  total_trips: number; // Completed trips, regardless of filters
+  total_spent: number;
+  average_rating: number | null;
+}
+
+export interface FareBreakdown {
+  base_fare?: number; // Missing on rides booked before fare components were stored
+  distance_fare?: number;
+  stops_fare: number;
+  subtotal: number; // Before surge
+  surge_multiplier: number;
+  surge_amount: number;
+  fare: number;
+  discount_amount: number;
+  promo_code?: string;
+  pool_discount: number;
+  cancellation_fee: number; // Charged instead of the fare when a scheduled ride was cancelled late
+  tax_rate: number; // GST, included in the total
+  tax_amount: number;
+  total: number; // What the rider pays; for rides that didn't complete, only what was actually charged
+  currency: string;
+}
+
+export interface TripReceipt {
+  ride: Ride;
+  rider: { name: string; email: string };
+  driver?: Pick<Driver, 'id' | 'name' | 'phone' | 'vehicle_type' | 'license_plate' | 'rating'>;
+  fare_breakdown: FareBreakdown;
+  payment?: RidePayment & { method?: PaymentMethod };
+}
+
+export type DriverRatingTag =
+  | 'safe_driving'
+  | 'clean_car'
+  | 'friendly'
+  | 'on_time'
+  | 'good_navigation'
+  | 'unsafe_driving'
+  | 'late_pickup'
+  | 'unprofessional'
+  | 'dirty_car'
+  | 'wrong_route';
+
+export type RiderRatingTag =
+  | 'polite'
+  | 'on_time'
+  | 'respectful'
+  | 'easy_pickup'
+  | 'kept_waiting'
+  | 'rude'
+  | 'messy'
+  | 'wrong_pickup'
+  | 'unsafe_behaviour';
+
+export interface RatingRequest<Tag extends string> {
+  rating: number; // 1-5 stars
+  tags?: Tag[];
+  comment?: string;
+}
+
+export type DriverRatingRequest = RatingRequest<DriverRatingTag>;
+export type RiderRatingRequest = RatingRequest<RiderRatingTag>;
+
+export interface RideRating {
+  ride_id: string;
+  rater_role: 'rider' | 'driver';
+  rating: number;
+  tags: string[];
+  comment?: string;
+  created_at: string;
+}
+
+export interface RateDriverResponse {
+  rating: RideRating;
+  driver_rating: number; // The driver's updated average
+}
+
+export interface RateRiderResponse {
+  rating: RideRating;
+  rider_rating: number; // The rider's updated average
+}
+
+// A remaining pickup or dropoff in a shared ride's pool, in driving order
+export interface PoolStop {
+  kind: 'pickup' | 'dropoff';
+  location: Location;
+  is_own: boolean; // False for co-riders' stops
+}
+
+export interface RidePool {
+  pool_id: string | null; // Null until someone shares the ride
+  seats: number;
+  pool_discount: number;
+  co_riders: number;
+  route: PoolStop[];
+}
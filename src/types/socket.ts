@@ -0,0 +1,88 @@
+import { Driver, Location, Ride, RideStatus } from './ride';
+import { RideOffer } from './driver';
+
+// Driver details shared with the rider once a ride is accepted
+export type RideDriver = Pick<Driver, 'id' | 'name' | 'phone' | 'vehicle_type' | 'license_plate' | 'rating'>;
+
+export interface RideEventPayload {
+  ride_id: string;
+  status: RideStatus;
+  driver?: RideDriver;
+  driver_location?: Location;
+  eta?: number; // Minutes until the driver reaches the pickup
+  cancelled_by?: 'rider' | 'driver' | 'system';
+  reason?: string;
+  cancellation_fee?: number; // Late cancellation of a scheduled ride
+  stop_order?: number; // Stop the driver just reached
+  timestamp: string;
+}
+
+// Sent to the rider a while before a scheduled pickup
+export interface RideReminderPayload {
+  ride_id: string;
+  scheduled_for: string;
+  pickup_address?: string;
+  minutes_until_pickup: number;
+  free_cancellation_until: string;
+  timestamp: string;
+}
+
+// A shared ride's pool changed (co-rider added, picked up, dropped off or cancelled)
+export interface RidePoolUpdatedPayload {
+  ride_id: string;
+  pool_id: string;
+  timestamp: string;
+}
+
+// Snapshot sent right after subscribing to a ride
+export interface RideStatusPayload extends RideEventPayload {
+  ride: Ride;
+}
+
+export interface RideErrorPayload {
+  ride_id?: string;
+  message: string;
+}
+
+export type RideLifecycleEvent =
+  | 'ride:released'
+  | 'ride:accepted'
+  | 'ride:driver_arriving'
+  | 'ride:started'
+  | 'ride:stop_arrived'
+  | 'ride:completed'
+  | 'ride:cancelled';
+
+export interface DriverMovedPayload {
+  driverId: string;
+  location: Location;
+  status: Driver['status'];
+}
+
+export interface ServerToClientEvents {
+  'ride:released': (payload: RideEventPayload) => void;
+  'ride:accepted': (payload: RideEventPayload) => void;
+  'ride:driver_arriving': (payload: RideEventPayload) => void;
+  'ride:started': (payload: RideEventPayload) => void;
+  'ride:stop_arrived': (payload: RideEventPayload) => void;
+  'ride:completed': (payload: RideEventPayload) => void;
+  'ride:cancelled': (payload: RideEventPayload) => void;
+  'ride:status': (payload: RideStatusPayload) => void;
+  'ride:error': (payload: RideErrorPayload) => void;
+  'ride:reminder': (payload: RideReminderPayload) => void;
+  'ride:pool_updated': (payload: RidePoolUpdatedPayload) => void;
+  'pool:rider_added': (payload: { pool_id: string; ride_id: string; timestamp: string }) => void;
+  'ride:offer': (payload: { offer: RideOffer; timestamp: string }) => void;
+  'ride:offer_withdrawn': (payload: { offer_id: number; ride_id: string; timestamp: string }) => void;
+  'driver-moved': (payload: DriverMovedPayload) => void;
+  'driver-offline': (payload: { driverId: string }) => void;
+  'nearby-drivers': (drivers: Array<Pick<Driver, 'id' | 'location' | 'status' | 'distance'>>) => void;
+}
+
+export interface ClientToServerEvents {
+  'ride:subscribe': (payload: { rideId: string }) => void;
+  'ride:unsubscribe': (payload: { rideId: string }) => void;
+  // The server takes the driver from the socket's token and their status from the database
+  'driver-location-update': (payload: { lat: number; lng: number }) => void;
+  'get-nearby-drivers': (payload: { lat: number; lng: number; radius?: number }) => void;
+}
@@ -0,0 +1,26 @@
+export type WalletTransactionType = 'topup' | 'ride_payment' | 'refund' | 'adjustment';
+
+export interface WalletTransaction {
+  id: number;
+  type: WalletTransactionType;
+  amount: number; // Signed: credits positive, debits negative
+  balance_after: number;
+  ride_id?: string;
+  description: string | null;
+  created_at: string;
+}
+
+export interface WalletSummary {
+  balance: number;
+  held_amount: number; // Fares of unfinished rides, charged on completion
+  available_balance: number;
+  currency: string;
+  transactions: WalletTransaction[];
+  next_cursor: number | null; // Pass as `before` to load older transactions
+}
+
+export interface TopUpResponse {
+  message: string;
+  balance: number;
+  transaction: WalletTransaction;
+}